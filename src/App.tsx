@@ -4,6 +4,7 @@ import { LoginForm } from './components/LoginForm';
 import { Layout } from './components/Layout';
 import { CoordinatorDashboard } from './components/CoordinatorDashboard';
 import { TeacherDashboard } from './components/TeacherDashboard';
+import { GuardianDashboard } from './components/GuardianDashboard';
 import { Toaster } from './components/ui/sonner';
 
 function AppContent() {
@@ -26,6 +27,8 @@ function AppContent() {
       <Layout>
         {user.role === 'coordenador' ? (
           <CoordinatorDashboard />
+        ) : user.role === 'responsavel' ? (
+          <GuardianDashboard />
         ) : (
           <TeacherDashboard />
         )}
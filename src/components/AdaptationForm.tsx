@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { api } from '../lib/api';
+import { defaultReviewDate, reviewDateOf } from '../lib/adaptationReview';
 import { adaptationStorage } from '../lib/storage';
+import { fieldErrorMap, fieldErrorsFromResponse, validateAdaptation } from '../lib/validation';
+import { versionConflictFromResponse, versionOf } from '../lib/versioning';
 import type { Adaptation } from '../types';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -8,6 +11,7 @@ import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
 import { Alert, AlertDescription } from './ui/alert';
+import { ConflictDialog } from './ConflictDialog';
 import { toast } from 'sonner';
 
 interface AdaptationFormProps {
@@ -18,6 +22,27 @@ interface AdaptationFormProps {
   onSuccess: (createdAdaptation?: Adaptation) => void;
 }
 
+function toFormData(adaptation: Adaptation) {
+  return {
+    description: adaptation.description,
+    justification: adaptation.justification,
+    date: adaptation.date.split('T')[0],
+    reviewDate: reviewDateOf(adaptation),
+    endDate: adaptation.endDate ? adaptation.endDate.split('T')[0] : '',
+  };
+}
+
+function emptyFormData() {
+  const date = new Date().toISOString().split('T')[0];
+  return {
+    description: '',
+    justification: '',
+    date,
+    reviewDate: defaultReviewDate(date),
+    endDate: '',
+  };
+}
+
 export function AdaptationForm({ 
   studentId, 
   adaptation, 
@@ -25,87 +50,104 @@ export function AdaptationForm({
   onOpenChange, 
   onSuccess 
 }: AdaptationFormProps) {
-  const [formData, setFormData] = useState({
-    description: '',
-    justification: '',
-    date: new Date().toISOString().split('T')[0],
-  });
+  const [formData, setFormData] = useState(emptyFormData);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Version the edits are based on, and the newer copy when a save answers 412
+  const [version, setVersion] = useState(1);
+  const [serverCopy, setServerCopy] = useState<Adaptation | null>(null);
 
   useEffect(() => {
     if (adaptation) {
-      setFormData({
-        description: adaptation.description,
-        justification: adaptation.justification,
-        date: adaptation.date.split('T')[0],
-      });
+      setFormData(toFormData(adaptation));
+      setVersion(versionOf(adaptation));
     } else {
-      setFormData({
-        description: '',
-        justification: '',
-        date: new Date().toISOString().split('T')[0],
-      });
+      setFormData(emptyFormData());
     }
+    setFieldErrors({});
+    setServerCopy(null);
   }, [adaptation, open]);
 
   const handleChange = (field: string, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+    setFormData(prev => {
+      const next = { ...prev, [field]: value };
+      // Keep the default review date in step with the record date until it is edited
+      if (field === 'date' && value && prev.date && prev.reviewDate === defaultReviewDate(prev.date)) {
+        next.reviewDate = defaultReviewDate(value);
+      }
+      return next;
+    });
+    setFieldErrors(prev => ({ ...prev, [field]: '' }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
-    if (!formData.description || !formData.justification || !formData.date) {
-      setError('Por favor, preencha todos os campos');
+    const { errors } = validateAdaptation({ ...formData, studentId });
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) {
+      setError('Por favor, corrija os campos destacados');
       return;
     }
 
+    await save(version);
+  };
+
+  const save = async (baseVersion: number) => {
     setLoading(true);
     try {
       let created: Adaptation | undefined;
       if (adaptation) {
         // Try remote update, but always persist locally
+        let remoteVersion: number | undefined;
         try {
-          await api.updateAdaptation(studentId, adaptation.id, {
-            ...formData,
-            date: new Date(formData.date).toISOString(),
-          });
+          const res = await api.updateAdaptation(studentId, adaptation.id, formData, baseVersion);
+          remoteVersion = res.adaptation.version;
           toast.success('Adaptação atualizada com sucesso!');
         } catch (err) {
+          const current = versionConflictFromResponse<Adaptation>(err);
+          if (current) {
+            // someone else saved first - nothing is written until the user decides
+            setServerCopy(current);
+            return;
+          }
           // remote failure - still persist locally
         }
         const local = adaptationStorage.update(adaptation.id, {
           description: formData.description,
           justification: formData.justification,
-          date: new Date(formData.date).toISOString(),
+          date: formData.date,
+          reviewDate: formData.reviewDate,
+          endDate: formData.endDate || undefined,
+          version: remoteVersion,
         });
         created = local || undefined;
       } else {
         // Try remote create, but always persist locally
         try {
-          const res = await api.createAdaptation({
-            ...formData,
-            studentId,
-            date: new Date(formData.date).toISOString(),
-          });
+          const res = await api.createAdaptation({ ...formData, studentId });
           // If remote returned object, try to use its values when persisting locally
-          if (res && (res as any).id) {
+          if (res.adaptation?.id) {
             // persist locally with remote id when possible
             created = adaptationStorage.create({
-              id: (res as any).id,
+              id: res.adaptation.id,
               studentId,
               description: formData.description,
               justification: formData.justification,
-              date: new Date(formData.date).toISOString(),
+              date: formData.date,
+              reviewDate: formData.reviewDate,
+              endDate: formData.endDate || undefined,
             } as any);
           } else {
             created = adaptationStorage.create({
               studentId,
               description: formData.description,
               justification: formData.justification,
-              date: new Date(formData.date).toISOString(),
+              date: formData.date,
+              reviewDate: formData.reviewDate,
+              endDate: formData.endDate || undefined,
             } as any);
           }
           toast.success('Adaptação registrada com sucesso!');
@@ -115,7 +157,9 @@ export function AdaptationForm({
             studentId,
             description: formData.description,
             justification: formData.justification,
-            date: new Date(formData.date).toISOString(),
+            date: formData.date,
+            reviewDate: formData.reviewDate,
+            endDate: formData.endDate || undefined,
           } as any);
           toast.success('Adaptação registrada localmente (offline)');
         }
@@ -123,6 +167,7 @@ export function AdaptationForm({
       onSuccess(created);
       onOpenChange(false);
     } catch (err: any) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
       setError(err.message || 'Erro ao salvar adaptação');
       toast.error(err.message || 'Erro ao salvar adaptação');
     } finally {
@@ -130,6 +175,21 @@ export function AdaptationForm({
     }
   };
 
+  const handleUseServer = () => {
+    if (!serverCopy) return;
+    setFormData(toFormData(serverCopy));
+    setVersion(versionOf(serverCopy));
+    setServerCopy(null);
+  };
+
+  const handleOverwrite = async () => {
+    if (!serverCopy) return;
+    const serverVersion = versionOf(serverCopy);
+    setVersion(serverVersion);
+    setServerCopy(null);
+    await save(serverVersion);
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl">
@@ -157,6 +217,9 @@ export function AdaptationForm({
               required
               disabled={loading}
             />
+            {fieldErrors.description && (
+              <p className="text-sm text-destructive">{fieldErrors.description}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -170,6 +233,9 @@ export function AdaptationForm({
               required
               disabled={loading}
             />
+            {fieldErrors.justification && (
+              <p className="text-sm text-destructive">{fieldErrors.justification}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -182,6 +248,44 @@ export function AdaptationForm({
               required
               disabled={loading}
             />
+            {fieldErrors.date && (
+              <p className="text-sm text-destructive">{fieldErrors.date}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reviewDate">Data de Revisão *</Label>
+              <Input
+                id="reviewDate"
+                type="date"
+                value={formData.reviewDate}
+                onChange={(e) => handleChange('reviewDate', e.target.value)}
+                required
+                disabled={loading}
+              />
+              {fieldErrors.reviewDate ? (
+                <p className="text-sm text-destructive">{fieldErrors.reviewDate}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">Sugerida: um semestre após o registro</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endDate">Data de Término</Label>
+              <Input
+                id="endDate"
+                type="date"
+                value={formData.endDate}
+                onChange={(e) => handleChange('endDate', e.target.value)}
+                disabled={loading}
+              />
+              {fieldErrors.endDate ? (
+                <p className="text-sm text-destructive">{fieldErrors.endDate}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">Deixe em branco se não houver previsão</p>
+              )}
+            </div>
           </div>
 
           <div className="flex justify-end gap-2 pt-4">
@@ -198,6 +302,17 @@ export function AdaptationForm({
             </Button>
           </div>
         </form>
+
+        {serverCopy && (
+          <ConflictDialog
+            open
+            onOpenChange={(open: boolean) => !open && setServerCopy(null)}
+            server={toFormData(serverCopy)}
+            mine={formData}
+            onUseServer={handleUseServer}
+            onOverwrite={handleOverwrite}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
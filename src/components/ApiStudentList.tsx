@@ -6,7 +6,7 @@ import { Label } from './ui/label';
 import { Alert, AlertDescription } from './ui/alert';
 import { api } from '../lib/api';
 import { toast } from 'sonner';
-import type { Student } from '../types';
+import type { StudentInput } from '../types';
 import { Database, DownloadCloud } from 'lucide-react';
 
 const API_URL = 'https://adaptacoescurriculares-api.onrender.com';
@@ -55,8 +55,8 @@ export function ApiStudentList({ onClose, onImport }: { onClose?: () => void; on
     const idKey = String(remote.id || remote.registrationNumber || remote.email || Math.random());
     setImportingIds(prev => new Set(prev).add(idKey));
     try {
-      // Map remote fields to local Student shape (partial)
-      const studentPartial: Partial<Student> = {
+      // Map remote fields to the student payload
+      const studentPartial: StudentInput = {
         name: remote.name || '',
         course: remote.course || '',
         class: remote.class || remote.turma || '',
@@ -72,7 +72,13 @@ export function ApiStudentList({ onClose, onImport }: { onClose?: () => void; on
       setLocalRegistrationSet(prev => new Set(prev).add(String(studentPartial.registrationNumber || '').toLowerCase()));
       onImport?.();
     } catch (err: any) {
-      toast.error(err.message || 'Erro ao importar estudante');
+      if (err?.status === 409) {
+        // the server already has this registration number
+        toast(`Matrícula ${remote.registrationNumber || ''} já cadastrada`);
+        setLocalRegistrationSet(prev => new Set(prev).add(String(remote.registrationNumber || '').toLowerCase()));
+      } else {
+        toast.error(err.message || 'Erro ao importar estudante');
+      }
     } finally {
       setImportingIds(prev => {
         const copy = new Set(prev);
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../lib/api';
+import { fieldErrorMap, fieldErrorsFromResponse, validateAssignment } from '../lib/validation';
+import type { Assignment, AssignmentInput, Student, User } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { School, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ClassOption {
+  key: string;
+  course: string;
+  class: string;
+}
+
+// Classes are the course + class pairs of the registered students
+function classOptions(students: Student[]): ClassOption[] {
+  const options = new Map<string, ClassOption>();
+  for (const s of students) {
+    const key = `${s.course}|${s.class}`;
+    if (!options.has(key)) options.set(key, { key, course: s.course, class: s.class });
+  }
+  return [...options.values()].sort((a, b) => a.course.localeCompare(b.course) || a.class.localeCompare(b.class));
+}
+
+export function AssignmentManager() {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [teachers, setTeachers] = useState<User[]>([]);
+  const [classes, setClasses] = useState<ClassOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [teacherId, setTeacherId] = useState('');
+  const [classKey, setClassKey] = useState('');
+  const [subject, setSubject] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  async function loadData() {
+    setLoading(true);
+    try {
+      const [assignmentList, users, students] = await Promise.all([
+        api.getAssignments(),
+        api.getUsers(),
+        api.getStudents(),
+      ]);
+      setAssignments(assignmentList);
+      setTeachers(users.filter((u) => u.role === 'professor' && !u.deactivatedAt));
+      setClasses(classOptions(students));
+      setError('');
+    } catch (err: any) {
+      setError(err.message || 'Erro ao carregar atribuições de turmas');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const selectedClass = classes.find((option) => option.key === classKey);
+    const { data, errors } = validateAssignment({
+      teacherId,
+      course: selectedClass?.course || '',
+      class: selectedClass?.class || '',
+      subject,
+    });
+    // course and class come from a single select
+    setFieldErrors(fieldErrorMap(errors.map((err) => (err.field === 'course' ? { ...err, field: 'class' } : err))));
+    if (errors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const assignment = await api.createAssignment(data as AssignmentInput);
+      setAssignments((prev) => [...prev, assignment]);
+      setSubject('');
+      toast.success(`Turma atribuída a ${assignment.teacherName}`);
+    } catch (err: any) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
+      toast.error(err.message || 'Erro ao atribuir turma');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (assignment: Assignment) => {
+    if (!window.confirm(`Remover ${assignment.course} ${assignment.class} (${assignment.subject}) de ${assignment.teacherName}?`)) return;
+    try {
+      await api.deleteAssignment(assignment.teacherId, assignment.id);
+      setAssignments((prev) => prev.filter((a) => a.id !== assignment.id));
+      toast.success('Atribuição removida');
+    } catch (err: any) {
+      toast.error(err.message || 'Erro ao remover atribuição');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <School className="size-5" />
+          Turmas dos Professores
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Cada professor vê apenas os estudantes das turmas atribuídas a ele.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="assignmentTeacher">Professor *</Label>
+            <Select value={teacherId} onValueChange={(value: string) => setTeacherId(value)} disabled={saving}>
+              <SelectTrigger id="assignmentTeacher">
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {teachers.map((teacher) => (
+                  <SelectItem key={teacher.id} value={teacher.id}>{teacher.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldErrors.teacherId && <p className="text-sm text-destructive">{fieldErrors.teacherId}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="assignmentClass">Turma *</Label>
+            <Select value={classKey} onValueChange={(value: string) => setClassKey(value)} disabled={saving}>
+              <SelectTrigger id="assignmentClass">
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {classes.map((option) => (
+                  <SelectItem key={option.key} value={option.key}>
+                    {option.course} - {option.class}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldErrors.class && <p className="text-sm text-destructive">{fieldErrors.class}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="assignmentSubject">Disciplina *</Label>
+            <Input
+              id="assignmentSubject"
+              placeholder="Ex: Matemática"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              disabled={saving}
+            />
+            {fieldErrors.subject && <p className="text-sm text-destructive">{fieldErrors.subject}</p>}
+          </div>
+
+          <Button type="submit" disabled={saving || loading}>
+            {saving ? 'Salvando...' : 'Atribuir'}
+          </Button>
+        </form>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando atribuições...</p>
+        ) : assignments.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Nenhuma turma atribuída</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Professor</TableHead>
+                <TableHead>Curso</TableHead>
+                <TableHead>Turma</TableHead>
+                <TableHead>Disciplina</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignments.map((assignment) => (
+                <TableRow key={assignment.id}>
+                  <TableCell>{assignment.teacherName}</TableCell>
+                  <TableCell>{assignment.course}</TableCell>
+                  <TableCell>{assignment.class}</TableCell>
+                  <TableCell>{assignment.subject}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(assignment)} title="Remover atribuição">
+                      <Trash2 className="size-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
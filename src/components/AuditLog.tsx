@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { api } from '../lib/api';
+import { auditStorage } from '../lib/storage';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, type AuditFilter } from '../lib/audit';
+import { FIELD_LABELS } from '../lib/diff';
+import type { AuditAction, AuditEntityType, AuditEntry } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ShieldCheck } from 'lucide-react';
+
+const ALL = 'all';
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+  archive: 'outline',
+  restore: 'outline',
+  export: 'outline',
+  anonymize: 'destructive',
+};
+
+const CHANGE_SUMMARIES: Record<AuditAction, string> = {
+  create: 'Registro criado',
+  update: '',
+  delete: 'Registro excluído definitivamente',
+  archive: 'Registro movido para a lixeira',
+  restore: 'Registro restaurado da lixeira',
+  export: 'Dados do estudante exportados',
+  anonymize: 'Dados pessoais do estudante removidos',
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [localOnly, setLocalOnly] = useState(false);
+
+  // Filters
+  const [entityType, setEntityType] = useState<string>(ALL);
+  const [action, setAction] = useState<string>(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    async function loadEntries() {
+      const filter: AuditFilter = {
+        entityType: entityType === ALL ? undefined : (entityType as AuditEntityType),
+        action: action === ALL ? undefined : (action as AuditAction),
+        from: from || undefined,
+        to: to || undefined,
+      };
+
+      setLoading(true);
+      try {
+        setEntries(await api.getAuditLog(filter));
+        setLocalOnly(false);
+      } catch {
+        // remote unavailable - show what was recorded in this browser
+        setEntries(auditStorage.query(filter));
+        setLocalOnly(true);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadEntries();
+  }, [entityType, action, from, to]);
+
+  const renderChanges = (entry: AuditEntry) => {
+    if (entry.action !== 'update') {
+      return <span className="text-gray-500">{CHANGE_SUMMARIES[entry.action]}</span>;
+    }
+    const fields = Object.entries(entry.changes);
+    if (fields.length === 0) {
+      return <span className="text-gray-500">Sem alterações de conteúdo</span>;
+    }
+    return (
+      <ul className="space-y-1">
+        {fields.map(([field, change]) => (
+          <li key={field}>
+            <span className="text-gray-600">{FIELD_LABELS[field] || field}:</span>{' '}
+            <span className="line-through text-gray-400">{formatValue(change.before)}</span>{' → '}
+            <span>{formatValue(change.after)}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="size-5" />
+          Auditoria
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {localOnly && (
+          <Alert>
+            <AlertDescription>
+              Servidor indisponível. Exibindo apenas os registros gravados neste navegador.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="auditEntity">Entidade</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger id="auditEntity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas</SelectItem>
+                {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="auditAction">Ação</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger id="auditAction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas</SelectItem>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="auditFrom">De</Label>
+            <Input id="auditFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="auditTo">Até</Label>
+            <Input id="auditTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando auditoria...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Nenhum registro encontrado</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Usuário</TableHead>
+                <TableHead>Ação</TableHead>
+                <TableHead>Registro</TableHead>
+                <TableHead>Alterações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(entry.timestamp).toLocaleString('pt-BR')}
+                  </TableCell>
+                  <TableCell>{entry.actorName || entry.actorId || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant={ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-600">{AUDIT_ENTITY_LABELS[entry.entityType]}</div>
+                    <div>{entry.entityLabel || entry.entityId}</div>
+                  </TableCell>
+                  <TableCell className="whitespace-normal text-sm">{renderChanges(entry)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { api } from '../lib/api';
+import { backupStorage } from '../lib/storage';
+import { BACKUP_COLLECTION_LABELS, type BackupArchive, type BackupCollection, type RestoreMode, type RestoreResult } from '../lib/backup';
+import { downloadJson } from '../lib/download';
+import { fieldErrorsFromResponse, type FieldError } from '../lib/validation';
+import { useAuth } from '../contexts/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Database, Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BackupManagerProps {
+  onRestored?: () => void;
+}
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  merge: 'Mesclar com os dados atuais',
+  replace: 'Substituir os dados atuais',
+};
+
+// Errors listed before the rest is summarized
+const MAX_ERRORS_SHOWN = 10;
+
+export function BackupManager({ onRestored }: BackupManagerProps) {
+  const { user } = useAuth();
+  const [localOnly, setLocalOnly] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [archive, setArchive] = useState<unknown>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestoreResult | null>(null);
+  const [errors, setErrors] = useState<FieldError[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  const handleDownload = async () => {
+    if (!user) return;
+    setDownloading(true);
+    try {
+      let backup: BackupArchive;
+      try {
+        backup = await api.getBackup();
+        setLocalOnly(false);
+      } catch {
+        // remote unavailable - back up this browser's data
+        backup = await backupStorage.create(user);
+        setLocalOnly(true);
+      }
+      downloadJson(`backup-adaptacoes-${backup.createdAt.slice(0, 10)}.json`, backup);
+      toast.success('Cópia de segurança gerada');
+    } catch (err: any) {
+      toast.error(err.message || 'Erro ao gerar cópia de segurança');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const resetRestore = () => {
+    setPreview(null);
+    setErrors([]);
+    setError('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    resetRestore();
+    setFileName(file.name);
+    try {
+      setArchive(JSON.parse(await file.text()));
+    } catch {
+      setArchive(null);
+      setError('O arquivo não é um JSON válido');
+    }
+  };
+
+  const handleModeChange = (value: string) => {
+    setMode(value as RestoreMode);
+    resetRestore();
+  };
+
+  // Server first; validation and conflict answers are final, anything else
+  // means the server is out of reach and the browser's data is used
+  const restore = async (dryRun: boolean): Promise<{ result: RestoreResult | null; errors: FieldError[] }> => {
+    if (!localOnly) {
+      try {
+        return { result: await api.restoreBackup(archive, mode, dryRun), errors: [] };
+      } catch (err: any) {
+        const fields = fieldErrorsFromResponse(err);
+        if (fields.length > 0) return { result: null, errors: fields };
+        if (err?.status === 409) throw err;
+        setLocalOnly(true);
+      }
+    }
+    return backupStorage.restore(archive, { mode, dryRun, actor: user! });
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    resetRestore();
+    try {
+      const { result, errors } = await restore(true);
+      setPreview(result);
+      setErrors(errors);
+    } catch (err: any) {
+      setError(err.message || 'Erro ao verificar a cópia');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    setConfirming(false);
+    setLoading(true);
+    try {
+      const { result, errors } = await restore(false);
+      if (!result) {
+        setPreview(null);
+        setErrors(errors);
+        return;
+      }
+      toast.success('Cópia de segurança restaurada');
+      setArchive(null);
+      setFileName('');
+      resetRestore();
+      onRestored?.();
+    } catch (err: any) {
+      setError(err.message || 'Erro ao restaurar cópia de segurança');
+      toast.error(err.message || 'Erro ao restaurar cópia de segurança');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleString('pt-BR');
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="size-5" />
+            Cópia de segurança
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Baixe um arquivo com todos os usuários, estudantes, adaptações, relatos, revisões, registros de
+            auditoria e turmas. Guarde-o em local seguro: ele contém dados pessoais dos estudantes.
+          </p>
+
+          {localOnly && (
+            <Alert>
+              <AlertDescription>
+                Servidor indisponível. A cópia e a restauração usam apenas os dados deste navegador.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Button onClick={handleDownload} disabled={downloading} className="gap-2">
+            <Download className="size-4" />
+            {downloading ? 'Gerando...' : 'Baixar cópia de segurança'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="size-5" />
+            Restaurar cópia
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="backupFile">Arquivo da cópia (.json)</Label>
+              <Input id="backupFile" type="file" accept=".json,application/json" onChange={handleFile} />
+              {fileName && <p className="text-sm text-gray-600">{fileName}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Modo</Label>
+              <Select value={mode} onValueChange={handleModeChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MODE_LABELS) as RestoreMode[]).map((value) => (
+                    <SelectItem key={value} value={value}>{MODE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-600">
+                {mode === 'merge'
+                  ? 'Registros da cópia substituem os de mesmo id; os demais são mantidos.'
+                  : 'Registros que não estão na cópia são apagados.'}
+                {' '}O seu usuário é sempre mantido.
+              </p>
+            </div>
+          </div>
+
+          <Button variant="outline" onClick={handlePreview} disabled={!archive || loading}>
+            {loading && !preview ? 'Verificando...' : 'Verificar cópia'}
+          </Button>
+
+          {errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                <p>A cópia não pode ser restaurada. Nada foi alterado.</p>
+                <ul className="list-disc pl-5 mt-2">
+                  {errors.slice(0, MAX_ERRORS_SHOWN).map((e) => (
+                    <li key={e.field}>{e.field}: {e.message}</li>
+                  ))}
+                </ul>
+                {errors.length > MAX_ERRORS_SHOWN && (
+                  <p className="mt-2">e mais {errors.length - MAX_ERRORS_SHOWN} problema(s)</p>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {preview && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Cópia de {formatDate(preview.createdAt)}, gerada {preview.source === 'server' ? 'no servidor' : 'em um navegador'}.
+                {preview.users === 'kept' && ' Os usuários não são restaurados: os perfis atuais continuam ligados às contas de acesso.'}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Dados</TableHead>
+                    <TableHead>Novos</TableHead>
+                    <TableHead>Atualizados</TableHead>
+                    <TableHead>Removidos</TableHead>
+                    <TableHead>Sem alteração</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(BACKUP_COLLECTION_LABELS) as BackupCollection[]).map((collection) => {
+                    const counts = preview.collections[collection];
+                    return (
+                      <TableRow key={collection}>
+                        <TableCell>{BACKUP_COLLECTION_LABELS[collection]}</TableCell>
+                        <TableCell>{counts.created}</TableCell>
+                        <TableCell>{counts.updated}</TableCell>
+                        <TableCell className={counts.removed > 0 ? 'text-red-600' : ''}>{counts.removed}</TableCell>
+                        <TableCell>{counts.unchanged}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <Button onClick={() => setConfirming(true)} disabled={loading}>
+                {loading ? 'Restaurando...' : 'Restaurar cópia'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restaurar cópia de segurança?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {mode === 'replace'
+                ? 'Os dados atuais serão substituídos pelos da cópia e os registros que não estão nela serão apagados. Esta ação não pode ser desfeita.'
+                : 'Os registros da cópia substituirão os de mesmo id. Esta ação não pode ser desfeita.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRestore}
+              className={mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : ''}
+            >
+              Restaurar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
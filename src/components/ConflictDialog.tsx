@@ -0,0 +1,67 @@
+import { FIELD_LABELS } from '../lib/diff';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface ConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Both sides in the shape of the form fields
+  server: Record<string, string>;
+  mine: Record<string, string>;
+  onUseServer: () => void;
+  onOverwrite: () => void;
+}
+
+function formatValue(value: string | undefined) {
+  return value ? value : '—';
+}
+
+// Shown when a save answers 412: someone else changed the record after it was loaded
+export function ConflictDialog({ open, onOpenChange, server, mine, onUseServer, onOverwrite }: ConflictDialogProps) {
+  const fields = Object.keys(mine);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Registro alterado por outra pessoa</DialogTitle>
+          <DialogDescription>
+            Este registro foi salvo por outra pessoa depois que você o abriu. Compare as versões e escolha qual manter.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Campo</TableHead>
+              <TableHead>Servidor</TableHead>
+              <TableHead>Suas alterações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fields.map((field) => {
+              const changed = (server[field] || '') !== (mine[field] || '');
+              return (
+                <TableRow key={field} className={changed ? 'bg-amber-50' : undefined}>
+                  <TableCell>{FIELD_LABELS[field] || field}</TableCell>
+                  <TableCell className="whitespace-normal text-sm">{formatValue(server[field])}</TableCell>
+                  <TableCell className="whitespace-normal text-sm">{formatValue(mine[field])}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onUseServer}>
+            Usar versão do servidor
+          </Button>
+          <Button type="button" variant="destructive" onClick={onOverwrite}>
+            Sobrescrever com minhas alterações
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,28 @@
 import { useState } from 'react';
 import { StudentList } from './StudentList';
 import { StudentForm } from './StudentForm';
+import { StudentImport } from './StudentImport';
 import { StudentReport } from './StudentReport';
-import type { Student } from '../types';
+import { AuditLog } from './AuditLog';
+import { RecycleBin } from './RecycleBin';
+import { StatsDashboard } from './StatsDashboard';
+import { UserAdmin } from './UserAdmin';
+import { InvitationManager } from './InvitationManager';
+import { AssignmentManager } from './AssignmentManager';
+import { WebhookManager } from './WebhookManager';
+import { NotificationOutbox } from './NotificationOutbox';
+import { PendingReviews } from './PendingReviews';
+import { BackupManager } from './BackupManager';
+import type { PendingReview, Student } from '../types';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { Users } from 'lucide-react';
+import { Users, ShieldCheck, Trash2, BarChart3, UserCog, School, Webhook, CalendarClock, Database } from 'lucide-react';
 import { toast } from 'sonner';
 import { api } from '../lib/api';
+import { versionConflictFromResponse, versionOf } from '../lib/versioning';
 
 export function CoordinatorDashboard() {
-  const [view, setView] = useState<'list' | 'form' | 'report'>('list');
+  const [tab, setTab] = useState('students');
+  const [view, setView] = useState<'list' | 'form' | 'report' | 'import'>('list');
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
 
@@ -25,10 +38,15 @@ export function CoordinatorDashboard() {
 
   const handleDeleteStudent = async (student: Student) => {
     try {
-      await api.deleteStudent(student.id);
-      toast.success('Estudante excluído com sucesso!');
+      await api.deleteStudent(student.id, versionOf(student));
+      toast.success('Estudante movido para a lixeira');
       setRefreshKey(prev => prev + 1);
     } catch (err: any) {
+      if (versionConflictFromResponse(err)) {
+        toast.error('Este estudante foi alterado por outra pessoa. Confira os dados antes de excluir.');
+        setRefreshKey(prev => prev + 1);
+        return;
+      }
       toast.error(err.message || 'Erro ao excluir estudante');
     }
   };
@@ -38,6 +56,11 @@ export function CoordinatorDashboard() {
     setView('form');
   };
 
+  const handleImport = () => {
+    setSelectedStudent(null);
+    setView('import');
+  };
+
   const handleFormSuccess = () => {
     setView('list');
     setSelectedStudent(null);
@@ -54,6 +77,17 @@ export function CoordinatorDashboard() {
     setSelectedStudent(null);
   };
 
+  // The report only needs the student id; the rest is loaded by StudentReport
+  const handleOpenReview = (review: PendingReview) => {
+    setTab('students');
+    handleSelectStudent({
+      id: review.adaptation.studentId,
+      name: review.studentName,
+      course: review.course,
+      class: review.class,
+    } as Student);
+  };
+
   return (
     <div>
       <div className="mb-6">
@@ -63,12 +97,44 @@ export function CoordinatorDashboard() {
         </p>
       </div>
 
-      <Tabs defaultValue="students" className="space-y-6">
+      <Tabs value={tab} onValueChange={setTab} className="space-y-6">
         <TabsList>
           <TabsTrigger value="students" className="gap-2">
             <Users className="size-4" />
             Estudantes
           </TabsTrigger>
+          <TabsTrigger value="reviews" className="gap-2">
+            <CalendarClock className="size-4" />
+            Revisões
+          </TabsTrigger>
+          <TabsTrigger value="stats" className="gap-2">
+            <BarChart3 className="size-4" />
+            Indicadores
+          </TabsTrigger>
+          <TabsTrigger value="audit" className="gap-2">
+            <ShieldCheck className="size-4" />
+            Auditoria
+          </TabsTrigger>
+          <TabsTrigger value="trash" className="gap-2">
+            <Trash2 className="size-4" />
+            Lixeira
+          </TabsTrigger>
+          <TabsTrigger value="assignments" className="gap-2">
+            <School className="size-4" />
+            Turmas
+          </TabsTrigger>
+          <TabsTrigger value="users" className="gap-2">
+            <UserCog className="size-4" />
+            Usuários
+          </TabsTrigger>
+          <TabsTrigger value="integrations" className="gap-2">
+            <Webhook className="size-4" />
+            Integrações
+          </TabsTrigger>
+          <TabsTrigger value="backup" className="gap-2">
+            <Database className="size-4" />
+            Dados
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="students">
@@ -80,6 +146,7 @@ export function CoordinatorDashboard() {
                 onEditStudent={handleEditStudent}
                 onDeleteStudent={handleDeleteStudent}
                 onAddNew={handleAddNew}
+                onImport={handleImport}
                 showActions={true}
               />
             </>
@@ -90,6 +157,14 @@ export function CoordinatorDashboard() {
               student={selectedStudent}
               onSuccess={handleFormSuccess}
               onCancel={handleFormCancel}
+              onOpenStudent={handleSelectStudent}
+            />
+          )}
+
+          {view === 'import' && (
+            <StudentImport
+              onSuccess={handleFormSuccess}
+              onCancel={handleFormCancel}
             />
           )}
 
@@ -100,6 +175,44 @@ export function CoordinatorDashboard() {
             />
           )}
         </TabsContent>
+
+        <TabsContent value="reviews">
+          <PendingReviews onOpenStudent={handleOpenReview} />
+        </TabsContent>
+
+        <TabsContent value="stats">
+          <StatsDashboard />
+        </TabsContent>
+
+        <TabsContent value="audit">
+          <AuditLog />
+        </TabsContent>
+
+        <TabsContent value="trash">
+          <RecycleBin onRestored={() => setRefreshKey(prev => prev + 1)} />
+        </TabsContent>
+
+        <TabsContent value="assignments">
+          <AssignmentManager />
+        </TabsContent>
+
+        <TabsContent value="users">
+          <div className="space-y-6">
+            <UserAdmin />
+            <InvitationManager />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="integrations">
+          <div className="space-y-6">
+            <NotificationOutbox />
+            <WebhookManager />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="backup">
+          <BackupManager onRestored={() => setRefreshKey(prev => prev + 1)} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { api } from '../lib/api';
+import type { GuardianStudentView } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Calendar, FileText, GraduationCap, User } from 'lucide-react';
+
+const RESULT_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  positivo: 'default',
+  neutro: 'secondary',
+  negativo: 'destructive',
+};
+
+function formatDate(dateString?: string | null) {
+  if (!dateString) return 'Data não informada';
+  const d = new Date(dateString);
+  if (isNaN(d.getTime())) return 'Data não informada';
+  return d.toLocaleDateString('pt-BR');
+}
+
+// Read-only view for guardians: the server only sends the linked students,
+// their active adaptations and the reports shared by the coordination
+export function GuardianDashboard() {
+  const [views, setViews] = useState<GuardianStudentView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadStudents();
+  }, []);
+
+  async function loadStudents() {
+    try {
+      setViews(await api.getGuardianStudents());
+      setError('');
+    } catch (err: any) {
+      setError(err.message || 'Erro ao carregar os dados do estudante');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl mb-2">Painel do Responsável</h2>
+        <p className="text-gray-600">
+          Acompanhe as adaptações curriculares e os relatos compartilhados pela escola
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <p className="text-center text-gray-500 py-8">Carregando...</p>
+      ) : views.length === 0 && !error ? (
+        <p className="text-center text-gray-500 py-8">
+          Nenhum estudante vinculado à sua conta. Procure a coordenação da escola.
+        </p>
+      ) : (
+        <div className="space-y-8">
+          {views.map(({ student, adaptations, reports }) => (
+            <div key={student.id} className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center gap-3">
+                    <div className="bg-blue-100 p-3 rounded-full">
+                      <GraduationCap className="size-6 text-blue-600" />
+                    </div>
+                    <div>
+                      <CardTitle>{student.name}</CardTitle>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {student.course} - Turma {student.class}
+                      </p>
+                    </div>
+                  </div>
+                </CardHeader>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="size-5" />
+                    Adaptações Curriculares
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {adaptations.length === 0 ? (
+                    <p className="text-center text-gray-500 py-4">Nenhuma adaptação ativa</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {adaptations.map((adaptation) => (
+                        <div key={adaptation.id} className="border rounded-lg p-4 space-y-2">
+                          <div className="flex items-center gap-2 text-sm text-gray-600">
+                            <Calendar className="size-4 text-gray-500" />
+                            {formatDate(adaptation.date)}
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600 mb-1">Descrição da Necessidade:</p>
+                            <p>{adaptation.description}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600 mb-1">Justificativa:</p>
+                            <p>{adaptation.justification}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <User className="size-5" />
+                    Relatos dos Professores
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {reports.length === 0 ? (
+                    <p className="text-center text-gray-500 py-4">Nenhum relato compartilhado</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {reports.map((report) => (
+                        <div key={report.id} className="border rounded-lg p-4">
+                          <div className="space-y-1 mb-3">
+                            <div className="flex items-center gap-2">
+                              <span>{report.teacherName || 'Professor(a)'}</span>
+                              <Badge variant="outline">{report.subject || 'Disciplina'}</Badge>
+                              <Badge variant={RESULT_VARIANTS[report.result] || 'secondary'}>
+                                {report.result.charAt(0).toUpperCase() + report.result.slice(1)}
+                              </Badge>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm text-gray-600">
+                              <Calendar className="size-3" />
+                              {formatDate(report.date)}
+                            </div>
+                          </div>
+                          <p className="whitespace-pre-wrap">{report.description}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
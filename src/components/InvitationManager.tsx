@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../lib/api';
+import { INVITATION_STATUS_LABELS, INVITATION_TTL_DAYS, invitationStatus } from '../lib/invitations';
+import { ROLE_LABELS } from '../lib/users';
+import { fieldErrorMap, fieldErrorsFromResponse, validateInvitation } from '../lib/validation';
+import type { Invitation, InvitationInput, InvitationStatus, UserRole } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Copy, Mail, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const STATUS_VARIANTS: Record<InvitationStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'default',
+  used: 'secondary',
+  expired: 'outline',
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('pt-BR');
+}
+
+export function InvitationManager() {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('professor');
+  const [saving, setSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [created, setCreated] = useState<Invitation | null>(null);
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
+
+  async function loadInvitations() {
+    setLoading(true);
+    try {
+      setInvitations(await api.getInvitations());
+      setError('');
+    } catch (err: any) {
+      setError(err.message || 'Erro ao carregar convites');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { data, errors } = validateInvitation({ email, role });
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const invitation = await api.createInvitation(data as InvitationInput);
+      setCreated(invitation);
+      setEmail('');
+      toast.success('Convite criado. Envie o código para o e-mail convidado.');
+      loadInvitations();
+    } catch (err: any) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
+      toast.error(err.message || 'Erro ao criar convite');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success('Código copiado');
+    } catch {
+      toast.error('Não foi possível copiar o código');
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!window.confirm(`Revogar o convite de ${invitation.email}?`)) return;
+    try {
+      await api.revokeInvitation(invitation.code);
+      if (created?.code === invitation.code) setCreated(null);
+      toast.success('Convite revogado');
+      loadInvitations();
+    } catch (err: any) {
+      toast.error(err.message || 'Erro ao revogar convite');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="size-5" />
+          Convites
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-[1fr_200px_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="inviteEmail">E-mail *</Label>
+            <Input
+              id="inviteEmail"
+              type="email"
+              placeholder="professor@escola.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={saving}
+            />
+            {fieldErrors.email && <p className="text-sm text-destructive">{fieldErrors.email}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inviteRole">Perfil *</Label>
+            <Select value={role} onValueChange={(value: string) => setRole(value as UserRole)} disabled={saving}>
+              <SelectTrigger id="inviteRole">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Gerando...' : 'Gerar convite'}
+          </Button>
+        </form>
+
+        {created && (
+          <Alert>
+            <AlertDescription>
+              <div className="flex flex-wrap items-center gap-2">
+                Código para {created.email}:
+                <code className="text-lg tracking-widest">{created.code}</code>
+                <Button variant="ghost" size="sm" onClick={() => handleCopy(created.code)} title="Copiar código">
+                  <Copy className="size-4" />
+                </Button>
+              </div>
+              <p className="text-sm text-gray-600">
+                Válido por {INVITATION_TTL_DAYS} dias e para um único cadastro, na opção "Tenho um convite" da tela de login.
+              </p>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando convites...</p>
+        ) : invitations.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Nenhum convite gerado</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Código</TableHead>
+                <TableHead>E-mail</TableHead>
+                <TableHead>Perfil</TableHead>
+                <TableHead>Criado por</TableHead>
+                <TableHead>Expira em</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map((invitation) => {
+                const status = invitationStatus(invitation);
+                return (
+                  <TableRow key={invitation.code}>
+                    <TableCell className="font-mono">{invitation.code}</TableCell>
+                    <TableCell>{invitation.email}</TableCell>
+                    <TableCell>{ROLE_LABELS[invitation.role] || invitation.role}</TableCell>
+                    <TableCell>{invitation.createdByName}</TableCell>
+                    <TableCell>{formatDate(invitation.expiresAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[status]}>{INVITATION_STATUS_LABELS[status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!invitation.usedAt && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation)} title="Revogar convite">
+                          <Trash2 className="size-4 text-destructive" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
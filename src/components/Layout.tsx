@@ -27,6 +27,9 @@ export function Layout({ children }: LayoutProps) {
     if (user?.role === 'coordenador') {
       return <Badge variant="default">Coordenador</Badge>;
     }
+    if (user?.role === 'responsavel') {
+      return <Badge variant="outline">Responsável</Badge>;
+    }
     return <Badge variant="secondary">Professor</Badge>;
   };
 
@@ -36,6 +39,7 @@ export function Layout({ children }: LayoutProps) {
       'adaptacao_students',
       'adaptacao_adaptations',
       'adaptacao_reports',
+      'adaptacao_revisions',
       'adaptacao_current_user',
       'setupComplete',
     ];
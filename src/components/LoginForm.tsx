@@ -1,19 +1,39 @@
 import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { INVITATION_CODE_LENGTH } from '../lib/invitations';
+import { fieldErrorMap, fieldErrorsFromResponse, validateInvitationRedemption, validatePassword } from '../lib/validation';
+import { REGEXP_ONLY_DIGITS_AND_CHARS } from 'input-otp';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from './ui/input-otp';
 import { GraduationCap, Database } from 'lucide-react';
+import { toast } from 'sonner';
+
+type Mode = 'login' | 'invitation';
 
 export function LoginForm() {
   const { signIn } = useAuth();
+  const [mode, setMode] = useState<Mode>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
+  // Invitation signup
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError('');
+    setFieldErrors({});
+  };
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError('');
@@ -33,6 +53,34 @@ export function LoginForm() {
     }
   }
 
+  async function handleRedeem(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    const { data, errors } = validateInvitationRedemption({ code, email, name });
+    errors.push(...validatePassword(password));
+    if (code.length !== INVITATION_CODE_LENGTH) {
+      errors.push({ field: 'code', message: `Informe os ${INVITATION_CODE_LENGTH} caracteres do código` });
+    }
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) {
+      setError('Por favor, corrija os campos destacados');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await api.redeemInvitation({ code: data.code!, email: data.email!, name: data.name!, password });
+      toast.success('Conta criada com sucesso!');
+      await signIn(data.email!, password);
+    } catch (err: any) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
+      setError(err.message || 'Erro ao criar conta');
+    } finally {
+      setLoading(false);
+    }
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
       <Card className="w-full max-w-md">
@@ -44,7 +92,9 @@ export function LoginForm() {
           </div>
           <CardTitle>Sistema de Adaptações Curriculares</CardTitle>
           <CardDescription>
-            Entre com suas credenciais para acessar o sistema
+            {mode === 'login'
+              ? 'Entre com suas credenciais para acessar o sistema'
+              : 'Crie sua conta com o código de convite recebido da coordenação'}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -55,43 +105,123 @@ export function LoginForm() {
             </AlertDescription>
           </Alert>
           
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
-              <Alert variant="destructive">
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
+          {mode === 'login' ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
             
-            <div className="space-y-2">
-              <Label htmlFor="email">E-mail</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="seu@email.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                disabled={loading}
-                required
-              />
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">E-mail</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="seu@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={loading}
+                  required
+                />
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password">Senha</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="••••••••"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                disabled={loading}
-                required
-              />
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Senha</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={loading}
+                  required
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Entrando...' : 'Entrar'}
+              </Button>
+
+              <Button type="button" variant="link" className="w-full" onClick={() => switchMode('invitation')}>
+                Tenho um convite
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleRedeem} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="invitationCode">Código do convite</Label>
+                <InputOTP
+                  id="invitationCode"
+                  maxLength={INVITATION_CODE_LENGTH}
+                  pattern={REGEXP_ONLY_DIGITS_AND_CHARS}
+                  value={code}
+                  onChange={(value: string) => setCode(value.toUpperCase())}
+                  disabled={loading}
+                >
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3].map((index) => <InputOTPSlot key={index} index={index} />)}
+                  </InputOTPGroup>
+                  <InputOTPSeparator />
+                  <InputOTPGroup>
+                    {[4, 5, 6, 7].map((index) => <InputOTPSlot key={index} index={index} />)}
+                  </InputOTPGroup>
+                </InputOTP>
+                {fieldErrors.code && <p className="text-sm text-destructive">{fieldErrors.code}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="inviteName">Nome completo</Label>
+                <Input
+                  id="inviteName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={loading}
+                />
+                {fieldErrors.name && <p className="text-sm text-destructive">{fieldErrors.name}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="inviteEmail">E-mail convidado</Label>
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  placeholder="seu@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={loading}
+                />
+                {fieldErrors.email && <p className="text-sm text-destructive">{fieldErrors.email}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="invitePassword">Senha</Label>
+                <Input
+                  id="invitePassword"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={loading}
+                />
+                {fieldErrors.password && <p className="text-sm text-destructive">{fieldErrors.password}</p>}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Criando conta...' : 'Criar conta'}
+              </Button>
 
-            <Button type="submit" className="w-full" disabled={loading}>
-              {loading ? 'Entrando...' : 'Entrar'}
-            </Button>
-          </form>
+              <Button type="button" variant="link" className="w-full" onClick={() => switchMode('login')}>
+                Já tenho uma conta
+              </Button>
+            </form>
+          )}
 
           <div className="mt-6 p-3 bg-gray-50 rounded-lg border border-gray-200">
             <p className="text-xs text-gray-600 mb-2">Credenciais de teste:</p>
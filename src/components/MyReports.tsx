@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, errorMessage } from '../lib/api';
+import { getTeacherReports, reportStorage } from '../lib/storage';
+import type { TeacherReportFilter } from '../lib/teacherReports';
+import { versionConflictFromResponse, versionOf } from '../lib/versioning';
+import { useAuth } from '../contexts/AuthContext';
+import type { Report, TeacherReport } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { ReportForm } from './ReportForm';
+import { Calendar, Edit, Eye, FileText, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface MyReportsProps {
+  onOpenStudent: (studentId: string) => void;
+}
+
+const FILTER_DEBOUNCE_MS = 300;
+
+const RESULT_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  positivo: 'default',
+  neutro: 'secondary',
+  negativo: 'destructive',
+};
+
+function formatDate(dateString?: string | null) {
+  if (!dateString) return 'Data não informada';
+  const d = new Date(dateString);
+  if (isNaN(d.getTime())) return 'Data não informada';
+  return d.toLocaleDateString('pt-BR');
+}
+
+export function MyReports({ onOpenStudent }: MyReportsProps) {
+  const { user } = useAuth();
+  const [reports, setReports] = useState<TeacherReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [localOnly, setLocalOnly] = useState(false);
+  const [editingReport, setEditingReport] = useState<TeacherReport | null>(null);
+
+  // Filters
+  const [subject, setSubject] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const loadReports = useCallback(async () => {
+    const filter: TeacherReportFilter = {
+      subject: subject || undefined,
+      from: from || undefined,
+      to: to || undefined,
+    };
+
+    try {
+      setReports(await api.getTeacherReports(filter));
+      setLocalOnly(false);
+    } catch {
+      // remote unavailable - list the reports stored in this browser
+      setReports(user ? getTeacherReports(user.id, filter) : []);
+      setLocalOnly(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, subject, from, to]);
+
+  // The subject is typed; wait for the user to stop before querying
+  useEffect(() => {
+    const timer = setTimeout(() => loadReports(), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [loadReports]);
+
+  const handleDelete = async (report: Report) => {
+    if (!window.confirm('Deseja realmente excluir este relato?')) return;
+    try {
+      try {
+        await api.deleteReport(report.studentId, report.id, versionOf(report));
+      } catch (err) {
+        if (versionConflictFromResponse(err)) {
+          toast.error('Este relato foi alterado por outra pessoa. Revise antes de excluir.');
+          loadReports();
+          return;
+        }
+        // ignore other remote failures
+      }
+      reportStorage.delete(report.id);
+      toast.success('Relato excluído com sucesso!');
+      loadReports();
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao excluir relato'));
+    }
+  };
+
+  const hasFilters = Boolean(subject || from || to);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="size-5" />
+          Meus Relatos
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {localOnly && (
+          <Alert>
+            <AlertDescription>
+              Servidor indisponível. Exibindo os relatos salvos neste navegador.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="myReportsSubject">Disciplina</Label>
+            <Input
+              id="myReportsSubject"
+              placeholder="Filtrar por disciplina"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="myReportsFrom">De</Label>
+            <Input id="myReportsFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="myReportsTo">Até</Label>
+            <Input id="myReportsTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando relatos...</p>
+        ) : reports.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            {hasFilters ? 'Nenhum relato encontrado com os filtros aplicados' : 'Você ainda não registrou relatos'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {reports.map((report) => (
+              <div key={report.id} className="border rounded-lg p-4">
+                <div className="flex justify-between items-start mb-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span>{report.studentName}</span>
+                      <Badge variant="outline">{report.subject || 'Disciplina'}</Badge>
+                      <Badge variant={RESULT_VARIANTS[report.result] || 'secondary'}>
+                        {report.result.charAt(0).toUpperCase() + report.result.slice(1)}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <Calendar className="size-3" />
+                      {formatDate(report.date)}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onOpenStudent(report.studentId)}
+                      title="Ver estudante"
+                    >
+                      <Eye className="size-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingReport(report)} title="Editar">
+                      <Edit className="size-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(report)} title="Excluir">
+                      <Trash2 className="size-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="whitespace-pre-wrap line-clamp-3">{report.description}</p>
+              </div>
+            ))}
+            <p className="text-sm text-gray-600">{reports.length} relato(s)</p>
+          </div>
+        )}
+      </CardContent>
+
+      {editingReport && (
+        <ReportForm
+          studentId={editingReport.studentId}
+          report={editingReport}
+          open
+          onOpenChange={(open: boolean) => !open && setEditingReport(null)}
+          onSuccess={() => loadReports()}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { api } from '../lib/api';
+import { NOTIFICATION_TEMPLATE_LABELS } from '../lib/notificationTemplates';
+import type { Notification, NotificationStatus } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Eye, Mail, Send } from 'lucide-react';
+import { toast } from 'sonner';
+
+const STATUS_LABELS: Record<NotificationStatus, string> = {
+  pending: 'Na fila',
+  sent: 'Enviada',
+  failed: 'Falhou',
+};
+
+const STATUS_VARIANTS: Record<NotificationStatus, 'default' | 'secondary' | 'destructive'> = {
+  sent: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+export function NotificationOutbox() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [processing, setProcessing] = useState(false);
+  const [viewing, setViewing] = useState<Notification | null>(null);
+
+  useEffect(() => {
+    loadNotifications();
+  }, []);
+
+  async function loadNotifications() {
+    try {
+      setNotifications(await api.getNotifications());
+      setError('');
+    } catch (err: any) {
+      setError(err.message || 'Erro ao carregar notificações');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleProcess = async () => {
+    setProcessing(true);
+    try {
+      const { sent, failed } = await api.processNotifications();
+      if (failed > 0) {
+        toast.error(`${sent} enviada(s), ${failed} com falha`);
+      } else {
+        toast.success(sent > 0 ? `${sent} notificação(ões) enviada(s)` : 'Nenhuma notificação na fila');
+      }
+      loadNotifications();
+    } catch (err: any) {
+      toast.error(err.message || 'Erro ao enviar notificações');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const pendingCount = notifications.filter((n) => n.status === 'pending').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="size-5" />
+            Notificações por e-mail
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={handleProcess} disabled={processing} className="gap-2">
+            <Send className="size-4" />
+            {processing ? 'Enviando...' : `Enviar fila (${pendingCount})`}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Os professores das turmas do estudante são avisados de adaptações novas ou alteradas, e a coordenação de
+          relatos com resultado negativo e de revisões de adaptações próximas ou atrasadas.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando notificações...</p>
+        ) : notifications.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Nenhuma notificação gerada</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Destinatário</TableHead>
+                <TableHead>Assunto</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {notifications.map((notification) => (
+                <TableRow key={notification.id}>
+                  <TableCell>{new Date(notification.createdAt).toLocaleString('pt-BR')}</TableCell>
+                  <TableCell>{NOTIFICATION_TEMPLATE_LABELS[notification.template] || notification.template}</TableCell>
+                  <TableCell>
+                    {notification.to.name}
+                    <p className="text-sm text-gray-500">{notification.to.email}</p>
+                  </TableCell>
+                  <TableCell className="whitespace-normal">{notification.subject}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[notification.status]}>{STATUS_LABELS[notification.status]}</Badge>
+                    {notification.error && <p className="text-xs text-destructive">{notification.error}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setViewing(notification)} title="Ver mensagem">
+                      <Eye className="size-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={viewing !== null} onOpenChange={(open: boolean) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.subject}</DialogTitle>
+            <DialogDescription>
+              Para: {viewing?.to.name} &lt;{viewing?.to.email}&gt;
+            </DialogDescription>
+          </DialogHeader>
+          <pre className="whitespace-pre-wrap text-sm border rounded-md p-4 max-h-96 overflow-y-auto">{viewing?.text}</pre>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { api } from '../lib/api';
+import { adaptationStorage, studentStorage } from '../lib/storage';
+import { ADAPTATION_STATUS_LABELS, formatCalendarDate, pendingReviews, REVIEW_WARNING_DAYS } from '../lib/adaptationReview';
+import type { PendingReview } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { BellRing, CalendarClock, Eye } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PendingReviewsProps {
+  onOpenStudent: (review: PendingReview) => void;
+}
+
+function describeDays(days: number) {
+  if (days === 0) return 'hoje';
+  if (days > 0) return `em ${days} dia(s)`;
+  return `há ${-days} dia(s)`;
+}
+
+export function PendingReviews({ onOpenStudent }: PendingReviewsProps) {
+  const [reviews, setReviews] = useState<PendingReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [localOnly, setLocalOnly] = useState(false);
+  const [reminding, setReminding] = useState(false);
+
+  useEffect(() => {
+    loadReviews();
+  }, []);
+
+  async function loadReviews() {
+    try {
+      setReviews(await api.getPendingReviews());
+      setLocalOnly(false);
+    } catch {
+      // remote unavailable - compute from what is stored in this browser
+      setReviews(pendingReviews(adaptationStorage.getAll(), studentStorage.getAll()));
+      setLocalOnly(true);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleRemind = async () => {
+    setReminding(true);
+    try {
+      const { reminded } = await api.sendReviewReminders();
+      toast.success(reminded > 0 ? `${reminded} lembrete(s) na fila de e-mails` : 'Todas as revisões já foram lembradas');
+    } catch (err: any) {
+      toast.error(err.message || 'Erro ao enviar lembretes');
+    } finally {
+      setReminding(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="size-5" />
+            Revisões pendentes
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleRemind}
+            disabled={reminding || localOnly || reviews.length === 0}
+            className="gap-2"
+          >
+            <BellRing className="size-4" />
+            {reminding ? 'Enviando...' : 'Enviar lembretes'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Adaptações com revisão atrasada ou prevista para os próximos {REVIEW_WARNING_DAYS} dias. Cada revisão é
+          lembrada por e-mail à coordenação uma única vez.
+        </p>
+
+        {localOnly && (
+          <Alert>
+            <AlertDescription>
+              Servidor indisponível. Exibindo as adaptações salvas neste navegador; os lembretes não podem ser enviados.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando revisões...</p>
+        ) : reviews.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Nenhuma revisão pendente</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Estudante</TableHead>
+                <TableHead>Turma</TableHead>
+                <TableHead>Adaptação</TableHead>
+                <TableHead>Revisão</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.map((review) => (
+                <TableRow key={review.adaptation.id}>
+                  <TableCell>{review.studentName}</TableCell>
+                  <TableCell>{review.course} - {review.class}</TableCell>
+                  <TableCell className="whitespace-normal max-w-xs">
+                    <p className="line-clamp-2">{review.adaptation.description}</p>
+                  </TableCell>
+                  <TableCell>
+                    {formatCalendarDate(review.reviewDate)}
+                    <p className="text-sm text-gray-500">{describeDays(review.daysUntilReview)}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={review.status === 'overdue' ? 'destructive' : 'secondary'}>
+                      {ADAPTATION_STATUS_LABELS[review.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => onOpenStudent(review)} title="Abrir relatório do estudante">
+                      <Eye className="size-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
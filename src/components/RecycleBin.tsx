@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { api, errorMessage } from '../lib/api';
+import { studentStorage } from '../lib/storage';
+import type { ArchivedStudent } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Trash2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RecycleBinProps {
+  onRestored?: () => void;
+}
+
+export function RecycleBin({ onRestored }: RecycleBinProps) {
+  const [students, setStudents] = useState<ArchivedStudent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [localOnly, setLocalOnly] = useState(false);
+  const [purging, setPurging] = useState<ArchivedStudent | null>(null);
+  const [confirmation, setConfirmation] = useState('');
+
+  useEffect(() => {
+    loadStudents();
+  }, []);
+
+  async function loadStudents() {
+    setLoading(true);
+    try {
+      setStudents(await api.getArchivedStudents());
+      setLocalOnly(false);
+    } catch {
+      // remote unavailable - show the local recycle bin
+      setStudents(studentStorage.getArchived());
+      setLocalOnly(true);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleRestore = async (student: ArchivedStudent) => {
+    try {
+      try {
+        await api.restoreStudent(student.id);
+      } catch {
+        // remote failure - still restore locally
+      }
+      studentStorage.restore(student.id);
+      toast.success(`${student.name} restaurado(a) com adaptações e relatos`);
+      loadStudents();
+      onRestored?.();
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao restaurar estudante'));
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purging || confirmation !== purging.registrationNumber) return;
+    try {
+      try {
+        await api.purgeStudent(purging.id, confirmation);
+      } catch {
+        // remote failure - still purge locally
+      }
+      studentStorage.purge(purging.id);
+      toast.success('Estudante excluído definitivamente');
+      setPurging(null);
+      loadStudents();
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao excluir estudante'));
+    }
+  };
+
+  const formatDate = (dateString?: string) =>
+    dateString ? new Date(dateString).toLocaleString('pt-BR') : '—';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="size-5" />
+          Lixeira
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Estudantes excluídos ficam aqui com todas as suas adaptações e relatos até serem
+          restaurados ou excluídos definitivamente.
+        </p>
+
+        {localOnly && (
+          <Alert>
+            <AlertDescription>
+              Servidor indisponível. Exibindo apenas a lixeira deste navegador.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando lixeira...</p>
+        ) : students.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">A lixeira está vazia</p>
+        ) : (
+          <div className="space-y-2">
+            {students.map((student) => (
+              <div
+                key={student.id}
+                className="flex items-center justify-between p-4 border rounded-lg"
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3>{student.name}</h3>
+                    <Badge variant="outline">{student.registrationNumber}</Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                    <span>Excluído em: {formatDate(student.archivedAt)}</span>
+                    <span>{student.adaptationCount} adaptações</span>
+                    <span>{student.reportCount} relatos</span>
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(student)} className="gap-2">
+                    <RotateCcw className="size-4" />
+                    Restaurar
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setConfirmation('');
+                      setPurging(student);
+                    }}
+                    className="gap-2 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="size-4" />
+                    Excluir definitivamente
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={purging !== null} onOpenChange={(open: boolean) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir definitivamente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purging?.name} e todas as suas adaptações e relatos serão apagados para sempre.
+              Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="purgeConfirmation">
+              Digite a matrícula <strong>{purging?.registrationNumber}</strong> para confirmar
+            </Label>
+            <Input
+              id="purgeConfirmation"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              disabled={confirmation !== purging?.registrationNumber}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Excluir definitivamente
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
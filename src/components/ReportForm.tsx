@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { api } from '../lib/api';
+import { today } from '../lib/adaptationReview';
 import { reportStorage } from '../lib/storage';
+import { fieldErrorMap, fieldErrorsFromResponse, validateReport } from '../lib/validation';
+import { versionConflictFromResponse, versionOf } from '../lib/versioning';
 import type { Report, ReportResult } from '../types';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -9,6 +12,7 @@ import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
 import { Alert, AlertDescription } from './ui/alert';
+import { ConflictDialog } from './ConflictDialog';
 import { toast } from 'sonner';
 
 interface ReportFormProps {
@@ -19,6 +23,16 @@ interface ReportFormProps {
   onSuccess: (createdReport?: Report) => void;
 }
 
+function toFormData(report: Report) {
+  return {
+    subject: report.subject,
+    result: report.result,
+    description: report.description,
+    // convert ISO date to yyyy-mm-dd for input[type=date]
+    date: report.date ? new Date(report.date).toISOString().slice(0,10) : '',
+  };
+}
+
 export function ReportForm({ 
   studentId, 
   report, 
@@ -34,16 +48,15 @@ export function ReportForm({
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Version the edits are based on, and the newer copy when a save answers 412
+  const [version, setVersion] = useState(1);
+  const [serverCopy, setServerCopy] = useState<Report | null>(null);
 
   useEffect(() => {
     if (report) {
-      setFormData({
-        subject: report.subject,
-        result: report.result,
-        description: report.description,
-        // convert ISO date to yyyy-mm-dd for input[type=date]
-        date: report.date ? new Date(report.date).toISOString().slice(0,10) : '',
-      });
+      setFormData(toFormData(report));
+      setVersion(versionOf(report));
     } else {
       setFormData({
         subject: '',
@@ -52,18 +65,23 @@ export function ReportForm({
         date: new Date().toISOString().slice(0,10),
       });
     }
+    setFieldErrors({});
+    setServerCopy(null);
   }, [report, open]);
 
   const handleChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => ({ ...prev, [field]: '' }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
-    if (!formData.subject || !formData.description) {
-      setError('Por favor, preencha todos os campos obrigatórios');
+    const { errors } = validateReport({ ...formData, studentId });
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) {
+      setError('Por favor, corrija os campos destacados');
       return;
     }
 
@@ -72,35 +90,48 @@ export function ReportForm({
       return;
     }
 
+    await save(version);
+  };
+
+  const save = async (baseVersion: number) => {
     setLoading(true);
     try {
         let created: Report | undefined;
       if (report) {
+        let remoteVersion: number | undefined;
         try {
-          await api.updateReport(studentId, report.id, formData);
+          const res = await api.updateReport(studentId, report.id, formData, baseVersion);
+          remoteVersion = res.report.version;
           toast.success('Relato atualizado com sucesso!');
         } catch (err) {
+          const current = versionConflictFromResponse<Report>(err);
+          if (current) {
+            // someone else saved first - nothing is written until the user decides
+            setServerCopy(current);
+            return;
+          }
           // ignore remote failure
         }
         const local = reportStorage.update(report.id, {
           subject: formData.subject,
           result: formData.result as any,
           description: formData.description,
-          date: formData.date ? new Date(formData.date).toISOString() : new Date().toISOString(),
+          date: formData.date || today(),
+          version: remoteVersion,
         });
         created = local || undefined;
       } else {
-        const payload = { ...formData, studentId, date: new Date(formData.date).toISOString() };
+        const payload = { ...formData, studentId };
         try {
           const res = await api.createReport(payload);
-          if (res && (res as any).id) {
+          if (res.report?.id) {
             created = reportStorage.create({
-              id: (res as any).id,
+              id: res.report.id,
               studentId,
               subject: formData.subject,
               result: formData.result as any,
               description: formData.description,
-              date: new Date(formData.date).toISOString(),
+              date: formData.date,
             } as any);
           } else {
             created = reportStorage.create({
@@ -108,7 +139,7 @@ export function ReportForm({
               subject: formData.subject,
               result: formData.result as any,
               description: formData.description,
-              date: new Date(formData.date).toISOString(),
+              date: formData.date,
             } as any);
           }
           toast.success('Relato registrado com sucesso!');
@@ -118,7 +149,7 @@ export function ReportForm({
             subject: formData.subject,
             result: formData.result as any,
             description: formData.description,
-            date: new Date(formData.date).toISOString(),
+            date: formData.date,
           } as any);
           toast.success('Relato registrado localmente (offline)');
         }
@@ -126,6 +157,7 @@ export function ReportForm({
       onOpenChange(false);
       onSuccess(created);
     } catch (err: any) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
       setError(err.message || 'Erro ao salvar relato');
       toast.error(err.message || 'Erro ao salvar relato');
     } finally {
@@ -133,6 +165,21 @@ export function ReportForm({
     }
   };
 
+  const handleUseServer = () => {
+    if (!serverCopy) return;
+    setFormData(toFormData(serverCopy));
+    setVersion(versionOf(serverCopy));
+    setServerCopy(null);
+  };
+
+  const handleOverwrite = async () => {
+    if (!serverCopy) return;
+    const serverVersion = versionOf(serverCopy);
+    setVersion(serverVersion);
+    setServerCopy(null);
+    await save(serverVersion);
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl">
@@ -159,6 +206,9 @@ export function ReportForm({
               required
               disabled={loading}
             />
+            {fieldErrors.subject && (
+              <p className="text-sm text-destructive">{fieldErrors.subject}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -177,6 +227,9 @@ export function ReportForm({
                 <SelectItem value="negativo">Negativo</SelectItem>
               </SelectContent>
             </Select>
+            {fieldErrors.result && (
+              <p className="text-sm text-destructive">{fieldErrors.result}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -190,6 +243,9 @@ export function ReportForm({
               required
               disabled={loading}
             />
+            {fieldErrors.description && (
+              <p className="text-sm text-destructive">{fieldErrors.description}</p>
+            )}
           </div>
 
           <div className="flex justify-end gap-2 pt-4">
@@ -206,6 +262,17 @@ export function ReportForm({
             </Button>
           </div>
         </form>
+
+        {serverCopy && (
+          <ConflictDialog
+            open
+            onOpenChange={(open: boolean) => !open && setServerCopy(null)}
+            server={toFormData(serverCopy)}
+            mine={formData}
+            onUseServer={handleUseServer}
+            onOverwrite={handleOverwrite}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import { api, errorMessage } from '../lib/api';
+import { revisionStorage } from '../lib/storage';
+import { diffRecords, FIELD_LABELS } from '../lib/diff';
+import { versionOf } from '../lib/versioning';
+import type { Revision, RevisionEntityType } from '../types';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntityType;
+  studentId: string;
+  entityId: string | null;
+  // Version of the record on screen, sent as If-Match when restoring
+  version: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canRestore: boolean;
+  // Receives the version the restore wrote
+  onRestored: (version: number) => void;
+}
+
+const TITLES: Record<RevisionEntityType, string> = {
+  adaptation: 'Histórico da adaptação',
+  report: 'Histórico do relato',
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function RevisionHistory({
+  entityType,
+  studentId,
+  entityId,
+  version,
+  open,
+  onOpenChange,
+  canRestore,
+  onRestored,
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [localOnly, setLocalOnly] = useState(false);
+
+  // Every new version of the record (a restore included) adds a revision
+  useEffect(() => {
+    if (!open || !entityId) return;
+
+    async function loadRevisions(id: string) {
+      setLoading(true);
+      try {
+        setRevisions(await api.getRevisions(entityType, studentId, id));
+        setLocalOnly(false);
+      } catch {
+        // remote unavailable - show the history kept in this browser
+        setRevisions(revisionStorage.list(entityType, id));
+        setLocalOnly(true);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadRevisions(entityId);
+  }, [open, entityType, studentId, entityId, version]);
+
+  const handleRestore = async (revision: Revision) => {
+    if (!window.confirm(`Deseja restaurar a revisão ${revision.revision}? O conteúdo atual continuará no histórico.`)) {
+      return;
+    }
+    try {
+      const remote = localOnly
+        ? null
+        : await api.restoreRevision(entityType, studentId, revision.entityId, revision.revision, version);
+      // keep the local copy in sync, since it takes precedence when merging
+      const local = revisionStorage.restore(revision);
+      toast.success(`Revisão ${revision.revision} restaurada`);
+      onRestored(versionOf(remote ?? local));
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao restaurar revisão'));
+    }
+  };
+
+  const renderChanges = (revision: Revision, previous?: Revision) => {
+    if (!previous) {
+      return <p className="text-sm text-gray-500">Versão inicial</p>;
+    }
+    const fields = Object.entries(diffRecords(previous.snapshot, revision.snapshot));
+    if (fields.length === 0) {
+      return <p className="text-sm text-gray-500">Sem alterações de conteúdo</p>;
+    }
+    return (
+      <ul className="space-y-2 text-sm">
+        {fields.map(([field, change]) => (
+          <li key={field}>
+            <p className="text-gray-600">{FIELD_LABELS[field] || field}</p>
+            <p className="whitespace-pre-wrap line-through text-gray-400">{formatValue(change.before)}</p>
+            <p className="whitespace-pre-wrap">{formatValue(change.after)}</p>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const current = revisions[0]?.revision;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{TITLES[entityType]}</SheetTitle>
+          <SheetDescription>
+            Cada alteração gera uma nova revisão. Os campos alterados aparecem em relação à revisão anterior.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 px-4 pb-4">
+          {localOnly && (
+            <Alert>
+              <AlertDescription>
+                Servidor indisponível. Exibindo apenas o histórico gravado neste navegador.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {loading ? (
+            <p className="text-center text-gray-500 py-8">Carregando histórico...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Nenhuma revisão registrada</p>
+          ) : (
+            revisions.map((revision, index) => (
+              <div key={revision.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span>Revisão {revision.revision}</span>
+                      {revision.revision === current && <Badge>Atual</Badge>}
+                      {revision.restoredFrom !== undefined && (
+                        <Badge variant="outline">Restaurada da revisão {revision.restoredFrom}</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {new Date(revision.createdAt).toLocaleString('pt-BR')}
+                      {revision.authorName && ` · ${revision.authorName}`}
+                    </p>
+                  </div>
+                  {canRestore && revision.revision !== current && (
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(revision)} className="gap-2">
+                      <RotateCcw className="size-4" />
+                      Restaurar
+                    </Button>
+                  )}
+                </div>
+                {renderChanges(revision, revisions[index + 1])}
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
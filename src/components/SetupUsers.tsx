@@ -18,6 +18,7 @@ export function SetupUsers() {
         'adaptacao_students',
         'adaptacao_adaptations',
         'adaptacao_reports',
+        'adaptacao_revisions',
         'adaptacao_current_user',
         'setupComplete',
       ];
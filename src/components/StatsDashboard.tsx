@@ -0,0 +1,290 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { api } from '../lib/api';
+import { getStudentStats } from '../lib/storage';
+import type { StatsFilter } from '../lib/stats';
+import type { ReportResult, Stats } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from './ui/chart';
+import { BarChart3 } from 'lucide-react';
+
+const ALL = 'all';
+
+const RESULT_LABELS: Record<ReportResult, string> = {
+  positivo: 'Positivo',
+  neutro: 'Neutro',
+  negativo: 'Negativo',
+};
+
+const resultConfig = {
+  count: { label: 'Relatos' },
+  positivo: { label: 'Positivo', color: 'var(--chart-2)' },
+  neutro: { label: 'Neutro', color: 'var(--chart-4)' },
+  negativo: { label: 'Negativo', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+const subjectConfig = {
+  count: { label: 'Relatos', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+const classConfig = {
+  students: { label: 'Estudantes', color: 'var(--chart-1)' },
+  studentsWithAdaptations: { label: 'Com adaptações', color: 'var(--chart-2)' },
+  reports: { label: 'Relatos', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+const monthConfig = {
+  adaptations: { label: 'Adaptações', color: 'var(--chart-1)' },
+  reports: { label: 'Relatos', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+// "2024-03" -> "mar/24"
+function formatMonth(month: string) {
+  const [year, m] = month.split('-').map(Number);
+  if (!year || !m) return month;
+  return new Date(year, m - 1, 1)
+    .toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' })
+    .replace('. de ', '/')
+    .replace(' de ', '/');
+}
+
+export function StatsDashboard() {
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [localOnly, setLocalOnly] = useState(false);
+
+  // Filters
+  const [course, setCourse] = useState<string>(ALL);
+  const [klass, setKlass] = useState<string>(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    async function loadStats() {
+      const filter: StatsFilter = {
+        course: course === ALL ? undefined : course,
+        class: klass === ALL ? undefined : klass,
+        from: from || undefined,
+        to: to || undefined,
+      };
+
+      setLoading(true);
+      try {
+        setStats(await api.getStats(filter));
+        setLocalOnly(false);
+      } catch {
+        // remote unavailable - compute from the data stored in this browser
+        setStats(getStudentStats(filter));
+        setLocalOnly(true);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadStats();
+  }, [course, klass, from, to]);
+
+  const handleCourseChange = (value: string) => {
+    setCourse(value);
+    // the class list depends on the course
+    setKlass(ALL);
+  };
+
+  const totals = stats?.totals;
+  const resultData = (stats?.reportsByResult || []).map((r) => ({ ...r, label: RESULT_LABELS[r.result] }));
+  const monthData = (stats?.byMonth || []).map((m) => ({ ...m, label: formatMonth(m.month) }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="size-5" />
+            Indicadores
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {localOnly && (
+            <Alert>
+              <AlertDescription>
+                Servidor indisponível. Indicadores calculados com os dados deste navegador.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="statsCourse">Curso</Label>
+              <Select value={course} onValueChange={handleCourseChange}>
+                <SelectTrigger id="statsCourse">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {(stats?.courses || []).map((value) => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statsClass">Turma</Label>
+              <Select value={klass} onValueChange={setKlass}>
+                <SelectTrigger id="statsClass">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas</SelectItem>
+                  {(stats?.classes || []).map((value) => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statsFrom">De</Label>
+              <Input id="statsFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statsTo">Até</Label>
+              <Input id="statsTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          {totals && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-gray-600">Estudantes</p>
+                <p className="text-2xl">{totals.students}</p>
+              </div>
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-gray-600">Com adaptações</p>
+                <p className="text-2xl">{totals.studentsWithAdaptations}</p>
+              </div>
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-gray-600">Adaptações</p>
+                <p className="text-2xl">{totals.adaptations}</p>
+              </div>
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-gray-600">Relatos</p>
+                <p className="text-2xl">{totals.reports}</p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading && !stats ? (
+        <Card>
+          <CardContent className="py-8">
+            <p className="text-center text-gray-500">Carregando indicadores...</p>
+          </CardContent>
+        </Card>
+      ) : stats && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Relatos por resultado</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={resultConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={resultData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                  <Bar dataKey="count" radius={4}>
+                    {resultData.map((entry) => (
+                      <Cell key={entry.result} fill={`var(--color-${entry.result})`} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Relatos por disciplina</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {stats.reportsBySubject.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">Nenhum relato no período</p>
+              ) : (
+                <ChartContainer config={subjectConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={stats.reportsBySubject} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="subject" tickLine={false} axisLine={false} width={110} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Por turma</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {stats.byClass.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">Nenhum estudante encontrado</p>
+              ) : (
+                <ChartContainer config={classConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={stats.byClass}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="class" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend />
+                    <Bar dataKey="students" name={classConfig.students.label} fill="var(--color-students)" radius={4} />
+                    <Bar dataKey="studentsWithAdaptations" name={classConfig.studentsWithAdaptations.label} fill="var(--color-studentsWithAdaptations)" radius={4} />
+                    <Bar dataKey="reports" name={classConfig.reports.label} fill="var(--color-reports)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Por mês</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {monthData.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">Nenhum registro no período</p>
+              ) : (
+                <ChartContainer config={monthConfig} className="h-64 w-full aspect-auto">
+                  <LineChart data={monthData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend />
+                    <Line dataKey="adaptations" name={monthConfig.adaptations.label} stroke="var(--color-adaptations)" strokeWidth={2} />
+                    <Line dataKey="reports" name={monthConfig.reports.label} stroke="var(--color-reports)" strokeWidth={2} />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,20 +2,36 @@ import React, { useState, useEffect } from 'react';
 import type { Student } from '../types';
 import { Button } from './ui/button';
 import { api } from '../lib/api';
+import { fieldErrorMap, fieldErrorsFromResponse, registrationConflictFromResponse, validateStudent } from '../lib/validation';
+import { versionConflictFromResponse, versionOf } from '../lib/versioning';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
+import { ConflictDialog } from './ConflictDialog';
 import { toast } from 'sonner';
 
 interface StudentFormProps {
   student?: Student | null;
   onSuccess: () => void;
   onCancel: () => void;
+  // Opens the student that already holds a duplicated registration number
+  onOpenStudent?: (student: Student) => void;
 }
 
+function toFormData(student: Student) {
+  return {
+    name: student.name,
+    course: student.course,
+    class: student.class,
+    birthDate: student.birthDate,
+    registrationNumber: student.registrationNumber,
+    guardianName: student.guardianName || '',
+    guardianContact: student.guardianContact || '',
+  };
+}
 
-export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps) {
+export function StudentForm({ student, onSuccess, onCancel, onOpenStudent }: StudentFormProps) {
   const [formData, setFormData] = useState({
     name: '',
     course: '',
@@ -27,38 +43,45 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [conflict, setConflict] = useState<Student | null>(null);
+  // Version the edits are based on, and the newer copy when a save answers 412
+  const [version, setVersion] = useState(1);
+  const [serverCopy, setServerCopy] = useState<Student | null>(null);
 
   useEffect(() => {
     if (student) {
-      setFormData({
-        name: student.name,
-        course: student.course,
-        class: student.class,
-        birthDate: student.birthDate,
-        registrationNumber: student.registrationNumber,
-        guardianName: student.guardianName || '',
-        guardianContact: student.guardianContact || '',
-      });
+      setFormData(toFormData(student));
+      setVersion(versionOf(student));
     }
   }, [student]);
 
   const handleChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => ({ ...prev, [field]: '' }));
+    if (field === 'registrationNumber') setConflict(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setConflict(null);
 
-    if (!formData.name || !formData.course || !formData.class || !formData.birthDate || !formData.registrationNumber) {
-      setError('Por favor, preencha todos os campos obrigatórios');
+    const { errors } = validateStudent(formData);
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) {
+      setError('Por favor, corrija os campos destacados');
       return;
     }
 
+    await save(version);
+  };
+
+  const save = async (baseVersion: number) => {
     setLoading(true);
     try {
       if (student) {
-        await api.updateStudent(student.id, formData);
+        await api.updateStudent(student.id, formData, baseVersion);
         toast.success('Estudante atualizado com sucesso!');
       } else {
         await api.createStudent(formData);
@@ -66,6 +89,18 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
       }
       onSuccess();
     } catch (err: any) {
+      const current = versionConflictFromResponse<Student>(err);
+      if (current) {
+        setServerCopy(current);
+        return;
+      }
+      const existing = registrationConflictFromResponse(err);
+      if (existing) {
+        setConflict(existing);
+        setError('');
+        return;
+      }
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
       setError(err.message || 'Erro ao salvar estudante');
       toast.error(err.message || 'Erro ao salvar estudante');
     } finally {
@@ -73,6 +108,21 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
     }
   };
 
+  const handleUseServer = () => {
+    if (!serverCopy) return;
+    setFormData(toFormData(serverCopy));
+    setVersion(versionOf(serverCopy));
+    setServerCopy(null);
+  };
+
+  const handleOverwrite = async () => {
+    if (!serverCopy) return;
+    const serverVersion = versionOf(serverCopy);
+    setVersion(serverVersion);
+    setServerCopy(null);
+    await save(serverVersion);
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -96,6 +146,9 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
                 required
                 disabled={loading}
               />
+              {fieldErrors.name && (
+                <p className="text-sm text-destructive">{fieldErrors.name}</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -107,6 +160,22 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
                 required
                 disabled={loading}
               />
+              {fieldErrors.registrationNumber && (
+                <p className="text-sm text-destructive">{fieldErrors.registrationNumber}</p>
+              )}
+              {conflict && (
+                <p className="text-sm text-destructive">
+                  Matrícula já cadastrada para{' '}
+                  {onOpenStudent && !conflict.archivedAt ? (
+                    <button type="button" className="underline" onClick={() => onOpenStudent(conflict)}>
+                      {conflict.name}
+                    </button>
+                  ) : (
+                    conflict.name
+                  )}
+                  {conflict.archivedAt && ' (na lixeira — restaure o cadastro na aba Lixeira)'}
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -118,6 +187,9 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
                 required
                 disabled={loading}
               />
+              {fieldErrors.course && (
+                <p className="text-sm text-destructive">{fieldErrors.course}</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -129,6 +201,9 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
                 required
                 disabled={loading}
               />
+              {fieldErrors.class && (
+                <p className="text-sm text-destructive">{fieldErrors.class}</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -141,6 +216,9 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
                 required
                 disabled={loading}
               />
+              {fieldErrors.birthDate && (
+                <p className="text-sm text-destructive">{fieldErrors.birthDate}</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -151,6 +229,9 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
                 onChange={(e) => handleChange('guardianName', e.target.value)}
                 disabled={loading}
               />
+              {fieldErrors.guardianName && (
+                <p className="text-sm text-destructive">{fieldErrors.guardianName}</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -162,6 +243,9 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
                 onChange={(e) => handleChange('guardianContact', e.target.value)}
                 disabled={loading}
               />
+              {fieldErrors.guardianContact && (
+                <p className="text-sm text-destructive">{fieldErrors.guardianContact}</p>
+              )}
             </div>
           </div>
 
@@ -174,6 +258,17 @@ export function StudentForm({ student, onSuccess, onCancel }: StudentFormProps)
             </Button>
           </div>
         </form>
+
+        {serverCopy && (
+          <ConflictDialog
+            open
+            onOpenChange={(open: boolean) => !open && setServerCopy(null)}
+            server={toFormData(serverCopy)}
+            mine={formData}
+            onUseServer={handleUseServer}
+            onOverwrite={handleOverwrite}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { api } from '../lib/api';
+import { FIELD_LABELS } from '../lib/diff';
+import { studentSchema } from '../lib/validation';
+import {
+  buildImportRecords,
+  guessMapping,
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRowResult,
+  type ImportRowStatus,
+} from '../lib/studentImport';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface StudentImportProps {
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+const NONE = 'none';
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  valid: 'Válida',
+  invalid: 'Com erros',
+  duplicate: 'Duplicada',
+};
+
+const STATUS_VARIANTS: Record<ImportRowStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  valid: 'default',
+  invalid: 'destructive',
+  duplicate: 'secondary',
+};
+
+export function StudentImport({ onSuccess, onCancel }: StudentImportProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRowResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      setError('O arquivo não contém linhas de dados');
+      return;
+    }
+    if (parsed.length - 1 > MAX_IMPORT_ROWS) {
+      setError(`O arquivo tem ${parsed.length - 1} linhas. Máximo de ${MAX_IMPORT_ROWS} estudantes por importação`);
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(parsed[0].map((h) => h.trim()));
+    setDataRows(parsed.slice(1));
+    setMapping(guessMapping(parsed[0]));
+    setStep('mapping');
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === NONE) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(
+    (field) => studentSchema[field].required && mapping[field] === undefined
+  );
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await api.importStudents(buildImportRecords(dataRows, mapping), true);
+      setRows(result.rows);
+      setStep('preview');
+    } catch (err: any) {
+      setError(err.message || 'Erro ao validar a planilha');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const validRows = rows.filter((row) => row.status === 'valid');
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await api.importStudents(validRows.map((row) => row.data), false);
+      toast.success(`${result.created.length} estudante(s) importado(s) com sucesso!`);
+      onSuccess();
+    } catch (err: any) {
+      // the server rejected the batch - nothing was written
+      setError(err.message || 'Erro ao importar estudantes');
+      toast.error(err.message || 'Erro ao importar estudantes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const count = (status: ImportRowStatus) => rows.filter((row) => row.status === status).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="size-5" />
+          Importar estudantes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Selecione uma planilha CSV com uma linha de cabeçalho. Datas podem estar no formato
+              dd/mm/aaaa ou aaaa-mm-dd. Separadores vírgula e ponto e vírgula são aceitos.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="importFile">Arquivo CSV</Label>
+              <Input id="importFile" type="file" accept=".csv,text/csv" onChange={handleFile} />
+            </div>
+            <div className="flex justify-end">
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {fileName}: {dataRows.length} linha(s). Indique qual coluna da planilha corresponde a cada campo.
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campo</TableHead>
+                  <TableHead>Coluna da planilha</TableHead>
+                  <TableHead>Exemplo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {IMPORT_FIELDS.map((field) => (
+                  <TableRow key={field}>
+                    <TableCell>
+                      {FIELD_LABELS[field] || field}
+                      {studentSchema[field].required && ' *'}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping[field] === undefined ? NONE : String(mapping[field])}
+                        onValueChange={(value: string) => handleMappingChange(field, value)}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Não importar</SelectItem>
+                          {headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {header || `Coluna ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {mapping[field] === undefined ? '—' : dataRows[0]?.[mapping[field]!] || '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                Selecione a coluna de: {missingRequired.map((field) => FIELD_LABELS[field] || field).join(', ')}
+              </p>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setStep('upload')} disabled={loading}>
+                Voltar
+              </Button>
+              <Button onClick={handlePreview} disabled={loading || missingRequired.length > 0}>
+                {loading ? 'Validando...' : 'Pré-visualizar'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant={STATUS_VARIANTS.valid}>{count('valid')} válida(s)</Badge>
+              <Badge variant={STATUS_VARIANTS.invalid}>{count('invalid')} com erros</Badge>
+              <Badge variant={STATUS_VARIANTS.duplicate}>{count('duplicate')} duplicada(s)</Badge>
+            </div>
+            {validRows.length < rows.length && (
+              <p className="text-sm text-gray-600">
+                Linhas com erros ou duplicadas não serão importadas. Corrija a planilha e envie novamente para incluí-las.
+              </p>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Linha</TableHead>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Matrícula</TableHead>
+                  <TableHead>Turma</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead>Observações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell>{row.data.name || '—'}</TableCell>
+                    <TableCell>{row.data.registrationNumber || '—'}</TableCell>
+                    <TableCell>{row.data.class || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[row.status]}>{STATUS_LABELS[row.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-normal text-sm">
+                      {row.errors.map((e) => `${FIELD_LABELS[e.field] || e.field}: ${e.message}`).join('; ')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setStep('mapping')} disabled={loading}>
+                Voltar
+              </Button>
+              <Button onClick={handleImport} disabled={loading || validRows.length === 0}>
+                {loading ? 'Importando...' : `Importar ${validRows.length} estudante(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,22 @@
 import { useState, useEffect } from 'react';
-import type { Student } from '../types';
+import type { Student, StudentListItem } from '../types';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Search, UserPlus, Eye, Edit, Trash2 } from 'lucide-react';
+import { Search, UserPlus, Eye, Edit, Trash2, Upload } from 'lucide-react';
 import { Alert, AlertDescription } from './ui/alert';
 import { api } from '../lib/api';
 
+const FILTER_DEBOUNCE_MS = 300;
+
 interface StudentListProps {
   onSelectStudent: (student: Student) => void;
   onEditStudent?: (student: Student) => void;
   onDeleteStudent?: (student: Student) => void;
   onAddNew?: () => void;
+  onImport?: () => void;
   showActions?: boolean;
 }
 
@@ -23,11 +26,14 @@ export function StudentList({
   onEditStudent, 
   onDeleteStudent,
   onAddNew,
+  onImport,
   showActions = false 
 }: StudentListProps) {
-  const [students, setStudents] = useState<Student[]>([]);
-  const [filteredStudents, setFilteredStudents] = useState<Student[]>([]);
+  const [students, setStudents] = useState<StudentListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState('');
   
   // Filters
@@ -35,53 +41,37 @@ export function StudentList({
   const [courseFilter, setCourseFilter] = useState('');
   const [classFilter, setClassFilter] = useState('');
 
+  // Filters are applied by the server; wait for the user to stop typing
   useEffect(() => {
-    loadStudents();
-  }, []);
-
-  useEffect(() => {
-    filterStudents();
-  }, [students, nameFilter, courseFilter, classFilter]);
+    const timer = setTimeout(() => loadStudents(), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [nameFilter, courseFilter, classFilter]);
 
-  async function loadStudents() {
+  async function loadStudents(cursor: string | null = null) {
     try {
-      setLoading(true);
+      if (cursor) {
+        setLoadingMore(true);
+      }
       setError('');
-    const data = await api.getStudents();
-      setStudents(data);
+      const page = await api.getStudentPage({
+        name: nameFilter,
+        course: courseFilter,
+        class: classFilter,
+        cursor,
+      });
+      setStudents(prev => (cursor ? [...prev, ...page.students] : page.students));
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
     } catch (err: any) {
       setError(err.message || 'Erro ao carregar estudantes');
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   }
 
-  function filterStudents() {
-    let filtered = students;
-
-    if (nameFilter) {
-      filtered = filtered.filter(s => 
-        s.name.toLowerCase().includes(nameFilter.toLowerCase())
-      );
-    }
-
-    if (courseFilter) {
-      filtered = filtered.filter(s => 
-        s.course.toLowerCase().includes(courseFilter.toLowerCase())
-      );
-    }
-
-    if (classFilter) {
-      filtered = filtered.filter(s => 
-        s.class.toLowerCase().includes(classFilter.toLowerCase())
-      );
-    }
-
-    setFilteredStudents(filtered);
-  }
-
   const handleDelete = async (student: Student) => {
-    if (window.confirm(`Deseja realmente excluir o estudante ${student.name}?`)) {
+    if (window.confirm(`Deseja mover o estudante ${student.name} para a lixeira? Ele poderá ser restaurado na aba Lixeira.`)) {
       if (onDeleteStudent) {
         onDeleteStudent(student);
       }
@@ -104,12 +94,20 @@ export function StudentList({
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Estudantes</CardTitle>
-            {onAddNew && (
-              <Button onClick={onAddNew} className="gap-2">
-                <UserPlus className="size-4" />
-                Novo Estudante
-              </Button>
-            )}
+            <div className="flex gap-2">
+              {onImport && (
+                <Button variant="outline" onClick={onImport} className="gap-2">
+                  <Upload className="size-4" />
+                  Importar CSV
+                </Button>
+              )}
+              {onAddNew && (
+                <Button onClick={onAddNew} className="gap-2">
+                  <UserPlus className="size-4" />
+                  Novo Estudante
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -155,13 +153,13 @@ export function StudentList({
             </div>
           </div>
 
-          {filteredStudents.length === 0 ? (
+          {students.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-gray-500">Nenhum estudante encontrado</p>
             </div>
           ) : (
             <div className="space-y-2">
-              {filteredStudents.map((student) => (
+              {students.map((student) => (
                 <div
                   key={student.id}
                   className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors"
@@ -210,6 +208,20 @@ export function StudentList({
                   </div>
                 </div>
               ))}
+
+              <div className="flex items-center justify-between pt-2 text-sm text-gray-600">
+                <span>Exibindo {students.length} de {total} estudantes</span>
+                {nextCursor && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadStudents(nextCursor)}
+                    disabled={loadingMore}
+                  >
+                    {loadingMore ? 'Carregando...' : 'Carregar mais'}
+                  </Button>
+                )}
+              </div>
             </div>
           )}
         </CardContent>
@@ -1,12 +1,29 @@
 import { useState, useEffect } from 'react';
-import { api } from '../lib/api';
-import { adaptationStorage, reportStorage } from '../lib/storage';
+import { api, ApiError, errorMessage } from '../lib/api';
+import { adaptationStorage, reportStorage, studentStorage } from '../lib/storage';
+import { downloadJson } from '../lib/download';
+import type { StudentDataExport } from '../lib/lgpd';
+import { versionConflictFromResponse, versionOf } from '../lib/versioning';
+import { ADAPTATION_STATUS_LABELS, adaptationStatus, formatCalendarDate, reviewDateOf } from '../lib/adaptationReview';
 import { useAuth } from '../contexts/AuthContext';
-import type { StudentReport as StudentReportType, Adaptation, Report } from '../types';
+import type { StudentReport as StudentReportType, Adaptation, AdaptationStatus, Report, RevisionEntityType } from '../types';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
 import { Alert, AlertDescription } from './ui/alert';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
 import { 
   ArrowLeft, 
   Plus, 
@@ -16,10 +33,14 @@ import {
   Calendar,
   FileText,
   User,
-  GraduationCap
+  GraduationCap,
+  History,
+  Download,
+  UserX
 } from 'lucide-react';
 import { AdaptationForm } from './AdaptationForm';
 import { ReportForm } from './ReportForm';
+import { RevisionHistory } from './RevisionHistory';
 import { toast } from 'sonner';
 
 interface StudentReportProps {
@@ -37,6 +58,15 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
   const [reportFormOpen, setReportFormOpen] = useState(false);
   const [editingAdaptation, setEditingAdaptation] = useState<Adaptation | null>(null);
   const [editingReport, setEditingReport] = useState<Report | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<{
+    entityType: RevisionEntityType;
+    entityId: string;
+    version: number;
+  } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [anonymizeOpen, setAnonymizeOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
 
   useEffect(() => {
     loadReport();
@@ -110,13 +140,17 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
   const handleDeleteAdaptation = async (adaptation: Adaptation) => {
     if (window.confirm('Deseja realmente excluir esta adaptação?')) {
       try {
-        // delete locally first
-        adaptationStorage.delete(adaptation.id);
         try {
-          await api.deleteAdaptation(studentId, adaptation.id);
+          await api.deleteAdaptation(studentId, adaptation.id, versionOf(adaptation));
         } catch (err) {
-          // ignore remote failure
+          if (versionConflictFromResponse(err)) {
+            toast.error('Esta adaptação foi alterada por outra pessoa. Revise antes de excluir.');
+            loadReport();
+            return;
+          }
+          // ignore other remote failures
         }
+        adaptationStorage.delete(adaptation.id);
         toast.success('Adaptação excluída com sucesso!');
         loadReport();
       } catch (err: any) {
@@ -128,12 +162,17 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
   const handleDeleteReport = async (report: Report) => {
     if (window.confirm('Deseja realmente excluir este relato?')) {
       try {
-        reportStorage.delete(report.id);
         try {
-          await api.deleteReport(studentId, report.id);
+          await api.deleteReport(studentId, report.id, versionOf(report));
         } catch (err) {
-          // ignore remote failure
+          if (versionConflictFromResponse(err)) {
+            toast.error('Este relato foi alterado por outra pessoa. Revise antes de excluir.');
+            loadReport();
+            return;
+          }
+          // ignore other remote failures
         }
+        reportStorage.delete(report.id);
         toast.success('Relato excluído com sucesso!');
         loadReport();
       } catch (err: any) {
@@ -142,6 +181,71 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
     }
   };
 
+  const handleToggleShared = async (report: Report, shared: boolean) => {
+    try {
+      const updated = await api.setReportShared(studentId, report.id, shared);
+      reportStorage.update(report.id, {
+        shared: updated.shared,
+        sharedAt: updated.sharedAt,
+        sharedBy: updated.sharedBy,
+        version: updated.version,
+      });
+      toast.success(shared ? 'Relato compartilhado com os responsáveis' : 'O relato não é mais compartilhado');
+      loadReport();
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao compartilhar relato'));
+    }
+  };
+
+  const handleExportData = async () => {
+    setExporting(true);
+    try {
+      let exported: StudentDataExport | null;
+      try {
+        exported = await api.exportStudentData(studentId);
+      } catch {
+        // remote failed - export what this browser stores
+        exported = studentStorage.exportData(studentId);
+      }
+      if (!exported) throw new Error('Estudante não encontrado');
+      downloadJson(`dados-estudante-${studentId}.json`, exported);
+      toast.success('Dados do estudante exportados');
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao exportar dados do estudante'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleAnonymize = async () => {
+    const registrationNumber = data?.student?.registrationNumber;
+    if (!registrationNumber || confirmation !== registrationNumber) return;
+    try {
+      let anonymized = false;
+      try {
+        await api.anonymizeStudent(studentId, confirmation);
+        anonymized = true;
+      } catch (err) {
+        // a wrong confirmation or an already anonymized student is final
+        if (err instanceof ApiError && (err.status === 400 || err.status === 409)) throw err;
+      }
+      // the browser's copy is scrubbed too
+      if (studentStorage.anonymize(studentId)) anonymized = true;
+      if (!anonymized) throw new Error('Estudante não encontrado');
+      toast.success('Dados pessoais do estudante removidos');
+      setAnonymizeOpen(false);
+      setConfirmation('');
+      loadReport();
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao anonimizar estudante'));
+    }
+  };
+
+  const openHistory = (entityType: RevisionEntityType, record: Adaptation | Report) => {
+    setHistoryTarget({ entityType, entityId: record.id, version: versionOf(record) });
+    setHistoryOpen(true);
+  };
+
   const handlePrint = () => {
     window.print();
   };
@@ -158,6 +262,17 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
     return <Badge variant={variant as any}>{label}</Badge>;
   };
 
+  const getStatusBadge = (adaptation: Adaptation) => {
+    const status = adaptationStatus(adaptation);
+    const variants: Record<AdaptationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+      ended: 'outline',
+      overdue: 'destructive',
+      due: 'secondary',
+      ok: 'default',
+    };
+    return <Badge variant={variants[status]}>{ADAPTATION_STATUS_LABELS[status]}</Badge>;
+  };
+
   const formatDate = (dateString?: string | null) => {
     if (!dateString) return 'Data não informada';
     const d = new Date(dateString);
@@ -203,10 +318,26 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
             <ArrowLeft className="size-4" />
             Voltar
           </Button>
-          <Button variant="outline" onClick={handlePrint} className="gap-2">
-            <Printer className="size-4" />
-            Imprimir
-          </Button>
+          <div className="flex gap-2">
+            {isCoordinator && (
+              <>
+                <Button variant="outline" onClick={handleExportData} disabled={exporting} className="gap-2">
+                  <Download className="size-4" />
+                  {exporting ? 'Exportando...' : 'Exportar dados (LGPD)'}
+                </Button>
+                {!data.student?.anonymizedAt && (
+                  <Button variant="outline" onClick={() => setAnonymizeOpen(true)} className="gap-2 text-red-600">
+                    <UserX className="size-4" />
+                    Anonimizar
+                  </Button>
+                )}
+              </>
+            )}
+            <Button variant="outline" onClick={handlePrint} className="gap-2">
+              <Printer className="size-4" />
+              Imprimir
+            </Button>
+          </div>
         </div>
 
         {/* Student Info */}
@@ -284,33 +415,48 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
                   {adaptations.map((adaptation) => (
                   <div key={adaptation.id} className="border rounded-lg p-4">
                     <div className="flex justify-between items-start mb-2">
-                      <div className="flex items-center gap-2">
+                      <div className="flex flex-wrap items-center gap-2">
                         <Calendar className="size-4 text-gray-500" />
                         <span className="text-sm text-gray-600">
                           {formatDate(adaptation.date)}
                         </span>
+                        {getStatusBadge(adaptation)}
+                        <span className="text-sm text-gray-600">
+                          Revisão: {formatCalendarDate(reviewDateOf(adaptation))}
+                          {adaptation.endDate && ` · Término: ${formatCalendarDate(adaptation.endDate)}`}
+                        </span>
+                      </div>
+                      <div className="flex gap-2 print:hidden">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openHistory('adaptation', adaptation)}
+                          title="Histórico de revisões"
+                        >
+                          <History className="size-4" />
+                        </Button>
+                        {isCoordinator && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingAdaptation(adaptation);
+                                setAdaptationFormOpen(true);
+                              }}
+                            >
+                              <Edit className="size-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteAdaptation(adaptation)}
+                            >
+                              <Trash2 className="size-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
                       </div>
-                      {isCoordinator && (
-                        <div className="flex gap-2 print:hidden">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => {
-                              setEditingAdaptation(adaptation);
-                              setAdaptationFormOpen(true);
-                            }}
-                          >
-                            <Edit className="size-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteAdaptation(adaptation)}
-                          >
-                            <Trash2 className="size-4 text-destructive" />
-                          </Button>
-                        </div>
-                      )}
                     </div>
                     <div className="space-y-2">
                       <div>
@@ -365,33 +511,52 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
                           <span>{report.teacherName || user?.name || 'Professor(a)'}</span>
                           <Badge variant="outline">{report.subject || 'Disciplina'}</Badge>
                           {getResultBadge(report.result)}
+                          {report.shared && <Badge variant="secondary">Compartilhado</Badge>}
                         </div>
                         <div className="flex items-center gap-2 text-sm text-gray-600">
                           <Calendar className="size-3" />
                           {formatDate(report.date)}
                         </div>
                       </div>
-                      {user?.id === report.teacherId && (
-                        <div className="flex gap-2 print:hidden">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => {
-                              setEditingReport(report);
-                              setReportFormOpen(true);
-                            }}
-                          >
-                            <Edit className="size-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteReport(report)}
-                          >
-                            <Trash2 className="size-4 text-destructive" />
-                          </Button>
-                        </div>
-                      )}
+                      <div className="flex gap-2 items-center print:hidden">
+                        {isCoordinator && (
+                          <Switch
+                            checked={report.shared === true}
+                            onCheckedChange={(checked: boolean) => handleToggleShared(report, checked)}
+                            aria-label="Compartilhar com os responsáveis"
+                            title="Compartilhar com os responsáveis"
+                          />
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openHistory('report', report)}
+                          title="Histórico de revisões"
+                        >
+                          <History className="size-4" />
+                        </Button>
+                        {user?.id === report.teacherId && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingReport(report);
+                                setReportFormOpen(true);
+                              }}
+                            >
+                              <Edit className="size-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteReport(report)}
+                            >
+                              <Trash2 className="size-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
                     </div>
                     <p className="whitespace-pre-wrap">{report.description}</p>
                   </div>
@@ -419,6 +584,62 @@ export function StudentReport({ studentId, onBack }: StudentReportProps) {
         onOpenChange={setReportFormOpen}
         onSuccess={loadReport}
       />
+
+      {historyTarget && (
+        <RevisionHistory
+          entityType={historyTarget.entityType}
+          studentId={studentId}
+          entityId={historyTarget.entityId}
+          version={historyTarget.version}
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          canRestore={isCoordinator}
+          onRestored={(version) => {
+            setHistoryTarget({ ...historyTarget, version });
+            loadReport();
+          }}
+        />
+      )}
+
+      <AlertDialog
+        open={anonymizeOpen}
+        onOpenChange={(open: boolean) => {
+          setAnonymizeOpen(open);
+          if (!open) setConfirmation('');
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Anonimizar estudante?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Nome, data de nascimento, matrícula e dados do responsável de {data.student?.name} serão apagados,
+              assim como as menções a eles nas adaptações, relatos e auditoria, e o histórico de revisões.
+              Curso, turma, adaptações e relatos continuam nos indicadores. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="anonymizeConfirmation">
+              Digite a matrícula <strong>{data.student?.registrationNumber}</strong> para confirmar
+            </Label>
+            <Input
+              id="anonymizeConfirmation"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleAnonymize}
+              disabled={confirmation !== data.student?.registrationNumber}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Anonimizar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </>
   );
 }
@@ -1,89 +1,68 @@
 import { useState, useEffect } from 'react';
 import { StudentReport } from './StudentReport';
-import type { Student } from '../types';
+import { MyReports } from './MyReports';
+import type { StudentListItem } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription } from './ui/alert';
-import { Search, Eye, FileCheck } from 'lucide-react';
+import { Checkbox } from './ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Search, Eye, FileCheck, FileText } from 'lucide-react';
 import { api } from '../lib/api';
 
+const FILTER_DEBOUNCE_MS = 300;
+
 export function TeacherDashboard() {
-  const [students, setStudents] = useState<Student[]>([]);
-  const [studentsWithAdaptations, setStudentsWithAdaptations] = useState<Set<string>>(new Set());
-  const [filteredStudents, setFilteredStudents] = useState<Student[]>([]);
+  const [students, setStudents] = useState<StudentListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState('');
   const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+  // Kept here so coming back from a student returns to the tab it was opened from
+  const [tab, setTab] = useState('students');
   
   // Filters
   const [nameFilter, setNameFilter] = useState('');
   const [courseFilter, setCourseFilter] = useState('');
   const [classFilter, setClassFilter] = useState('');
+  const [onlyWithAdaptations, setOnlyWithAdaptations] = useState(false);
 
+  // Filters are applied by the server; wait for the user to stop typing
   useEffect(() => {
-    loadStudents();
-  }, []);
-
-  useEffect(() => {
-    filterStudents();
-  }, [students, studentsWithAdaptations, nameFilter, courseFilter, classFilter]);
+    const timer = setTimeout(() => loadStudents(), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [nameFilter, courseFilter, classFilter, onlyWithAdaptations]);
 
-  async function loadStudents() {
+  async function loadStudents(cursor: string | null = null) {
     try {
-      setLoading(true);
-      setError('');
-      const allStudents = await api.getStudents();
-
-      // Check which students have adaptations
-      const studentsWithAdaps = new Set<string>();
-      for (const student of allStudents) {
-        try {
-          const adaptations = await api.getAdaptations(student.id);
-          if (Array.isArray(adaptations) && adaptations.length > 0) {
-            studentsWithAdaps.add(student.id);
-          }
-        } catch (err) {
-          // Ignore individual adaptation load errors, continue with next student
-          console.warn(`Erro ao carregar adaptações para estudante ${student.id}:`, err);
-        }
+      if (cursor) {
+        setLoadingMore(true);
       }
-
-      setStudents(allStudents);
-      setStudentsWithAdaptations(studentsWithAdaps);
+      setError('');
+      const page = await api.getStudentPage({
+        name: nameFilter,
+        course: courseFilter,
+        class: classFilter,
+        hasAdaptations: onlyWithAdaptations || undefined,
+        cursor,
+      });
+      setStudents(prev => (cursor ? [...prev, ...page.students] : page.students));
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
     } catch (err: any) {
       setError(err.message || 'Erro ao carregar estudantes');
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   }
 
-  function filterStudents() {
-    // Show ALL students (not just those with adaptations)
-    let filtered = students;
-
-    if (nameFilter) {
-      filtered = filtered.filter(s => 
-        s.name.toLowerCase().includes(nameFilter.toLowerCase())
-      );
-    }
-
-    if (courseFilter) {
-      filtered = filtered.filter(s => 
-        s.course.toLowerCase().includes(courseFilter.toLowerCase())
-      );
-    }
-
-    if (classFilter) {
-      filtered = filtered.filter(s => 
-        s.class.toLowerCase().includes(classFilter.toLowerCase())
-      );
-    }
-
-    setFilteredStudents(filtered);
-  }
+  const hasFilters = Boolean(nameFilter || courseFilter || classFilter || onlyWithAdaptations);
 
   if (selectedStudentId) {
     return (
@@ -94,16 +73,6 @@ export function TeacherDashboard() {
     );
   }
 
-  if (loading) {
-    return (
-      <Card>
-        <CardContent className="py-8">
-          <p className="text-center text-gray-500">Carregando estudantes...</p>
-        </CardContent>
-      </Card>
-    );
-  }
-
   return (
     <div>
       <div className="mb-6">
@@ -113,103 +82,153 @@ export function TeacherDashboard() {
         </p>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <FileCheck className="size-5" />
+      <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="students" className="gap-2">
+            <FileCheck className="size-4" />
             Estudantes
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          {error && (
-            <Alert variant="destructive">
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
-          )}
-
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="nameFilter">Nome</Label>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-gray-400" />
-                <Input
-                  id="nameFilter"
-                  placeholder="Filtrar por nome"
-                  value={nameFilter}
-                  onChange={(e) => setNameFilter(e.target.value)}
-                  className="pl-9"
-                />
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="courseFilter">Curso</Label>
-              <Input
-                id="courseFilter"
-                placeholder="Filtrar por curso"
-                value={courseFilter}
-                onChange={(e) => setCourseFilter(e.target.value)}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="classFilter">Turma</Label>
-              <Input
-                id="classFilter"
-                placeholder="Filtrar por turma"
-                value={classFilter}
-                onChange={(e) => setClassFilter(e.target.value)}
-              />
-            </div>
-          </div>
-
-          {filteredStudents.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-gray-500">
-                {students.length === 0 
-                  ? 'Nenhum estudante cadastrado'
-                  : 'Nenhum estudante encontrado com os filtros aplicados'}
-              </p>
-            </div>
+          </TabsTrigger>
+          <TabsTrigger value="reports" className="gap-2">
+            <FileText className="size-4" />
+            Meus Relatos
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="students">
+          {loading ? (
+            <Card>
+              <CardContent className="py-8">
+                <p className="text-center text-gray-500">Carregando estudantes...</p>
+              </CardContent>
+            </Card>
           ) : (
-            <div className="space-y-2">
-              {filteredStudents.map((student) => (
-                <div
-                  key={student.id}
-                  className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors"
-                >
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-1">
-                      <h3>{student.name}</h3>
-                      <Badge variant="outline">{student.registrationNumber}</Badge>
-                      {studentsWithAdaptations.has(student.id) && (
-                        <Badge variant="default" className="gap-1">
-                          <FileCheck className="size-3" />
-                          Com Adaptações
-                        </Badge>
-                      )}
-                    </div>
-                    <div className="flex gap-4 text-sm text-gray-600">
-                      <span>Curso: {student.course}</span>
-                      <span>Turma: {student.class}</span>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileCheck className="size-5" />
+                  Estudantes
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="nameFilter">Nome</Label>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-gray-400" />
+                      <Input
+                        id="nameFilter"
+                        placeholder="Filtrar por nome"
+                        value={nameFilter}
+                        onChange={(e) => setNameFilter(e.target.value)}
+                        className="pl-9"
+                      />
                     </div>
                   </div>
 
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setSelectedStudentId(student.id)}
-                    className="gap-2"
-                  >
-                    <Eye className="size-4" />
-                    Visualizar
-                  </Button>
+                  <div className="space-y-2">
+                    <Label htmlFor="courseFilter">Curso</Label>
+                    <Input
+                      id="courseFilter"
+                      placeholder="Filtrar por curso"
+                      value={courseFilter}
+                      onChange={(e) => setCourseFilter(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="classFilter">Turma</Label>
+                    <Input
+                      id="classFilter"
+                      placeholder="Filtrar por turma"
+                      value={classFilter}
+                      onChange={(e) => setClassFilter(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="onlyWithAdaptations"
+                    checked={onlyWithAdaptations}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => setOnlyWithAdaptations(checked === true)}
+                  />
+                  <Label htmlFor="onlyWithAdaptations">Apenas estudantes com adaptações</Label>
                 </div>
-              ))}
-            </div>
+
+                {students.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">
+                      {!hasFilters
+                        ? 'Nenhum estudante nas suas turmas. Se faltar alguma turma, procure a coordenação.'
+                        : 'Nenhum estudante encontrado com os filtros aplicados'}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {students.map((student) => (
+                      <div
+                        key={student.id}
+                        className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3>{student.name}</h3>
+                            <Badge variant="outline">{student.registrationNumber}</Badge>
+                            {student.adaptationCount > 0 && (
+                              <Badge variant="default" className="gap-1">
+                                <FileCheck className="size-3" />
+                                Com Adaptações
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex gap-4 text-sm text-gray-600">
+                            <span>Curso: {student.course}</span>
+                            <span>Turma: {student.class}</span>
+                          </div>
+                        </div>
+
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelectedStudentId(student.id)}
+                          className="gap-2"
+                        >
+                          <Eye className="size-4" />
+                          Visualizar
+                        </Button>
+                      </div>
+                    ))}
+
+                    <div className="flex items-center justify-between pt-2 text-sm text-gray-600">
+                      <span>Exibindo {students.length} de {total} estudantes</span>
+                      {nextCursor && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => loadStudents(nextCursor)}
+                          disabled={loadingMore}
+                        >
+                          {loadingMore ? 'Carregando...' : 'Carregar mais'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           )}
-        </CardContent>
-      </Card>
+        </TabsContent>
+
+        <TabsContent value="reports">
+          <MyReports onOpenStudent={setSelectedStudentId} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
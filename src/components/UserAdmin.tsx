@@ -0,0 +1,404 @@
+import { useState, useEffect } from 'react';
+import { api, errorMessage } from '../lib/api';
+import { getLocalUsers } from '../lib/storage';
+import { ROLE_LABELS } from '../lib/users';
+import {
+  fieldErrorMap,
+  fieldErrorsFromResponse,
+  MIN_PASSWORD_LENGTH,
+  validatePassword,
+  validateStudentLinks,
+  validateUser,
+} from '../lib/validation';
+import { useAuth } from '../contexts/AuthContext';
+import type { Student, User, UserRole } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Checkbox } from './ui/checkbox';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Edit, KeyRound, Link2, UserCog } from 'lucide-react';
+import { toast } from 'sonner';
+
+const ROLE_VARIANTS: Record<UserRole, 'default' | 'secondary' | 'outline'> = {
+  coordenador: 'default',
+  professor: 'secondary',
+  responsavel: 'outline',
+};
+
+// Letters and digits that cannot be mistaken for each other when dictated
+const PASSWORD_CHARS = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+function generatePassword(length = 10) {
+  const values = crypto.getRandomValues(new Uint32Array(length));
+  return Array.from(values, (v) => PASSWORD_CHARS[v % PASSWORD_CHARS.length]).join('');
+}
+
+export function UserAdmin() {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [localOnly, setLocalOnly] = useState(false);
+
+  // Edit dialog
+  const [editing, setEditing] = useState<User | null>(null);
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<UserRole>('professor');
+
+  // Password reset dialog
+  const [resetting, setResetting] = useState<User | null>(null);
+  const [password, setPassword] = useState('');
+
+  // Guardian links dialog
+  const [linking, setLinking] = useState<User | null>(null);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [linkedIds, setLinkedIds] = useState<string[]>([]);
+  const [studentSearch, setStudentSearch] = useState('');
+
+  const [saving, setSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  async function loadUsers() {
+    setLoading(true);
+    try {
+      setUsers(await api.getUsers());
+      setLocalOnly(false);
+    } catch {
+      // remote unavailable - the local accounts are fixed and read-only
+      setUsers(getLocalUsers());
+      setLocalOnly(true);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const replaceUser = (updated: User) => {
+    setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+  };
+
+  const openEdit = (user: User) => {
+    setEditing(user);
+    setName(user.name);
+    setRole(user.role);
+    setFieldErrors({});
+  };
+
+  const openReset = (user: User) => {
+    setResetting(user);
+    setPassword(generatePassword());
+    setFieldErrors({});
+  };
+
+  const openLinks = async (user: User) => {
+    setLinking(user);
+    setLinkedIds(user.studentIds || []);
+    setStudentSearch('');
+    setFieldErrors({});
+    try {
+      const list: Student[] = await api.getStudents();
+      setStudents(list.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao carregar estudantes'));
+    }
+  };
+
+  const toggleLinked = (studentId: string, checked: boolean) => {
+    setLinkedIds((prev) => (checked ? [...prev, studentId] : prev.filter((id) => id !== studentId)));
+  };
+
+  const handleSaveLinks = async () => {
+    if (!linking) return;
+    const errors = validateStudentLinks(linkedIds);
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) return;
+
+    setSaving(true);
+    try {
+      replaceUser(await api.setGuardianStudents(linking.id, linkedIds));
+      toast.success('Estudantes vinculados atualizados');
+      setLinking(null);
+    } catch (err) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
+      toast.error(errorMessage(err, 'Erro ao vincular estudantes'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const visibleStudents = students.filter((s) =>
+    s.name.toLowerCase().includes(studentSearch.trim().toLowerCase())
+  );
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { data, errors } = validateUser({ name, role });
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) return;
+
+    setSaving(true);
+    try {
+      replaceUser(await api.updateUser(editing.id, data));
+      toast.success('Usuário atualizado com sucesso!');
+      setEditing(null);
+    } catch (err) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
+      toast.error(errorMessage(err, 'Erro ao atualizar usuário'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (user: User, active: boolean) => {
+    try {
+      replaceUser(await api.setUserActive(user.id, active));
+      toast.success(active ? `${user.name} reativado(a)` : `${user.name} desativado(a)`);
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao alterar a situação do usuário'));
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetting) return;
+    const errors = validatePassword(password);
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) return;
+
+    setSaving(true);
+    try {
+      await api.resetUserPassword(resetting.id, password);
+      toast.success(`Senha de ${resetting.name} redefinida. Informe a nova senha ao usuário.`);
+      setResetting(null);
+    } catch (err) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
+      toast.error(errorMessage(err, 'Erro ao redefinir senha'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCog className="size-5" />
+          Usuários
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {localOnly && (
+          <Alert>
+            <AlertDescription>
+              Servidor indisponível. Exibindo as contas deste navegador, que não podem ser alteradas.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando usuários...</p>
+        ) : users.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Nenhum usuário cadastrado</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>E-mail</TableHead>
+                <TableHead>Perfil</TableHead>
+                <TableHead>Ativo</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => {
+                const isSelf = user.id === currentUser?.id;
+                return (
+                  <TableRow key={user.id} className={user.deactivatedAt ? 'text-gray-500' : undefined}>
+                    <TableCell>
+                      {user.name}
+                      {isSelf && <span className="text-sm text-gray-500"> (você)</span>}
+                      {user.role === 'responsavel' && (
+                        <p className="text-sm text-gray-500">{(user.studentIds || []).length} estudante(s) vinculado(s)</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={ROLE_VARIANTS[user.role] || 'secondary'}>
+                        {ROLE_LABELS[user.role] || user.role}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={!user.deactivatedAt}
+                        onCheckedChange={(checked: boolean) => handleToggleActive(user, checked)}
+                        disabled={localOnly || isSelf}
+                        aria-label={user.deactivatedAt ? 'Reativar conta' : 'Desativar conta'}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.role === 'responsavel' && (
+                        <Button variant="ghost" size="sm" onClick={() => openLinks(user)} disabled={localOnly} title="Estudantes vinculados">
+                          <Link2 className="size-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(user)} disabled={localOnly} title="Editar">
+                        <Edit className="size-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openReset(user)} disabled={localOnly} title="Redefinir senha">
+                        <KeyRound className="size-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open: boolean) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Editar usuário</DialogTitle>
+            <DialogDescription>{editing?.email}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="userName">Nome *</Label>
+              <Input id="userName" value={name} onChange={(e) => setName(e.target.value)} disabled={saving} />
+              {fieldErrors.name && <p className="text-sm text-destructive">{fieldErrors.name}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="userRole">Perfil *</Label>
+              <Select
+                value={role}
+                onValueChange={(value: string) => setRole(value as UserRole)}
+                disabled={saving || editing?.id === currentUser?.id}
+              >
+                <SelectTrigger id="userRole">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {editing?.id === currentUser?.id && (
+                <p className="text-sm text-gray-500">Você não pode alterar o próprio perfil de acesso.</p>
+              )}
+              {fieldErrors.role && <p className="text-sm text-destructive">{fieldErrors.role}</p>}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Salvando...' : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={resetting !== null} onOpenChange={(open: boolean) => !open && setResetting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Redefinir senha</DialogTitle>
+            <DialogDescription>
+              Nova senha de {resetting?.name}. Anote-a antes de confirmar: ela não será exibida novamente.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="userPassword">Nova senha *</Label>
+            <div className="flex gap-2">
+              <Input
+                id="userPassword"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={saving}
+                className="font-mono"
+              />
+              <Button type="button" variant="outline" onClick={() => setPassword(generatePassword())} disabled={saving}>
+                Gerar
+              </Button>
+            </div>
+            <p className="text-sm text-gray-500">Mínimo de {MIN_PASSWORD_LENGTH} caracteres.</p>
+            {fieldErrors.password && <p className="text-sm text-destructive">{fieldErrors.password}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetting(null)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleResetPassword} disabled={saving}>
+              {saving ? 'Salvando...' : 'Redefinir senha'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={linking !== null} onOpenChange={(open: boolean) => !open && setLinking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Estudantes vinculados</DialogTitle>
+            <DialogDescription>
+              {linking?.name} verá apenas as adaptações ativas e os relatos compartilhados destes estudantes.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Input
+              placeholder="Buscar estudante"
+              value={studentSearch}
+              onChange={(e) => setStudentSearch(e.target.value)}
+              disabled={saving}
+            />
+            <div className="max-h-64 overflow-y-auto space-y-2 border rounded-md p-3">
+              {visibleStudents.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhum estudante encontrado</p>
+              ) : (
+                visibleStudents.map((student) => (
+                  <div key={student.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`link-${student.id}`}
+                      checked={linkedIds.includes(student.id)}
+                      onCheckedChange={(checked: boolean | 'indeterminate') => toggleLinked(student.id, checked === true)}
+                      disabled={saving}
+                    />
+                    <Label htmlFor={`link-${student.id}`}>
+                      {student.name} <span className="text-sm text-gray-500">({student.course} - {student.class})</span>
+                    </Label>
+                  </div>
+                ))
+              )}
+            </div>
+            {fieldErrors.studentIds && <p className="text-sm text-destructive">{fieldErrors.studentIds}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLinking(null)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveLinks} disabled={saving}>
+              {saving ? 'Salvando...' : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
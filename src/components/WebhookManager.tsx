@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from 'react';
+import { api, errorMessage } from '../lib/api';
+import { DELIVERY_STATUS_LABELS, SIGNATURE_HEADER, WEBHOOK_EVENT_LABELS, WEBHOOK_EVENTS } from '../lib/webhooks';
+import { fieldErrorMap, fieldErrorsFromResponse, validateWebhook } from '../lib/validation';
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEventType, WebhookInput } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Checkbox } from './ui/checkbox';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Copy, List, RotateCcw, Send, Trash2, Webhook as WebhookIcon } from 'lucide-react';
+import { toast } from 'sonner';
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  success: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+function formatDateTime(value?: string) {
+  return value ? new Date(value).toLocaleString('pt-BR') : '—';
+}
+
+export function WebhookManager() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // New subscription
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  // Delivery log dialog
+  const [logWebhook, setLogWebhook] = useState<Webhook | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, []);
+
+  async function loadWebhooks() {
+    setLoading(true);
+    try {
+      setWebhooks(await api.getWebhooks());
+      setError('');
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar webhooks'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const replaceWebhook = (updated: Webhook) => {
+    setWebhooks((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+  };
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, event] : prev.filter((e) => e !== event)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { data, errors } = validateWebhook({ url, description, events });
+    setFieldErrors(fieldErrorMap(errors));
+    if (errors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const webhook = await api.createWebhook(data as WebhookInput);
+      setWebhooks((prev) => [...prev, webhook]);
+      setUrl('');
+      setDescription('');
+      setEvents([]);
+      toast.success('Webhook criado. Configure o segredo no sistema receptor.');
+    } catch (err) {
+      setFieldErrors(fieldErrorMap(fieldErrorsFromResponse(err)));
+      toast.error(errorMessage(err, 'Erro ao criar webhook'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook, active: boolean) => {
+    try {
+      replaceWebhook(await api.updateWebhook(webhook.id, { active }));
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao atualizar webhook'));
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`Excluir o webhook ${webhook.url} e seu histórico de entregas?`)) return;
+    try {
+      await api.deleteWebhook(webhook.id);
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+      toast.success('Webhook excluído');
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao excluir webhook'));
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      const delivery = await api.testWebhook(webhook.id);
+      if (delivery.status === 'success') {
+        toast.success(`Teste entregue (HTTP ${delivery.responseStatus})`);
+      } else {
+        toast.error(`Falha no teste: ${delivery.error}`);
+      }
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao testar webhook'));
+    }
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success('Segredo copiado');
+    } catch {
+      toast.error('Não foi possível copiar o segredo');
+    }
+  };
+
+  const openLog = async (webhook: Webhook) => {
+    setLogWebhook(webhook);
+    setLoadingDeliveries(true);
+    try {
+      setDeliveries(await api.getWebhookDeliveries(webhook.id));
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao carregar entregas'));
+      setDeliveries([]);
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  };
+
+  const handleRetry = async (delivery: WebhookDelivery) => {
+    try {
+      const updated = await api.retryWebhookDelivery(delivery.webhookId, delivery.id);
+      setDeliveries((prev) => prev.map((d) => (d.id === updated.id ? updated : d)));
+      if (updated.status === 'success') {
+        toast.success('Entrega reenviada com sucesso');
+      } else {
+        toast.error(`Nova falha: ${updated.error}`);
+      }
+    } catch (err) {
+      toast.error(errorMessage(err, 'Erro ao reenviar entrega'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <WebhookIcon className="size-5" />
+          Webhooks
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-600">
+          Outros sistemas da escola podem ser avisados quando estudantes, adaptações e relatos mudam. Cada entrega é
+          assinada com o segredo do webhook (cabeçalho {SIGNATURE_HEADER}) e repetida automaticamente em caso de falha.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4 border rounded-lg p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhookUrl">URL *</Label>
+              <Input
+                id="webhookUrl"
+                placeholder="https://secretaria.escola.com/webhooks"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                disabled={saving}
+              />
+              {fieldErrors.url && <p className="text-sm text-destructive">{fieldErrors.url}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="webhookDescription">Descrição</Label>
+              <Input
+                id="webhookDescription"
+                placeholder="Ex: Sistema da equipe de AEE"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={saving}
+              />
+              {fieldErrors.description && <p className="text-sm text-destructive">{fieldErrors.description}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Eventos *</Label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {WEBHOOK_EVENTS.map((event) => (
+                <div key={event} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`event-${event}`}
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => toggleEvent(event, checked === true)}
+                    disabled={saving}
+                  />
+                  <Label htmlFor={`event-${event}`} className="font-normal">
+                    {WEBHOOK_EVENT_LABELS[event]} <code className="text-xs text-gray-500">{event}</code>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {fieldErrors.events && <p className="text-sm text-destructive">{fieldErrors.events}</p>}
+          </div>
+
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Salvando...' : 'Criar webhook'}
+          </Button>
+        </form>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Carregando webhooks...</p>
+        ) : webhooks.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Nenhum webhook configurado</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Eventos</TableHead>
+                <TableHead>Segredo</TableHead>
+                <TableHead>Ativo</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow key={webhook.id}>
+                  <TableCell className="whitespace-normal">
+                    <p className="font-mono text-sm break-all">{webhook.url}</p>
+                    {webhook.description && <p className="text-sm text-gray-500">{webhook.description}</p>}
+                  </TableCell>
+                  <TableCell className="whitespace-normal">
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="outline">{event}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => handleCopySecret(webhook.secret)} title="Copiar segredo">
+                      <Copy className="size-4" />
+                    </Button>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.active}
+                      onCheckedChange={(checked: boolean) => handleToggleActive(webhook, checked)}
+                      aria-label={webhook.active ? 'Pausar webhook' : 'Ativar webhook'}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleTest(webhook)} title="Enviar teste">
+                      <Send className="size-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => openLog(webhook)} title="Entregas">
+                      <List className="size-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(webhook)} title="Excluir">
+                      <Trash2 className="size-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={logWebhook !== null} onOpenChange={(open: boolean) => !open && setLogWebhook(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Entregas</DialogTitle>
+            <DialogDescription className="break-all">{logWebhook?.url}</DialogDescription>
+          </DialogHeader>
+
+          {loadingDeliveries ? (
+            <p className="text-center text-gray-500 py-8">Carregando entregas...</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Nenhuma entrega registrada</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Evento</TableHead>
+                    <TableHead>Situação</TableHead>
+                    <TableHead>Tentativas</TableHead>
+                    <TableHead>Resposta</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell>{formatDateTime(delivery.createdAt)}</TableCell>
+                      <TableCell className="font-mono text-sm">{delivery.event}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[delivery.status]}>{DELIVERY_STATUS_LABELS[delivery.status]}</Badge>
+                        {delivery.nextAttemptAt && (
+                          <p className="text-xs text-gray-500">Próxima: {formatDateTime(delivery.nextAttemptAt)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="whitespace-normal text-sm">
+                        {delivery.error || (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—')}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {delivery.status !== 'success' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRetry(delivery)} title="Reenviar agora">
+                            <RotateCcw className="size-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
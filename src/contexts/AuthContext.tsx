@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import type { User } from '../types';
-import { authStorage, initializeDefaultUsers, initializeDefaultData } from '../lib/storage';
+import { authStorage, initializeDefaultUsers, initializeDefaultData, migrateLocalStorage } from '../lib/storage';
 import { supabase } from '../lib/supabase';
 
 const API_URL = 'https://adaptacoescurriculares-api.onrender.com';
@@ -21,10 +21,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Initialize defaults and sample data, keep auth strictly local
-    initializeDefaultUsers();
-    initializeDefaultData();
-    checkSession();
+    // Upgrade what this browser stored under older schema versions first, then
+    // initialize defaults and sample data, keep auth strictly local
+    migrateLocalStorage()
+      .catch((error) => console.error('Error migrating local data:', error))
+      .finally(() => {
+        initializeDefaultUsers();
+        initializeDefaultData();
+        checkSession();
+      });
   }, []);
 
   function checkSession() {
@@ -0,0 +1,102 @@
+// Revisão periódica das adaptações curriculares
+// - toda adaptação tem data de revisão (padrão: um semestre após o registro) e pode ter data de término
+// - situação: encerrada (término passou), atrasada, próxima (até REVIEW_WARNING_DAYS dias) ou em dia
+// - datas comparadas como dias do calendário (yyyy-mm-dd), sem fuso horário
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Adaptation, AdaptationStatus, PendingReview, Student } from '../types/index.ts';
+
+export const REVIEW_INTERVAL_MONTHS = 6;
+
+// Reviews this close count as due and trigger reminders
+export const REVIEW_WARNING_DAYS = 14;
+
+export const ADAPTATION_STATUS_LABELS: Record<AdaptationStatus, string> = {
+  ended: 'Encerrada',
+  overdue: 'Revisão atrasada',
+  due: 'Revisão próxima',
+  ok: 'Em vigor',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+function toCalendarDate(value: string) {
+  return value.slice(0, 10);
+}
+
+function toUtc(date: string) {
+  const [y, m, d] = toCalendarDate(date).split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+// Today in the local calendar (the browser's, or UTC on the server)
+export function today() {
+  const d = new Date();
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function daysBetween(from: string, to: string) {
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+}
+
+// Same day REVIEW_INTERVAL_MONTHS later, clamped to the end of shorter months
+export function defaultReviewDate(date: string) {
+  const [y, m, d] = toCalendarDate(date).split('-').map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + REVIEW_INTERVAL_MONTHS, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${target.getUTCFullYear()}-${pad(target.getUTCMonth() + 1)}-${pad(Math.min(d, lastDay))}`;
+}
+
+// dd/mm/yyyy without going through Date, which would shift the day west of UTC
+export function formatCalendarDate(date: string) {
+  const [y, m, d] = toCalendarDate(date).split('-');
+  return `${d}/${m}/${y}`;
+}
+
+export function reviewDateOf(adaptation: Pick<Adaptation, 'date' | 'reviewDate'>) {
+  return adaptation.reviewDate ? toCalendarDate(adaptation.reviewDate) : defaultReviewDate(adaptation.date);
+}
+
+export function adaptationStatus(adaptation: Pick<Adaptation, 'date' | 'reviewDate' | 'endDate'>, on = today()): AdaptationStatus {
+  if (adaptation.endDate && toCalendarDate(adaptation.endDate) < on) return 'ended';
+  const days = daysBetween(on, reviewDateOf(adaptation));
+  if (days < 0) return 'overdue';
+  if (days <= REVIEW_WARNING_DAYS) return 'due';
+  return 'ok';
+}
+
+// Still applied in class: neither archived nor past its end date
+export function isActiveAdaptation(adaptation: Adaptation, on = today()) {
+  return !adaptation.archivedAt && adaptationStatus(adaptation, on) !== 'ended';
+}
+
+// Active adaptations whose review is due or overdue, most urgent first
+export function pendingReviews(adaptations: Adaptation[], students: Student[], on = today()): PendingReview[] {
+  const studentsById = new Map(students.filter((s) => !s.archivedAt).map((s) => [s.id, s]));
+  const pending: PendingReview[] = [];
+
+  for (const adaptation of adaptations) {
+    const student = studentsById.get(adaptation.studentId);
+    if (!student || adaptation.archivedAt) continue;
+    const status = adaptationStatus(adaptation, on);
+    if (status !== 'due' && status !== 'overdue') continue;
+
+    const reviewDate = reviewDateOf(adaptation);
+    pending.push({
+      adaptation,
+      studentName: student.name,
+      course: student.course,
+      class: student.class,
+      status,
+      reviewDate,
+      daysUntilReview: daysBetween(on, reviewDate),
+    });
+  }
+
+  return pending.sort((a, b) => a.reviewDate.localeCompare(b.reviewDate) || a.studentName.localeCompare(b.studentName));
+}
@@ -1,9 +1,90 @@
 // Helper de fetch para a aplicação cliente
 // - adiciona timeout
 // - parseia JSON de forma segura
-// - lança erros padronizados com `status` e `body`
+// - lança erros padronizados com `status`, `body` e `requestId`; a mensagem termina com o
+//   código da requisição, que o suporte localiza nos logs do servidor
 
-const API_URL = 'https://adaptacoescurriculares-api.onrender.com';
+import type {
+  Adaptation,
+  AdaptationInput,
+  ArchivedStudent,
+  Assignment,
+  AssignmentInput,
+  AuditEntry,
+  GuardianStudentView,
+  Invitation,
+  InvitationInput,
+  InvitationRedemption,
+  Notification,
+  PendingReview,
+  Report,
+  ReportInput,
+  Revision,
+  RevisionEntityType,
+  Stats,
+  Student,
+  StudentInput,
+  StudentPage,
+  StudentReport,
+  TeacherReport,
+  User,
+  UserInput,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+} from '../types';
+import type { StudentQuery } from './studentQuery';
+import type { AuditFilter } from './audit';
+import type { StatsFilter } from './stats';
+import type { TeacherReportFilter } from './teacherReports';
+import type { StudentImportResult } from './studentImport';
+import type { MigrationResult, MigrationStatus } from './migrations';
+import type { BackupArchive, RestoreMode, RestoreResult } from './backup';
+import type { StudentDataExport } from './lgpd';
+import { ifMatchHeader } from './versioning';
+import { createApiClient } from './apiClient';
+import { supabase } from './supabase';
+import { projectId } from '../utils/supabase/info';
+
+// Edge function das rotas de lib/openapi.ts (API_PREFIX), publicada no projeto Supabase
+const API_URL = `https://${projectId}.supabase.co/functions/v1/make-server-2a0842b8`;
+
+// Monta a query string ignorando filtros vazios
+function toQueryString(params: object) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(key, String(value));
+    }
+  }
+  return search.toString();
+}
+
+// Erro de uma requisição: `status` e o corpo da resposta, para os formulários
+// mostrarem erros por campo e conflitos. O armazenamento local lança o mesmo erro
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+  requestId?: string;
+
+  constructor(message: string, status: number, body: unknown = null, requestId?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+    this.requestId = requestId;
+  }
+}
+
+// Mensagem de um erro capturado, ou `fallback` quando ele não traz nenhuma
+export function errorMessage(err: unknown, fallback: string) {
+  return err instanceof Error && err.message ? err.message : fallback;
+}
+
+// Começo do id da requisição, curto o bastante para ser ditado ao suporte
+export function referenceCode(requestId: string) {
+  return requestId.slice(0, 8);
+}
 
 export async function apiFetch(input: RequestInfo, init?: RequestInit, timeout = 10000) {
   const controller = new AbortController();
@@ -24,18 +105,19 @@ export async function apiFetch(input: RequestInfo, init?: RequestInit, timeout =
 
     if (!response.ok) {
       const message = (data && (data.error || data.message)) || response.statusText || 'Erro na requisição';
-      const error: any = new Error(message);
-      error.status = response.status;
-      error.body = data;
-      throw error;
+      const requestId: string | undefined = data?.requestId || response.headers.get('X-Request-Id') || undefined;
+      throw new ApiError(
+        requestId ? `${message} (código ${referenceCode(requestId)})` : message,
+        response.status,
+        data,
+        requestId
+      );
     }
 
     return data;
   } catch (err: any) {
     if (err && err.name === 'AbortError') {
-      const timeoutError: any = new Error('Tempo de requisição esgotado');
-      timeoutError.status = 408;
-      throw timeoutError;
+      throw new ApiError('Tempo de requisição esgotado', 408);
     }
     throw err;
   }
@@ -43,166 +125,151 @@ export async function apiFetch(input: RequestInfo, init?: RequestInit, timeout =
 
 export default apiFetch;
 
+// Cliente tipado gerado de lib/openapi.ts; `request` monta a URL e o corpo JSON e
+// envia o token da sessão do Supabase Auth (bearerAuth do documento)
+export const apiClient = createApiClient(async (method, path, { query, body, headers, timeout }) => {
+  const qs = query ? toQueryString(query) : '';
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  return apiFetch(`${API_URL}${path}${qs ? `?${qs}` : ''}`, {
+    method,
+    headers: {
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...headers,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  }, timeout);
+});
+
+// Sem acesso ao estudante (ou estudante inexistente) a lista fica vazia
+async function emptyOnNotFound<T>(load: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return await load();
+  } catch (err: any) {
+    if (err?.status === 404) return [];
+    throw err;
+  }
+}
+
 // Pequeno wrapper com métodos usados pela UI
 export const api = {
-  getStudents: async () => {
-    const res = await apiFetch(`${API_URL}/students`);
-    if (Array.isArray(res)) return res;
-    // Handle common API envelope shapes
-    if (res && typeof res === 'object') {
-      if (Array.isArray((res as any).value)) return (res as any).value;
-      if (Array.isArray((res as any).students)) return (res as any).students;
-    }
-    return [];
+  // Primeira página da listagem padrão
+  getStudents: async (): Promise<Student[]> => (await apiClient.listStudents()).students,
+  // Página de estudantes filtrada e ordenada no servidor
+  getStudentPage: async (query: StudentQuery): Promise<StudentPage> =>
+    apiClient.listStudents({ query: { ...query, cursor: query.cursor ?? undefined } }),
+  createStudent: async (student: StudentInput) => apiClient.createStudent({ body: student }),
+  // Importação em lote; com `dryRun` apenas valida e devolve a prévia por linha
+  importStudents: async (students: object[], dryRun: boolean): Promise<StudentImportResult> =>
+    apiClient.importStudents({ body: { students: students as Record<string, unknown>[], dryRun }, timeout: 60000 }),
+  // `version` é a versão carregada no formulário; o servidor responde 412 se outra pessoa salvou antes
+  updateStudent: async (studentId: string, updates: Partial<StudentInput>, version: number) =>
+    apiClient.updateStudent(studentId, { body: updates, headers: ifMatchHeader(version) }),
+  getAdaptations: async (studentId: string): Promise<Adaptation[]> =>
+    emptyOnNotFound(async () => (await apiClient.listAdaptations(studentId)).adaptations),
+  createAdaptation: async (adaptation: AdaptationInput) => apiClient.createAdaptation({ body: adaptation }),
+  updateAdaptation: async (studentId: string, adaptationId: string, updates: Partial<AdaptationInput>, version: number) =>
+    apiClient.updateAdaptation(studentId, adaptationId, { body: updates, headers: ifMatchHeader(version) }),
+  getReports: async (studentId: string): Promise<Report[]> =>
+    emptyOnNotFound(async () => (await apiClient.listStudentReports(studentId)).reports),
+  getStudentReport: async (studentId: string): Promise<StudentReport> => apiClient.getStudentReport(studentId),
+  // Relatos do professor em todos os estudantes; `teacherId` 'me' é o usuário autenticado
+  getTeacherReports: async (filter: TeacherReportFilter, teacherId = 'me'): Promise<TeacherReport[]> =>
+    (await apiClient.listTeacherReports({ query: { teacherId, ...filter } })).reports,
+  createReport: async (report: ReportInput) => apiClient.createReport({ body: report }),
+  updateReport: async (studentId: string, reportId: string, updates: Partial<ReportInput>, version: number) =>
+    apiClient.updateReport(studentId, reportId, { body: updates, headers: ifMatchHeader(version) }),
+  // Move para a lixeira (exclusão reversível)
+  deleteStudent: async (studentId: string, version: number) =>
+    apiClient.archiveStudent(studentId, { headers: ifMatchHeader(version) }),
+  getArchivedStudents: async (): Promise<ArchivedStudent[]> => (await apiClient.listArchivedStudents()).students,
+  restoreStudent: async (studentId: string) => apiClient.restoreStudent(studentId),
+  // Exclusão definitiva: o servidor exige a matrícula como confirmação
+  purgeStudent: async (studentId: string, registrationNumber: string) =>
+    apiClient.purgeStudent(studentId, { query: { confirm: registrationNumber } }),
+  // LGPD: pacote com todos os dados do estudante e anonimização (também confirmada pela matrícula)
+  exportStudentData: async (studentId: string): Promise<StudentDataExport> =>
+    apiClient.exportStudentData(studentId, { timeout: 60000 }),
+  anonymizeStudent: async (studentId: string, registrationNumber: string): Promise<Student> =>
+    (await apiClient.anonymizeStudent(studentId, { query: { confirm: registrationNumber } })).student,
+  deleteAdaptation: async (studentId: string, adaptationId: string, version: number) =>
+    apiClient.deleteAdaptation(studentId, adaptationId, { headers: ifMatchHeader(version) }),
+  deleteReport: async (studentId: string, reportId: string, version: number) =>
+    apiClient.deleteReport(studentId, reportId, { headers: ifMatchHeader(version) }),
+  getRevisions: async (entityType: RevisionEntityType, studentId: string, entityId: string): Promise<Revision[]> => {
+    const res = entityType === 'adaptation'
+      ? await apiClient.listAdaptationRevisions(studentId, entityId)
+      : await apiClient.listReportRevisions(studentId, entityId);
+    return res.revisions;
   },
-  createStudent: async (student: any) => apiFetch(`${API_URL}/students`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(student) }),
-  updateStudent: async (studentId: string, updates: any) => apiFetch(`${API_URL}/students/${studentId}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(updates) }),
-  getAdaptations: async (studentId: string) => {
-    try {
-      const res = await apiFetch(`${API_URL}/adaptations/${studentId}`);
-      if (Array.isArray(res)) return res;
-      // Handle envelope shapes
-      if (res && typeof res === 'object') {
-        if (Array.isArray((res as any).value)) return (res as any).value;
-        if (Array.isArray((res as any).adaptations)) return (res as any).adaptations;
-      }
-      return [];
-    } catch (err: any) {
-      // If 404, return empty array (no adaptations for this student)
-      if (err?.status === 404) return [];
-      throw err;
-    }
-  },
-  createAdaptation: async (adaptation: any) => apiFetch(`${API_URL}/adaptations`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(adaptation) }),
-  updateAdaptation: async (studentId: string, adaptationId: string, updates: any) => {
-    try {
-      return await apiFetch(`${API_URL}/adaptations/${adaptationId}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(updates) });
-    } catch (err: any) {
-      if (err?.status === 404) {
-        return await apiFetch(`${API_URL}/adaptations/${studentId}/${adaptationId}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(updates) });
-      }
-      throw err;
-    }
-  },
-  getReports: async (studentId: string) => {
-    try {
-      const res = await apiFetch(`${API_URL}/reports/${studentId}`);
-      if (Array.isArray(res)) return res;
-      // Handle envelope shapes
-      if (res && typeof res === 'object') {
-        if (Array.isArray((res as any).value)) return (res as any).value;
-        if (Array.isArray((res as any).reports)) return (res as any).reports;
-      }
-      return [];
-    } catch (err: any) {
-      // If 404, return empty array (no reports for this student)
-      if (err?.status === 404) return [];
-      throw err;
-    }
-  },
-  getStudentReport: async (studentId: string) => {
-    try {
-      const res = await apiFetch(`${API_URL}/reports/${studentId}`);
-
-      // If API already returned the aggregated object, normalize and return it
-      if (res && typeof res === 'object' && ('student' in res || 'reports' in res || 'adaptations' in res)) {
-        const student = (res as any).student ?? null;
-        const adaptations = (res as any).adaptations ?? [];
-        const reports = (res as any).reports ?? [];
-        return { student, adaptations, reports };
-      }
-
-      // If API returned an array, try to detect its type and assemble the full object
-      if (Array.isArray(res)) {
-        const first = res[0];
-
-        // If array looks like students list
-        if (first && (first.registrationNumber || first.birthDate || first.course)) {
-          const students: any[] = res;
-          const student = students.find((s) => String(s.id) === String(studentId)) || null;
-          const [adaptations, reports] = await Promise.all([
-            apiFetch(`${API_URL}/adaptations/${studentId}`).catch(() => []),
-            apiFetch(`${API_URL}/reports/${studentId}`).catch(() => []),
-          ]);
-          return { student, adaptations: adaptations || [], reports: reports || [] };
-        }
-
-        // If array looks like reports
-        if (first && (first.subject || first.teacherId || first.result)) {
-          const reports: any[] = res;
-          const studentsResp = await apiFetch(`${API_URL}/students`).catch(() => []);
-          const student = Array.isArray(studentsResp) ? studentsResp.find((s: any) => String(s.id) === String(studentId)) : null;
-          const adaptations = await apiFetch(`${API_URL}/adaptations/${studentId}`).catch(() => []);
-          return { student, adaptations: adaptations || [], reports: reports || [] };
-        }
-
-        // If array looks like adaptations
-        if (first && (first.justification || first.description)) {
-          const adaptations: any[] = res;
-          const studentsResp = await apiFetch(`${API_URL}/students`).catch(() => []);
-          const student = Array.isArray(studentsResp) ? studentsResp.find((s: any) => String(s.id) === String(studentId)) : null;
-          const reports = await apiFetch(`${API_URL}/reports/${studentId}`).catch(() => []);
-          return { student, adaptations: adaptations || [], reports: reports || [] };
-        }
-      }
-
-      // Fallback: try to fetch student, adaptations and reports separately
-      const [students, adaptations, reports] = await Promise.all([
-        apiFetch(`${API_URL}/students`).catch(() => []),
-        apiFetch(`${API_URL}/adaptations/${studentId}`).catch(() => []),
-        apiFetch(`${API_URL}/reports/${studentId}`).catch(() => []),
-      ]);
-      const student = Array.isArray(students) ? students.find((s: any) => String(s.id) === String(studentId)) : null;
-      return { student, adaptations: adaptations || [], reports: reports || [] };
-    } catch (err: any) {
-      // If the aggregated endpoint returned 404, assemble data from other endpoints
-      if (err?.status === 404) {
-        const [students, adaptations, reports] = await Promise.all([
-          apiFetch(`${API_URL}/students`).catch(() => []),
-          apiFetch(`${API_URL}/adaptations/${studentId}`).catch(() => []),
-          apiFetch(`${API_URL}/reports/${studentId}`).catch(() => []),
-        ]);
-        const student = Array.isArray(students) ? students.find((s: any) => String(s.id) === String(studentId)) : null;
-        return {
-          student,
-          adaptations: adaptations || [],
-          reports: reports || [],
-        };
-      }
-      throw err;
-    }
-  },
-  createReport: async (report: any) => apiFetch(`${API_URL}/reports`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(report) }),
-  updateReport: async (studentId: string, reportId: string, updates: any) => {
-    try {
-      return await apiFetch(`${API_URL}/reports/${reportId}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(updates) });
-    } catch (err: any) {
-      if (err?.status === 404) {
-        return await apiFetch(`${API_URL}/reports/${studentId}/${reportId}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(updates) });
-      }
-      throw err;
-    }
-  },
-  deleteStudent: async (studentId: string) => apiFetch(`${API_URL}/students/${studentId}`, { method: 'DELETE' }),
-  deleteAdaptation: async (studentId: string, adaptationId: string) => {
-    try {
-      return await apiFetch(`${API_URL}/adaptations/${adaptationId}`, { method: 'DELETE' });
-    } catch (err: any) {
-      if (err?.status === 404) {
-        return await apiFetch(`${API_URL}/adaptations/${studentId}/${adaptationId}`, { method: 'DELETE' });
-      }
-      throw err;
-    }
-  },
-  deleteReport: async (studentId: string, reportId: string) => {
-    try {
-      return await apiFetch(`${API_URL}/reports/${reportId}`, { method: 'DELETE' });
-    } catch (err: any) {
-      if (err?.status === 404) {
-        return await apiFetch(`${API_URL}/reports/${studentId}/${reportId}`, { method: 'DELETE' });
-      }
-      throw err;
-    }
+  // `version` é a do registro exibido; o servidor responde 412 se outra pessoa salvou antes
+  restoreRevision: async (
+    entityType: RevisionEntityType,
+    studentId: string,
+    entityId: string,
+    revision: number,
+    version: number
+  ): Promise<Adaptation | Report> => {
+    const options = { headers: ifMatchHeader(version) };
+    return entityType === 'adaptation'
+      ? (await apiClient.restoreAdaptationRevision(studentId, entityId, revision, options)).adaptation
+      : (await apiClient.restoreReportRevision(studentId, entityId, revision, options)).report;
   },
+  getAuditLog: async (filter: AuditFilter): Promise<AuditEntry[]> =>
+    (await apiClient.listAuditEntries({ query: filter })).entries,
+  getStats: async (filter: StatsFilter): Promise<Stats> => (await apiClient.getStats({ query: filter })).stats,
+  // Administração de usuários (coordenadores)
+  getUsers: async (): Promise<User[]> => (await apiClient.listUsers()).users,
+  updateUser: async (userId: string, updates: Partial<UserInput>): Promise<User> =>
+    (await apiClient.updateUser(userId, { body: updates })).user,
+  setUserActive: async (userId: string, active: boolean): Promise<User> =>
+    (await (active ? apiClient.reactivateUser(userId) : apiClient.deactivateUser(userId))).user,
+  setGuardianStudents: async (userId: string, studentIds: string[]): Promise<User> =>
+    (await apiClient.setGuardianStudents(userId, { body: { studentIds } })).user,
+  resetUserPassword: async (userId: string, password: string) =>
+    apiClient.resetUserPassword(userId, { body: { password } }),
+  // Convites (coordenadores); o resgate é público e cria a conta
+  getInvitations: async (): Promise<Invitation[]> => (await apiClient.listInvitations()).invitations,
+  createInvitation: async (invitation: InvitationInput): Promise<Invitation> =>
+    (await apiClient.createInvitation({ body: invitation })).invitation,
+  revokeInvitation: async (code: string) => apiClient.revokeInvitation(code),
+  redeemInvitation: async (redemption: InvitationRedemption & { password: string }): Promise<User> =>
+    (await apiClient.redeemInvitation({ body: redemption })).user,
+  // Relatos compartilhados com os responsáveis (coordenadores marcam)
+  setReportShared: async (studentId: string, reportId: string, shared: boolean): Promise<Report> =>
+    (await apiClient.shareReport(studentId, reportId, { body: { shared } })).report,
+  // Portal do responsável: estudantes vinculados, adaptações ativas e relatos compartilhados
+  getGuardianStudents: async (): Promise<GuardianStudentView[]> => (await apiClient.listGuardianStudents()).students,
+  // Atribuições de turmas: coordenadores gerenciam; professores recebem as próprias
+  getAssignments: async (teacherId?: string): Promise<Assignment[]> =>
+    (await apiClient.listAssignments({ query: { teacherId } })).assignments,
+  createAssignment: async (assignment: AssignmentInput): Promise<Assignment> =>
+    (await apiClient.createAssignment({ body: assignment })).assignment,
+  deleteAssignment: async (teacherId: string, assignmentId: string) => apiClient.deleteAssignment(teacherId, assignmentId),
+  // Revisões de adaptações vencidas ou próximas (coordenadores)
+  getPendingReviews: async (): Promise<PendingReview[]> => (await apiClient.listPendingReviews()).reviews,
+  sendReviewReminders: async (): Promise<{ reminded: number }> => apiClient.sendReviewReminders(),
+  // Caixa de saída de e-mails (coordenadores)
+  getNotifications: async (): Promise<Notification[]> => (await apiClient.listNotifications()).notifications,
+  processNotifications: async (): Promise<{ sent: number; failed: number }> => apiClient.processNotifications(),
+  // Webhooks de saída (coordenadores)
+  getWebhooks: async (): Promise<Webhook[]> => (await apiClient.listWebhooks()).webhooks,
+  createWebhook: async (webhook: WebhookInput): Promise<Webhook> => (await apiClient.createWebhook({ body: webhook })).webhook,
+  updateWebhook: async (webhookId: string, updates: Partial<WebhookInput>): Promise<Webhook> =>
+    (await apiClient.updateWebhook(webhookId, { body: updates })).webhook,
+  deleteWebhook: async (webhookId: string) => apiClient.deleteWebhook(webhookId),
+  getWebhookDeliveries: async (webhookId: string): Promise<WebhookDelivery[]> =>
+    (await apiClient.listWebhookDeliveries(webhookId)).deliveries,
+  testWebhook: async (webhookId: string): Promise<WebhookDelivery> => (await apiClient.testWebhook(webhookId)).delivery,
+  retryWebhookDelivery: async (webhookId: string, deliveryId: string): Promise<WebhookDelivery> =>
+    (await apiClient.retryWebhookDelivery(webhookId, deliveryId)).delivery,
+  // Migrações de esquema do servidor (coordenadores)
+  getMigrationStatus: async (): Promise<MigrationStatus> => apiClient.getMigrationStatus(),
+  runMigrations: async (dryRun = false): Promise<MigrationResult> =>
+    (await apiClient.runMigrations({ body: { dryRun } })).result,
+  // Cópia de segurança completa (coordenadores); o arquivo é validado inteiro antes de restaurar
+  getBackup: async (): Promise<BackupArchive> => apiClient.getBackup({ timeout: 60000 }),
+  restoreBackup: async (archive: unknown, mode: RestoreMode, dryRun: boolean): Promise<RestoreResult> =>
+    (await apiClient.restoreBackup({ body: { archive: archive as BackupArchive, mode, dryRun }, timeout: 60000 })).result,
 };
-
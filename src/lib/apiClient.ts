@@ -0,0 +1,239 @@
+// Gerado por src/scripts/generate-api-client.ts a partir de lib/openapi.ts. Não edite à mão.
+// Cliente tipado das rotas da edge function; `request` cuida de URL base, autenticação e erros.
+
+import type {
+  Adaptation,
+  AdaptationInput,
+  ArchivedStudent,
+  Assignment,
+  AssignmentInput,
+  AuditEntry,
+  GuardianStudentView,
+  Invitation,
+  InvitationInput,
+  InvitationRedemption,
+  Notification,
+  PendingReview,
+  Report,
+  ReportInput,
+  Revision,
+  Stats,
+  Student,
+  StudentInput,
+  StudentPage,
+  StudentReport,
+  TeacherReport,
+  User,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+} from '../types';
+import type { BackupArchive, RestoreResult } from './backup';
+import type { MigrationResult, MigrationStatus } from './migrations';
+import type { StudentDataExport } from './lgpd';
+import type { StudentImportResult } from './studentImport';
+
+export interface ApiRequestOptions {
+  query?: object;
+  body?: unknown;
+  headers?: Record<string, string>;
+  timeout?: number;
+}
+
+export type ApiRequest = (method: string, path: string, options: ApiRequestOptions) => Promise<unknown>;
+
+export function createApiClient(request: ApiRequest) {
+  return {
+    /** Cria uma conta de professor */
+    signUp: (options: { body: { email: string; password: string; name: string; role?: 'professor' }; timeout?: number }) =>
+      request('POST', '/signup', options) as Promise<{ user: { id: string; email?: string; user_metadata?: Record<string, unknown> } }>,
+    /** Cria a conta de um convite */
+    redeemInvitation: (options: { body: InvitationRedemption & { password: string }; timeout?: number }) =>
+      request('POST', '/signup/invitation', options) as Promise<{ user: User }>,
+    /** Perfil do usuário autenticado */
+    getProfile: (options: { timeout?: number } = {}) =>
+      request('GET', '/me', options) as Promise<{ user: User }>,
+    /** Lista os usuários por nome */
+    listUsers: (options: { timeout?: number } = {}) =>
+      request('GET', '/users', options) as Promise<{ users: User[] }>,
+    /** Altera nome e perfil de acesso */
+    updateUser: (id: string, options: { body: { name?: string; role?: 'coordenador' | 'professor' | 'responsavel' }; timeout?: number }) =>
+      request('PUT', `/users/${encodeURIComponent(id)}`, options) as Promise<{ user: User }>,
+    /** Define os estudantes que um responsável acompanha */
+    setGuardianStudents: (id: string, options: { body: { studentIds: string[] }; timeout?: number }) =>
+      request('PUT', `/users/${encodeURIComponent(id)}/students`, options) as Promise<{ user: User }>,
+    /** Desativa a conta */
+    deactivateUser: (id: string, options: { timeout?: number } = {}) =>
+      request('POST', `/users/${encodeURIComponent(id)}/deactivate`, options) as Promise<{ user: User }>,
+    /** Reativa a conta */
+    reactivateUser: (id: string, options: { timeout?: number } = {}) =>
+      request('POST', `/users/${encodeURIComponent(id)}/reactivate`, options) as Promise<{ user: User }>,
+    /** Define uma nova senha */
+    resetUserPassword: (id: string, options: { body: { password: string }; timeout?: number }) =>
+      request('POST', `/users/${encodeURIComponent(id)}/reset-password`, options) as Promise<{ user: User }>,
+    /** Lista os convites, mais recentes primeiro */
+    listInvitations: (options: { timeout?: number } = {}) =>
+      request('GET', '/invitations', options) as Promise<{ invitations: Invitation[] }>,
+    /** Cria um convite */
+    createInvitation: (options: { body: InvitationInput; timeout?: number }) =>
+      request('POST', '/invitations', options) as Promise<{ invitation: Invitation }>,
+    /** Revoga um convite ainda não utilizado */
+    revokeInvitation: (code: string, options: { timeout?: number } = {}) =>
+      request('DELETE', `/invitations/${encodeURIComponent(code)}`, options) as Promise<{ success: boolean }>,
+    /** Atribuições de turmas; professores recebem sempre as próprias */
+    listAssignments: (options: { query?: { teacherId?: string }; timeout?: number } = {}) =>
+      request('GET', '/assignments', options) as Promise<{ assignments: Assignment[] }>,
+    /** Atribui uma turma e disciplina a um professor */
+    createAssignment: (options: { body: AssignmentInput; timeout?: number }) =>
+      request('POST', '/assignments', options) as Promise<{ assignment: Assignment }>,
+    /** Remove uma atribuição */
+    deleteAssignment: (teacherId: string, id: string, options: { timeout?: number } = {}) =>
+      request('DELETE', `/assignments/${encodeURIComponent(teacherId)}/${encodeURIComponent(id)}`, options) as Promise<{ success: boolean }>,
+    /** Página de estudantes filtrada e ordenada */
+    listStudents: (options: { query?: { name?: string; course?: string; class?: string; hasAdaptations?: boolean; sort?: 'name' | 'registrationNumber' | 'course' | 'class' | 'createdAt'; order?: 'asc' | 'desc'; limit?: number; cursor?: string }; timeout?: number } = {}) =>
+      request('GET', '/students', options) as Promise<StudentPage>,
+    /** Cadastra um estudante */
+    createStudent: (options: { body: StudentInput; timeout?: number }) =>
+      request('POST', '/students', options) as Promise<{ student: Student }>,
+    /** Importa estudantes em lote; com `dryRun` apenas valida cada linha */
+    importStudents: (options: { body: { students: Record<string, unknown>[]; dryRun?: boolean }; timeout?: number }) =>
+      request('POST', '/students/import', options) as Promise<StudentImportResult>,
+    /** Dados de um estudante */
+    getStudent: (id: string, options: { timeout?: number } = {}) =>
+      request('GET', `/students/${encodeURIComponent(id)}`, options) as Promise<{ student: Student }>,
+    /** Altera um estudante */
+    updateStudent: (id: string, options: { body: { name?: string; course?: string; class?: string; birthDate?: string; registrationNumber?: string; guardianName?: string; guardianContact?: string }; headers: { 'If-Match': string }; timeout?: number }) =>
+      request('PUT', `/students/${encodeURIComponent(id)}`, options) as Promise<{ student: Student }>,
+    /** Move o estudante, com adaptações e relatos, para a lixeira */
+    archiveStudent: (id: string, options: { headers: { 'If-Match': string }; timeout?: number }) =>
+      request('DELETE', `/students/${encodeURIComponent(id)}`, options) as Promise<{ success: boolean }>,
+    /** Adaptações de um estudante */
+    listAdaptations: (studentId: string, options: { timeout?: number } = {}) =>
+      request('GET', `/adaptations/${encodeURIComponent(studentId)}`, options) as Promise<{ adaptations: Adaptation[] }>,
+    /** Registra uma adaptação */
+    createAdaptation: (options: { body: AdaptationInput; timeout?: number }) =>
+      request('POST', '/adaptations', options) as Promise<{ adaptation: Adaptation }>,
+    /** Uma adaptação */
+    getAdaptation: (studentId: string, id: string, options: { timeout?: number } = {}) =>
+      request('GET', `/adaptations/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}`, options) as Promise<{ adaptation: Adaptation }>,
+    /** Altera uma adaptação */
+    updateAdaptation: (studentId: string, id: string, options: { body: { studentId?: string; description?: string; justification?: string; date?: string; reviewDate?: string; endDate?: string }; headers: { 'If-Match': string }; timeout?: number }) =>
+      request('PUT', `/adaptations/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}`, options) as Promise<{ adaptation: Adaptation }>,
+    /** Exclui uma adaptação */
+    deleteAdaptation: (studentId: string, id: string, options: { headers: { 'If-Match': string }; timeout?: number }) =>
+      request('DELETE', `/adaptations/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}`, options) as Promise<{ success: boolean }>,
+    /** Histórico de revisões, mais recente primeiro */
+    listAdaptationRevisions: (studentId: string, id: string, options: { timeout?: number } = {}) =>
+      request('GET', `/adaptations/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}/revisions`, options) as Promise<{ revisions: Revision[] }>,
+    /** Grava o conteúdo de uma revisão anterior como nova revisão */
+    restoreAdaptationRevision: (studentId: string, id: string, revision: number, options: { headers: { 'If-Match': string }; timeout?: number }) =>
+      request('POST', `/adaptations/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revision)}/restore`, options) as Promise<{ adaptation: Adaptation }>,
+    /** Relatos de um professor (`me` para o usuário autenticado) em todos os estudantes */
+    listTeacherReports: (options: { query: { teacherId: string; subject?: string; from?: string; to?: string }; timeout?: number }) =>
+      request('GET', '/reports', options) as Promise<{ reports: TeacherReport[] }>,
+    /** Registra um relato; sem `date`, vale o dia atual */
+    createReport: (options: { body: ReportInput; timeout?: number }) =>
+      request('POST', '/reports', options) as Promise<{ report: Report }>,
+    /** Relatos de um estudante */
+    listStudentReports: (studentId: string, options: { timeout?: number } = {}) =>
+      request('GET', `/student-report/${encodeURIComponent(studentId)}`, options) as Promise<{ reports: Report[] }>,
+    /** Estudante com adaptações e relatos (mais recentes primeiro) */
+    getStudentReport: (studentId: string, options: { timeout?: number } = {}) =>
+      request('GET', `/reports/${encodeURIComponent(studentId)}`, options) as Promise<StudentReport>,
+    /** Um relato */
+    getReport: (studentId: string, id: string, options: { timeout?: number } = {}) =>
+      request('GET', `/reports/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}`, options) as Promise<{ report: Report }>,
+    /** Altera um relato (apenas o autor) */
+    updateReport: (studentId: string, id: string, options: { body: { studentId?: string; subject?: string; result?: 'positivo' | 'neutro' | 'negativo'; description?: string; date?: string }; headers: { 'If-Match': string }; timeout?: number }) =>
+      request('PUT', `/reports/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}`, options) as Promise<{ report: Report }>,
+    /** Exclui um relato (apenas o autor) */
+    deleteReport: (studentId: string, id: string, options: { headers: { 'If-Match': string }; timeout?: number }) =>
+      request('DELETE', `/reports/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}`, options) as Promise<{ success: boolean }>,
+    /** Histórico de revisões, mais recente primeiro */
+    listReportRevisions: (studentId: string, id: string, options: { timeout?: number } = {}) =>
+      request('GET', `/reports/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}/revisions`, options) as Promise<{ revisions: Revision[] }>,
+    /** Grava o conteúdo de uma revisão anterior como nova revisão */
+    restoreReportRevision: (studentId: string, id: string, revision: number, options: { headers: { 'If-Match': string }; timeout?: number }) =>
+      request('POST', `/reports/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revision)}/restore`, options) as Promise<{ report: Report }>,
+    /** Compartilha (ou deixa de compartilhar) o relato com os responsáveis */
+    shareReport: (studentId: string, id: string, options: { body: { shared: boolean }; timeout?: number }) =>
+      request('POST', `/reports/${encodeURIComponent(studentId)}/${encodeURIComponent(id)}/share`, options) as Promise<{ report: Report }>,
+    /** Estudantes vinculados, com adaptações ativas e relatos compartilhados */
+    listGuardianStudents: (options: { timeout?: number } = {}) =>
+      request('GET', '/guardian/students', options) as Promise<{ students: GuardianStudentView[] }>,
+    /** Estudantes na lixeira, mais recentes primeiro */
+    listArchivedStudents: (options: { timeout?: number } = {}) =>
+      request('GET', '/trash/students', options) as Promise<{ students: ArchivedStudent[] }>,
+    /** Restaura o estudante com adaptações e relatos */
+    restoreStudent: (id: string, options: { timeout?: number } = {}) =>
+      request('POST', `/trash/students/${encodeURIComponent(id)}/restore`, options) as Promise<{ student: Student }>,
+    /** Exclui definitivamente; `confirm` deve repetir a matrícula */
+    purgeStudent: (id: string, options: { query: { confirm: string }; timeout?: number }) =>
+      request('DELETE', `/trash/students/${encodeURIComponent(id)}`, options) as Promise<{ success: boolean }>,
+    /** Tudo o que o sistema guarda sobre o estudante, em um arquivo JSON */
+    exportStudentData: (id: string, options: { timeout?: number } = {}) =>
+      request('GET', `/students/${encodeURIComponent(id)}/data-export`, options) as Promise<StudentDataExport>,
+    /** Remove de forma irreversível os dados pessoais do estudante; `confirm` deve repetir a matrícula */
+    anonymizeStudent: (id: string, options: { query: { confirm: string }; timeout?: number }) =>
+      request('POST', `/students/${encodeURIComponent(id)}/anonymize`, options) as Promise<{ student: Student }>,
+    /** Webhooks cadastrados */
+    listWebhooks: (options: { timeout?: number } = {}) =>
+      request('GET', '/webhooks', options) as Promise<{ webhooks: Webhook[] }>,
+    /** Cadastra um webhook; o segredo de assinatura é gerado pelo servidor */
+    createWebhook: (options: { body: WebhookInput; timeout?: number }) =>
+      request('POST', '/webhooks', options) as Promise<{ webhook: Webhook }>,
+    /** Reenvia as entregas com nova tentativa vencida */
+    processWebhookDeliveries: (options: { timeout?: number } = {}) =>
+      request('POST', '/webhooks/process', options) as Promise<{ processed: number }>,
+    /** Altera um webhook */
+    updateWebhook: (id: string, options: { body: { url?: string; description?: string; events?: ('student.created' | 'student.updated' | 'student.archived' | 'student.restored' | 'student.deleted' | 'student.anonymized' | 'adaptation.created' | 'adaptation.updated' | 'adaptation.deleted' | 'report.created' | 'report.updated' | 'report.deleted')[]; active?: boolean }; timeout?: number }) =>
+      request('PUT', `/webhooks/${encodeURIComponent(id)}`, options) as Promise<{ webhook: Webhook }>,
+    /** Exclui um webhook e o registro de entregas */
+    deleteWebhook: (id: string, options: { timeout?: number } = {}) =>
+      request('DELETE', `/webhooks/${encodeURIComponent(id)}`, options) as Promise<{ success: boolean }>,
+    /** Entregas recentes, mais recentes primeiro */
+    listWebhookDeliveries: (id: string, options: { timeout?: number } = {}) =>
+      request('GET', `/webhooks/${encodeURIComponent(id)}/deliveries`, options) as Promise<{ deliveries: WebhookDelivery[] }>,
+    /** Envia o evento `ping` */
+    testWebhook: (id: string, options: { timeout?: number } = {}) =>
+      request('POST', `/webhooks/${encodeURIComponent(id)}/test`, options) as Promise<{ delivery: WebhookDelivery }>,
+    /** Reenvia uma entrega não concluída */
+    retryWebhookDelivery: (id: string, deliveryId: string, options: { timeout?: number } = {}) =>
+      request('POST', `/webhooks/${encodeURIComponent(id)}/deliveries/${encodeURIComponent(deliveryId)}/retry`, options) as Promise<{ delivery: WebhookDelivery }>,
+    /** Caixa de saída de e-mails */
+    listNotifications: (options: { timeout?: number } = {}) =>
+      request('GET', '/notifications', options) as Promise<{ notifications: Notification[] }>,
+    /** Envia os e-mails pendentes */
+    processNotifications: (options: { timeout?: number } = {}) =>
+      request('POST', '/notifications/process', options) as Promise<{ sent: number; failed: number }>,
+    /** Adaptações com revisão vencida ou próxima */
+    listPendingReviews: (options: { timeout?: number } = {}) =>
+      request('GET', '/adaptation-reviews', options) as Promise<{ reviews: PendingReview[] }>,
+    /** Enfileira lembretes das revisões ainda não lembradas */
+    sendReviewReminders: (options: { timeout?: number } = {}) =>
+      request('POST', '/adaptation-reviews/remind', options) as Promise<{ reminded: number }>,
+    /** Trilha de auditoria filtrada */
+    listAuditEntries: (options: { query?: { entityType?: 'student' | 'adaptation' | 'report' | 'user' | 'assignment'; action?: 'create' | 'update' | 'delete' | 'archive' | 'restore' | 'export' | 'anonymize'; actorId?: string; studentId?: string; from?: string; to?: string; limit?: number }; timeout?: number } = {}) =>
+      request('GET', '/audit', options) as Promise<{ entries: AuditEntry[] }>,
+    /** Indicadores do painel da coordenação */
+    getStats: (options: { query?: { course?: string; class?: string; from?: string; to?: string }; timeout?: number } = {}) =>
+      request('GET', '/stats', options) as Promise<{ stats: Stats }>,
+    /** Versão do esquema gravada e passos pendentes */
+    getMigrationStatus: (options: { timeout?: number } = {}) =>
+      request('GET', '/migrations', options) as Promise<MigrationStatus>,
+    /** Aplica os passos pendentes; com `dryRun` apenas conta as alterações */
+    runMigrations: (options: { body?: { dryRun?: boolean }; timeout?: number } = {}) =>
+      request('POST', '/migrations/run', options) as Promise<{ result: MigrationResult }>,
+    /** Cópia completa dos dados, em um arquivo JSON versionado */
+    getBackup: (options: { timeout?: number } = {}) =>
+      request('GET', '/backup', options) as Promise<BackupArchive>,
+    /** Valida e restaura uma cópia, mesclando ou substituindo os registros; com `dryRun` apenas conta as alterações */
+    restoreBackup: (options: { body: { archive: BackupArchive; mode: 'merge' | 'replace'; dryRun?: boolean }; timeout?: number }) =>
+      request('POST', '/backup/restore', options) as Promise<{ result: RestoreResult }>,
+    /** Este documento */
+    getOpenApiDocument: (options: { timeout?: number } = {}) =>
+      request('GET', '/openapi.json', options) as Promise<Record<string, unknown>>,
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
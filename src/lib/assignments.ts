@@ -0,0 +1,43 @@
+// Atribuições de turmas (professor × curso × turma × disciplina)
+// - professores só veem estudantes das turmas atribuídas a eles
+// - coordenadores não têm restrição
+// - curso e turma são comparados sem diferenciar maiúsculas e espaços nas pontas
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Assignment, AssignmentInput, Student } from '../types/index.ts';
+
+function normalize(value: unknown) {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+function classKey(course: string, klass: string) {
+  return `${normalize(course)}|${normalize(klass)}`;
+}
+
+export function scopeStudents<T extends Pick<Student, 'course' | 'class'>>(
+  students: T[],
+  assignments: Pick<Assignment, 'course' | 'class'>[]
+): T[] {
+  const classes = new Set(assignments.map((a) => classKey(a.course, a.class)));
+  return students.filter((s) => classes.has(classKey(s.course, s.class)));
+}
+
+export function isAssignedStudent(
+  student: Pick<Student, 'course' | 'class'>,
+  assignments: Pick<Assignment, 'course' | 'class'>[]
+) {
+  return scopeStudents([student], assignments).length > 0;
+}
+
+// Same teacher, class and subject already assigned
+export function findDuplicateAssignment(assignments: Assignment[], input: Partial<AssignmentInput>) {
+  return (
+    assignments.find(
+      (a) =>
+        a.teacherId === input.teacherId &&
+        classKey(a.course, a.class) === classKey(input.course || '', input.class || '') &&
+        normalize(a.subject) === normalize(input.subject)
+    ) || null
+  );
+}
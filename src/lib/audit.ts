@@ -0,0 +1,98 @@
+// Trilha de auditoria compartilhada entre a edge function e o armazenamento local
+// - `createAuditEntry` monta a entrada imutável (autor, ação, entidade, diff)
+// - `filterAuditEntries` aplica os filtros do GET /audit e da aba "Auditoria"
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { AuditAction, AuditEntityType, AuditEntry } from '../types/index.ts';
+import { diffRecords } from './diff.ts';
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  actorId?: string;
+  studentId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_LIMIT = 100;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Criação',
+  update: 'Alteração',
+  delete: 'Exclusão',
+  archive: 'Envio à lixeira',
+  restore: 'Restauração',
+  export: 'Exportação de dados (LGPD)',
+  anonymize: 'Anonimização (LGPD)',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  student: 'Estudante',
+  adaptation: 'Adaptação',
+  report: 'Relato',
+  user: 'Usuário',
+  assignment: 'Atribuição de turma',
+};
+
+interface AuditInput {
+  id: string;
+  actor: { id: string; name: string };
+  action: AuditAction;
+  entityType: AuditEntityType;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
+
+// Short description of the record so entries stay readable after a deletion
+function describe(entityType: AuditEntityType, record: Record<string, any>) {
+  if (entityType === 'student' || entityType === 'user') return String(record.name || '');
+  if (entityType === 'report') return String(record.subject || '');
+  if (entityType === 'assignment') return `${record.teacherName} - ${record.course} ${record.class} (${record.subject})`;
+  return String(record.description || '').slice(0, 80);
+}
+
+export function createAuditEntry({ id, actor, action, entityType, before, after }: AuditInput): AuditEntry {
+  const record = after || before || {};
+  return {
+    id,
+    timestamp: new Date().toISOString(),
+    actorId: actor.id,
+    actorName: actor.name,
+    action,
+    entityType,
+    entityId: String(record.id || ''),
+    entityLabel: describe(entityType, record),
+    studentId: String(entityType === 'student' ? record.id : record.studentId || ''),
+    changes: diffRecords(before, after),
+  };
+}
+
+export function parseAuditFilter(params: Record<string, string | undefined>): AuditFilter {
+  const limit = parseInt(params.limit || '', 10);
+  return {
+    entityType: (params.entityType as AuditEntityType) || undefined,
+    action: (params.action as AuditAction) || undefined,
+    actorId: params.actorId || undefined,
+    studentId: params.studentId || undefined,
+    from: params.from || undefined,
+    to: params.to || undefined,
+    limit: isNaN(limit) ? DEFAULT_AUDIT_LIMIT : Math.max(limit, 1),
+  };
+}
+
+// Newest first. `from`/`to` are inclusive dates (yyyy-mm-dd).
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const { limit = DEFAULT_AUDIT_LIMIT } = filter;
+  return entries
+    .filter((e) => !filter.entityType || e.entityType === filter.entityType)
+    .filter((e) => !filter.action || e.action === filter.action)
+    .filter((e) => !filter.actorId || e.actorId === filter.actorId)
+    .filter((e) => !filter.studentId || e.studentId === filter.studentId)
+    .filter((e) => !filter.from || e.timestamp.slice(0, 10) >= filter.from)
+    .filter((e) => !filter.to || e.timestamp.slice(0, 10) <= filter.to)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, limit);
+}
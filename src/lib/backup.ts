@@ -0,0 +1,475 @@
+// Cópia de segurança completa dos dados da escola
+// - um arquivo JSON versionado (`format`, `version`) com usuários, estudantes, adaptações,
+//   relatos, revisões, auditoria e atribuições de turmas, mais metadados de origem e data
+// - `schemaVersion` registra o esquema dos registros (lib/migrations.ts); cópias antigas
+//   passam pelos passos pendentes antes de restauradas
+// - a restauração valida o arquivo inteiro antes de gravar qualquer coisa: cada registro passa
+//   pelos mesmos validadores da API e campos desconhecidos são descartados; pode mesclar
+//   (registros da cópia substituem os de mesmo id, os demais ficam) ou substituir
+//   (o que não está na cópia é apagado); com `dryRun` apenas conta as alterações
+// - o perfil de quem restaura é sempre mantido, para que não perca o próprio acesso; no
+//   servidor os perfis ficam como estão, presos às contas do Supabase Auth
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Assignment, User } from '../types/index.ts';
+import {
+  LATEST_SCHEMA_VERSION,
+  pendingMigrations,
+  RECORD_KEYS,
+  type MigrationData,
+} from './migrations.ts';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from './audit.ts';
+import { registrationKey } from './studentImport.ts';
+import {
+  adaptationSchema,
+  assignmentSchema,
+  reportSchema,
+  studentSchema,
+  userSchema,
+  validate,
+  validateAdaptation,
+  validateAssignment,
+  validateReport,
+  validateStudent,
+  validateStudentLinks,
+  validateUser,
+  type FieldError,
+  type FieldRule,
+} from './validation.ts';
+
+export const BACKUP_FORMAT = 'adaptacoes-curriculares-backup';
+export const BACKUP_VERSION = 1;
+
+// Reminder markers stay out: at worst a restored namespace reminds again
+export interface BackupData extends Omit<MigrationData, 'reviewReminders'> {
+  assignments: Assignment[];
+}
+
+export type BackupCollection = keyof BackupData;
+
+export const BACKUP_COLLECTION_LABELS: Record<BackupCollection, string> = {
+  users: 'Usuários',
+  students: 'Estudantes',
+  adaptations: 'Adaptações',
+  reports: 'Relatos',
+  revisions: 'Revisões',
+  audit: 'Auditoria',
+  assignments: 'Turmas',
+};
+
+const BACKUP_COLLECTIONS = Object.keys(BACKUP_COLLECTION_LABELS) as BackupCollection[];
+
+// Where the archive was made: the edge function's KV namespace or a browser
+export type BackupSource = 'server' | 'local';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  createdAt: string;
+  createdBy: { id: string; name: string };
+  source: BackupSource;
+  // Records per collection, so the file can be checked without reading `data`
+  counts: Record<BackupCollection, number>;
+  data: BackupData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreCounts {
+  created: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface RestoreResult {
+  dryRun: boolean;
+  mode: RestoreMode;
+  // Metadata of the restored archive
+  createdAt: string;
+  source: BackupSource;
+  schemaVersion: number;
+  // Whether the archive's profiles were applied or the current ones kept
+  users: 'restored' | 'kept';
+  collections: Record<BackupCollection, RestoreCounts>;
+}
+
+export type BackupChanges = {
+  [K in BackupCollection]: { saved: BackupData[K]; removed: BackupData[K] };
+};
+
+// Where the data lives; `write` gets the whole dataset after the restore and
+// what differs from the loaded one
+export interface BackupTarget {
+  // Profiles backed by accounts elsewhere, which a restore cannot create or
+  // remove; the current ones stay
+  keepsUsers?: boolean;
+  load(): Promise<BackupData>;
+  write(data: BackupData, changes: BackupChanges): Promise<void>;
+}
+
+const KEYS: { [K in BackupCollection]: (record: BackupData[K][number]) => string } = {
+  students: RECORD_KEYS.students,
+  adaptations: RECORD_KEYS.adaptations,
+  reports: RECORD_KEYS.reports,
+  revisions: RECORD_KEYS.revisions,
+  audit: RECORD_KEYS.audit,
+  users: RECORD_KEYS.users,
+  assignments: (a) => `${a.teacherId}:${a.id}`,
+};
+
+// Fields a record cannot do without: ids and what other records point at
+const REQUIRED_FIELDS: Record<BackupCollection, string[]> = {
+  users: ['id', 'email', 'name', 'role'],
+  students: ['id', 'name', 'registrationNumber'],
+  adaptations: ['id', 'studentId', 'date'],
+  reports: ['id', 'studentId', 'date'],
+  revisions: ['id', 'entityType', 'entityId', 'studentId', 'revision'],
+  audit: ['id', 'timestamp', 'action', 'entityType'],
+  assignments: ['id', 'teacherId'],
+};
+
+const ID: FieldRule = { type: 'string', maxLength: 100 };
+const NAME: FieldRule = { type: 'string', maxLength: 200 };
+const DATE: FieldRule = { type: 'date' };
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+interface RecordRules {
+  // Fields a user edits, checked by the same validator as the API
+  input?: { fields: object; check: (record: Record<string, unknown>) => FieldError[] };
+  // What the system sets: ids, authorship, control dates
+  fields: Record<string, FieldRule>;
+  // Fields that are not strings
+  values?: Record<string, (value: unknown) => boolean>;
+}
+
+// Everything a stored record may hold; keys outside these rules are dropped
+const RECORD_RULES: Record<BackupCollection, RecordRules> = {
+  users: {
+    input: { fields: userSchema, check: (user) => validateUser(user).errors },
+    fields: { id: ID, email: { type: 'email' }, deactivatedAt: DATE, deactivatedBy: ID, passwordResetAt: DATE },
+    values: { studentIds: (ids) => validateStudentLinks(ids).length === 0 },
+  },
+  students: {
+    input: {
+      fields: studentSchema,
+      // Anonymization blanks the birth date (lib/lgpd.ts)
+      check: (student) =>
+        validateStudent(student).errors.filter(
+          (e) => !(e.field === 'birthDate' && student.anonymizedAt && student.birthDate === '')
+        ),
+    },
+    fields: {
+      id: ID,
+      createdAt: DATE,
+      createdBy: ID,
+      updatedAt: DATE,
+      updatedBy: ID,
+      archivedAt: DATE,
+      archivedBy: ID,
+      anonymizedAt: DATE,
+      anonymizedBy: ID,
+    },
+    values: { version: isCount },
+  },
+  adaptations: {
+    input: {
+      fields: adaptationSchema,
+      // Records saved before reviews existed have no review date
+      check: (adaptation) =>
+        validateAdaptation(adaptation).errors.filter(
+          (e) => !(e.field === 'reviewDate' && adaptation.reviewDate === undefined)
+        ),
+    },
+    fields: { id: ID, createdAt: DATE, createdBy: ID, updatedAt: DATE, archivedAt: DATE },
+    values: { version: isCount },
+  },
+  reports: {
+    input: { fields: reportSchema, check: (report) => validateReport(report).errors },
+    fields: {
+      id: ID,
+      teacherId: ID,
+      teacherName: NAME,
+      createdAt: DATE,
+      updatedAt: DATE,
+      archivedAt: DATE,
+      sharedAt: DATE,
+      sharedBy: ID,
+    },
+    values: { shared: (value) => typeof value === 'boolean', version: isCount },
+  },
+  revisions: {
+    fields: {
+      id: ID,
+      entityType: { type: 'enum', values: ['adaptation', 'report'] },
+      entityId: ID,
+      studentId: ID,
+      createdAt: DATE,
+      authorId: ID,
+      authorName: NAME,
+    },
+    values: { revision: isCount, restoredFrom: isCount, snapshot: isObject },
+  },
+  audit: {
+    fields: {
+      id: ID,
+      timestamp: DATE,
+      actorId: ID,
+      actorName: NAME,
+      action: { type: 'enum', values: Object.keys(AUDIT_ACTION_LABELS) },
+      entityType: { type: 'enum', values: Object.keys(AUDIT_ENTITY_LABELS) },
+      entityId: ID,
+      entityLabel: NAME,
+      studentId: ID,
+    },
+    values: { changes: isObject },
+  },
+  assignments: {
+    input: { fields: assignmentSchema, check: (assignment) => validateAssignment(assignment).errors },
+    fields: { id: ID, teacherName: NAME, createdAt: DATE, createdBy: ID },
+  },
+};
+
+// The record's type errors, and the record without the keys no rule knows.
+// Values are kept as sent so an unchanged record compares equal to the stored one.
+function readRecord(collection: BackupCollection, record: Record<string, unknown>) {
+  const rules = RECORD_RULES[collection];
+  const errors = [
+    ...(rules.input ? rules.input.check(record) : []),
+    ...validate<Record<string, string>>(rules.fields, record).errors,
+  ];
+  const values = rules.values || {};
+  for (const [field, check] of Object.entries(values)) {
+    if (field in record && !check(record[field])) {
+      errors.push({ field, message: 'Valor inválido' });
+    }
+  }
+  const known = new Set([...Object.keys(rules.input?.fields || {}), ...Object.keys(rules.fields), ...Object.keys(values)]);
+  const clean = Object.fromEntries(Object.entries(record).filter(([field]) => known.has(field)));
+  return { errors, record: clean };
+}
+
+export function createBackup(
+  data: BackupData,
+  meta: { schemaVersion: number; source: BackupSource; createdBy: { id: string; name: string } }
+): BackupArchive {
+  const counts = {} as Record<BackupCollection, number>;
+  for (const collection of BACKUP_COLLECTIONS) {
+    counts[collection] = data[collection].length;
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: meta.schemaVersion,
+    createdAt: new Date().toISOString(),
+    createdBy: meta.createdBy,
+    source: meta.source,
+    counts,
+    data,
+  };
+}
+
+function isCountBetween(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function isPresent(value: unknown) {
+  return (typeof value === 'string' && value.trim() !== '') || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Checks the envelope and the shape of every record; nothing is trusted
+// before it passes
+export function readBackup(input: unknown): { archive: BackupArchive | null; errors: FieldError[] } {
+  if (!isObject(input) || input.format !== BACKUP_FORMAT) {
+    return { archive: null, errors: [{ field: 'format', message: 'O arquivo não é uma cópia de segurança do sistema' }] };
+  }
+  const errors: FieldError[] = [];
+  if (!isCountBetween(input.version, 1, BACKUP_VERSION)) {
+    errors.push({ field: 'version', message: 'Formato de cópia não suportado por esta versão do sistema' });
+  }
+  if (!isCountBetween(input.schemaVersion, 0, LATEST_SCHEMA_VERSION)) {
+    errors.push({ field: 'schemaVersion', message: 'Cópia gerada por uma versão mais nova do sistema' });
+  }
+  if (!isObject(input.data)) {
+    errors.push({ field: 'data', message: 'Campo obrigatório' });
+    return { archive: null, errors };
+  }
+
+  const data = {} as Record<BackupCollection, unknown[]>;
+  for (const collection of BACKUP_COLLECTIONS) {
+    const records = input.data[collection];
+    if (!Array.isArray(records)) {
+      errors.push({ field: `data.${collection}`, message: 'Deve ser uma lista' });
+      continue;
+    }
+    const seen = new Set<string>();
+    const clean: Record<string, unknown>[] = [];
+    records.forEach((record: unknown, index: number) => {
+      const path = `data.${collection}[${index}]`;
+      if (!isObject(record)) {
+        errors.push({ field: path, message: 'Registro inválido' });
+        return;
+      }
+      const missing = REQUIRED_FIELDS[collection].filter((field) => !isPresent(record[field]));
+      for (const field of missing) {
+        errors.push({ field: `${path}.${field}`, message: 'Campo obrigatório' });
+      }
+      if (missing.length > 0) return;
+      const checked = readRecord(collection, record);
+      for (const error of checked.errors) {
+        errors.push({ field: `${path}.${error.field}`, message: error.message });
+      }
+      const key = (KEYS[collection] as (record: unknown) => string)(record);
+      if (seen.has(key)) {
+        errors.push({ field: `${path}.id`, message: 'Registro repetido na cópia' });
+      }
+      seen.add(key);
+      clean.push(checked.record);
+    });
+    data[collection] = clean;
+  }
+
+  if (errors.length > 0) return { archive: null, errors };
+  // Past every check: the records have the shape of BackupData
+  return { archive: { ...input, data } as unknown as BackupArchive, errors };
+}
+
+// Records of an older archive brought up to the latest schema
+export function upgradeBackupData(archive: BackupArchive, generateId: () => string): BackupData {
+  let data: BackupData & MigrationData = { ...archive.data, reviewReminders: [] };
+  for (const migration of pendingMigrations(archive.schemaVersion)) {
+    data = { ...data, ...migration.migrate(data, { generateId }) };
+  }
+  // Without the reminder markers the migrations carry along
+  const { users, students, adaptations, reports, revisions, audit, assignments } = data;
+  return { users, students, adaptations, reports, revisions, audit, assignments };
+}
+
+function combine<T>(current: T[], incoming: T[], key: (record: T) => string, mode: RestoreMode) {
+  if (mode === 'replace') return incoming;
+  const merged = new Map(current.map((r) => [key(r), r]));
+  for (const record of incoming) {
+    merged.set(key(record), record);
+  }
+  return [...merged.values()];
+}
+
+// References the restored records make must resolve in the resulting dataset.
+// Only the archive's records are checked: one already stored is not the
+// archive's fault.
+function checkReferences(data: BackupData, incoming: BackupData): FieldError[] {
+  const errors: FieldError[] = [];
+  const studentIds = new Set(data.students.map((s) => s.id));
+  const userIds = new Set(data.users.map((u) => u.id));
+
+  for (const collection of ['adaptations', 'reports'] as const) {
+    incoming[collection].forEach((record, index) => {
+      if (!studentIds.has(record.studentId)) {
+        errors.push({ field: `data.${collection}[${index}].studentId`, message: 'Estudante não encontrado' });
+      }
+    });
+  }
+  incoming.assignments.forEach((assignment, index) => {
+    if (!userIds.has(assignment.teacherId)) {
+      errors.push({ field: `data.assignments[${index}].teacherId`, message: 'Professor não encontrado' });
+    }
+  });
+
+  // Like the registration index, a number belongs to a single student
+  const holders = new Map<string, string>();
+  for (const student of data.students) {
+    const key = registrationKey(student.registrationNumber);
+    if (!holders.has(key)) holders.set(key, student.id);
+  }
+  incoming.students.forEach((student, index) => {
+    if (holders.get(registrationKey(student.registrationNumber)) !== student.id) {
+      errors.push({ field: `data.students[${index}].registrationNumber`, message: 'Matrícula já cadastrada para outro estudante' });
+    }
+  });
+  return errors;
+}
+
+type BackupRecord<K extends BackupCollection> = BackupData[K][number];
+
+function keyOf<K extends BackupCollection>(collection: K) {
+  return KEYS[collection] as (record: BackupRecord<K>) => string;
+}
+
+function diffCollection<T>(before: T[], after: T[], key: (record: T) => string) {
+  const previous = new Map(before.map((r) => [key(r), JSON.stringify(r)]));
+  const current = new Set(after.map(key));
+  const saved = after.filter((r) => previous.get(key(r)) !== JSON.stringify(r));
+  const removed = before.filter((r) => !current.has(key(r)));
+  const created = saved.filter((r) => !previous.has(key(r))).length;
+  return {
+    changes: { saved, removed },
+    counts: {
+      created,
+      updated: saved.length - created,
+      removed: removed.length,
+      unchanged: after.length - saved.length,
+    },
+  };
+}
+
+// Validate, upgrade and apply an archive. `actor` is the coordinator
+// restoring it, whose stored profile survives whatever the archive holds.
+export async function restoreBackup(
+  target: BackupTarget,
+  input: unknown,
+  options: { mode: RestoreMode; dryRun?: boolean; actor: User; generateId: () => string }
+): Promise<{ result: RestoreResult | null; errors: FieldError[] }> {
+  const { archive, errors } = readBackup(input);
+  if (!archive) return { result: null, errors };
+
+  const incoming = upgradeBackupData(archive, options.generateId);
+  const current = await target.load();
+  const data = {} as BackupData;
+  const apply = <K extends BackupCollection>(collection: K) => {
+    const records = combine<BackupRecord<K>>(current[collection], incoming[collection], keyOf(collection), options.mode);
+    data[collection] = records as BackupData[K];
+  };
+  BACKUP_COLLECTIONS.forEach(apply);
+  if (target.keepsUsers) {
+    data.users = current.users;
+  } else {
+    const actor = current.users.find((u) => u.id === options.actor.id) || options.actor;
+    data.users = [...data.users.filter((u) => u.id !== actor.id), actor];
+  }
+
+  const referenceErrors = checkReferences(data, incoming);
+  if (referenceErrors.length > 0) return { result: null, errors: referenceErrors };
+
+  const changes = {} as BackupChanges;
+  const collections = {} as Record<BackupCollection, RestoreCounts>;
+  const compare = <K extends BackupCollection>(collection: K) => {
+    const diff = diffCollection<BackupRecord<K>>(current[collection], data[collection], keyOf(collection));
+    changes[collection] = diff.changes as BackupChanges[K];
+    collections[collection] = diff.counts;
+  };
+  BACKUP_COLLECTIONS.forEach(compare);
+
+  const dryRun = options.dryRun ?? false;
+  if (!dryRun) {
+    await target.write(data, changes);
+  }
+  return {
+    result: {
+      dryRun,
+      mode: options.mode,
+      createdAt: archive.createdAt,
+      source: archive.source,
+      schemaVersion: archive.schemaVersion,
+      users: target.keepsUsers ? 'kept' : 'restored',
+      collections,
+    },
+    errors: [],
+  };
+}
@@ -0,0 +1,62 @@
+// Diferença campo a campo entre duas versões de um registro
+// Usado pela trilha de auditoria e pelo histórico de revisões (cliente e servidor).
+
+import type { FieldChange } from '../types/index.ts';
+
+// Bookkeeping fields that change on every write and carry no information
+const IGNORED_FIELDS = new Set(['updatedAt', 'updatedBy', 'version']);
+
+// Human readable names for the fields shown in audit and history views
+export const FIELD_LABELS: Record<string, string> = {
+  name: 'Nome',
+  course: 'Curso',
+  class: 'Turma',
+  birthDate: 'Data de nascimento',
+  registrationNumber: 'Matrícula',
+  guardianName: 'Responsável',
+  guardianContact: 'Contato do responsável',
+  description: 'Descrição',
+  justification: 'Justificativa',
+  reviewDate: 'Data de revisão',
+  endDate: 'Data de término',
+  date: 'Data',
+  subject: 'Disciplina',
+  result: 'Resultado',
+  studentId: 'Estudante',
+  teacherId: 'Professor',
+  teacherName: 'Nome do professor',
+  createdAt: 'Criado em',
+  createdBy: 'Criado por',
+  email: 'E-mail',
+  role: 'Perfil',
+  deactivatedAt: 'Desativado em',
+  deactivatedBy: 'Desativado por',
+  passwordResetAt: 'Senha redefinida em',
+  studentIds: 'Estudantes vinculados',
+  shared: 'Compartilhado com responsáveis',
+  sharedAt: 'Compartilhado em',
+  sharedBy: 'Compartilhado por',
+};
+
+// Fields whose value differs between `before` and `after`. A missing side
+// (creation or deletion) is reported as `null`.
+export function diffRecords(before: Record<string, any> | null, after: Record<string, any> | null) {
+  const changes: Record<string, FieldChange> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const previous = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+// True when applying `updates` would change none of the record's fields
+export function isNoOpUpdate(record: object, updates: object) {
+  return Object.keys(diffRecords({ ...record }, { ...record, ...updates })).length === 0;
+}
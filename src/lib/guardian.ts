@@ -0,0 +1,37 @@
+// Portal do responsável
+// - o responsável vê apenas os estudantes vinculados à sua conta
+// - das adaptações, só as ativas (nem arquivadas nem encerradas); dos relatos, só os marcados como compartilhados
+// - alterar o conteúdo de um relato compartilhado desfaz o compartilhamento, até a coordenação revisar de novo
+// - mesma visão no servidor e no modo local
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Adaptation, GuardianStudentView, Report, Student } from '../types/index.ts';
+import { isActiveAdaptation } from './adaptationReview.ts';
+
+function byDateDesc(a: { date: string }, b: { date: string }) {
+  return new Date(b.date).getTime() - new Date(a.date).getTime();
+}
+
+export function guardianView(student: Student, adaptations: Adaptation[], reports: Report[]): GuardianStudentView {
+  return {
+    student,
+    adaptations: adaptations.filter((a) => a.studentId === student.id && isActiveAdaptation(a)).sort(byDateDesc),
+    reports: reports.filter((r) => r.studentId === student.id && !r.archivedAt && r.shared === true).sort(byDateDesc),
+  };
+}
+
+// What guardians read in a shared report
+const SHARED_REPORT_FIELDS = ['subject', 'date', 'result', 'description'] as const;
+
+// `after` unshared when the content a coordinator approved changed
+export function unshareIfEdited(before: Report, after: Report): Report {
+  if (!after.shared || SHARED_REPORT_FIELDS.every((field) => before[field] === after[field])) {
+    return after;
+  }
+  return { ...after, shared: false, sharedAt: undefined, sharedBy: undefined };
+}
+
+export function linkedStudentIds(user: { role: string; studentIds?: string[] }): string[] {
+  return user.role === 'responsavel' && Array.isArray(user.studentIds) ? [...new Set(user.studentIds)] : [];
+}
@@ -0,0 +1,40 @@
+// Convites para criação de contas
+// - o código é de uso único, vinculado a um e-mail e a um perfil, e expira
+// - a edge function gera os códigos e os resgata no cadastro por convite
+// - o cliente usa as mesmas regras para normalizar o código e exibir a situação
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Invitation, InvitationStatus } from '../types/index.ts';
+
+export const INVITATION_CODE_LENGTH = 8;
+
+export const INVITATION_TTL_DAYS = 7;
+
+// Letters and digits that cannot be mistaken for each other when dictated
+export const INVITATION_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pendente',
+  used: 'Utilizado',
+  expired: 'Expirado',
+};
+
+export function generateInvitationCode(): string {
+  const values = crypto.getRandomValues(new Uint32Array(INVITATION_CODE_LENGTH));
+  return Array.from(values, (v) => INVITATION_CODE_CHARS[v % INVITATION_CODE_CHARS.length]).join('');
+}
+
+// Codes are shown in upper case; typed codes may carry spaces, hyphens or lower case
+export function normalizeInvitationCode(code: unknown) {
+  return String(code ?? '').replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function invitationStatus(invitation: Invitation, now = new Date()): InvitationStatus {
+  if (invitation.usedAt) return 'used';
+  return new Date(invitation.expiresAt).getTime() <= now.getTime() ? 'expired' : 'pending';
+}
+
+export function sameEmail(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
@@ -0,0 +1,208 @@
+// Direitos do titular (LGPD) sobre os dados de um estudante
+// - `buildStudentDataExport` reúne tudo o que o sistema guarda sobre o estudante em um
+//   pacote JSON legível por máquina (direito de acesso)
+// - `anonymizeStudentRecords` apaga de forma irreversível nome, data de nascimento,
+//   matrícula, dados do responsável e as menções a eles nos textos livres (eliminação);
+//   curso, turma, datas, disciplinas e resultados ficam, e com eles os indicadores
+// - as revisões guardam o texto anterior de cada registro e por isso são apagadas,
+//   não anonimizadas
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type {
+  Adaptation,
+  AuditEntry,
+  FieldChange,
+  Notification,
+  Report,
+  Revision,
+  Student,
+  User,
+  WebhookDelivery,
+} from '../types/index.ts';
+import { nextVersion } from './versioning.ts';
+
+export const DATA_EXPORT_FORMAT = 'adaptacoes-curriculares-dados-do-titular';
+export const DATA_EXPORT_VERSION = 1;
+
+export const ANONYMIZED_NAME = 'Estudante anonimizado';
+export const REDACTED = '[removido]';
+
+export interface StudentRecords {
+  student: Student;
+  adaptations: Adaptation[];
+  reports: Report[];
+  revisions: Revision[];
+  audit: AuditEntry[];
+  // Guardian accounts linked to the student
+  guardians: User[];
+  // Emails and webhook payloads that mention the student (server only)
+  notifications: Notification[];
+  webhookDeliveries: WebhookDelivery[];
+}
+
+export interface StudentDataExport extends Omit<StudentRecords, 'guardians'> {
+  format: typeof DATA_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy: { id: string; name: string };
+  guardians: Pick<User, 'id' | 'name' | 'email'>[];
+}
+
+export function buildStudentDataExport(
+  records: StudentRecords,
+  exportedBy: { id: string; name: string }
+): StudentDataExport {
+  return {
+    format: DATA_EXPORT_FORMAT,
+    version: DATA_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    ...records,
+    guardians: records.guardians.map(({ id, name, email }) => ({ id, name, email })),
+  };
+}
+
+// Student fields that identify the student or the guardian
+const PERSONAL_FIELDS = ['name', 'birthDate', 'registrationNumber', 'guardianName', 'guardianContact'];
+
+// Name parts too common to be told apart from ordinary words
+const NAME_PARTICLES = new Set(['das', 'dos', 'del', 'della', 'van', 'von']);
+
+// Lowercase without accents, one character for each character of `text`, so
+// match positions in the folded text are positions in the original
+function fold(text: string) {
+  return Array.from(text, (char) => {
+    const base = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    return base.length === char.length ? base : char;
+  }).join('');
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// What free text may say about the student: full names, each part of them,
+// registration number, birth date and guardian contact. Longest first, so a
+// full name is replaced before its parts.
+export function personalTerms(student: Student): string[] {
+  const names = [student.name, student.guardianName].filter((n): n is string => !!n && n.trim() !== '');
+  const parts = names
+    .flatMap((name) => name.split(/\s+/))
+    .filter((part) => part.length >= 3 && !NAME_PARTICLES.has(part.toLowerCase()));
+  const terms = [...names, ...parts, student.registrationNumber, student.birthDate, student.guardianContact]
+    .map((term) => String(term || '').trim().normalize('NFC'))
+    .filter(Boolean);
+  return [...new Set(terms)].sort((a, b) => b.length - a.length);
+}
+
+// Terms that single out the student among everyone else's records: the full
+// name and the registration number, never a lone first name
+export function identifyingTerms(student: Student): string[] {
+  return [student.name, student.registrationNumber].map((t) => String(t || '').trim()).filter(Boolean);
+}
+
+// Whole-word matches of `terms`, ignoring case and accents
+function termPattern(terms: string[]) {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map((t) => escapeRegExp(fold(t))).join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+}
+
+export function redactText(text: string, terms: string[]): string {
+  if (terms.length === 0 || !text) return text;
+  const normalized = text.normalize('NFC');
+  const pattern = termPattern(terms);
+  let result = '';
+  let last = 0;
+  for (const match of fold(normalized).matchAll(pattern)) {
+    result += normalized.slice(last, match.index) + REDACTED;
+    last = match.index! + match[0].length;
+  }
+  return last === 0 ? text : result + normalized.slice(last);
+}
+
+export function mentions(text: string, terms: string[]) {
+  return terms.length > 0 && termPattern(terms).test(fold(text.normalize('NFC')));
+}
+
+// Strings anywhere inside `value` redacted
+function redactValue(value: unknown, terms: string[]): unknown {
+  if (typeof value === 'string') return redactText(value, terms);
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, terms));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, terms)]));
+  }
+  return value;
+}
+
+function redactChanges(changes: Record<string, FieldChange>, terms: string[], personal: boolean) {
+  return Object.fromEntries(
+    Object.entries(changes).map(([field, change]) => [
+      field,
+      personal && PERSONAL_FIELDS.includes(field)
+        ? { before: change.before ? REDACTED : change.before, after: change.after ? REDACTED : change.after }
+        : (redactValue(change, terms) as FieldChange),
+    ])
+  );
+}
+
+export interface AnonymizedRecords {
+  student: Student;
+  adaptations: Adaptation[];
+  reports: Report[];
+  audit: AuditEntry[];
+  notifications: Notification[];
+  webhookDeliveries: WebhookDelivery[];
+  // Guardians with the student unlinked
+  guardians: User[];
+}
+
+// Scrubbed copies of everything stored about the student. Revisions are not
+// returned: the caller deletes them.
+export function anonymizeStudentRecords(
+  records: StudentRecords,
+  stamp: { anonymizedAt: string; anonymizedBy: string }
+): AnonymizedRecords {
+  const { student } = records;
+  const terms = personalTerms(student);
+
+  return {
+    student: {
+      ...student,
+      name: ANONYMIZED_NAME,
+      birthDate: '',
+      // Still unique, so the registration index keeps one entry per student
+      registrationNumber: `ANON-${student.id.slice(0, 8)}`,
+      guardianName: undefined,
+      guardianContact: undefined,
+      ...stamp,
+      version: nextVersion(student),
+    },
+    adaptations: records.adaptations.map((a) => ({
+      ...a,
+      description: redactText(a.description, terms),
+      justification: redactText(a.justification, terms),
+      version: nextVersion(a),
+    })),
+    reports: records.reports.map((r) => ({
+      ...r,
+      description: redactText(r.description, terms),
+      version: nextVersion(r),
+    })),
+    audit: records.audit.map((entry) => ({
+      ...entry,
+      entityLabel: entry.entityType === 'student' ? ANONYMIZED_NAME : redactText(entry.entityLabel, terms),
+      changes: redactChanges(entry.changes, terms, entry.entityType === 'student'),
+    })),
+    notifications: records.notifications.map((n) => ({
+      ...n,
+      subject: redactText(n.subject, terms),
+      text: redactText(n.text, terms),
+      html: redactText(n.html, terms),
+    })),
+    webhookDeliveries: records.webhookDeliveries.map((d) => ({ ...d, body: redactText(d.body, terms) })),
+    guardians: records.guardians.map((g) => ({
+      ...g,
+      studentIds: (g.studentIds || []).filter((id) => id !== student.id),
+    })),
+  };
+}
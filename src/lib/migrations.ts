@@ -0,0 +1,198 @@
+// Migrações de esquema dos registros
+// - cada passo leva os dados de uma versão à seguinte; a versão aplicada fica
+//   registrada junto aos dados (chave `schema-version` no KV, `adaptacao_schema_version` no navegador)
+// - os passos são funções puras sobre uma cópia dos dados; o executor grava só o que mudou,
+//   passo a passo, e atualiza a versão ao fim de cada um
+// - com `dryRun` os passos rodam em memória e nada é gravado
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Adaptation, AuditEntry, Report, ReviewReminder, Revision, Student, User } from '../types/index.ts';
+
+export interface MigrationData {
+  students: Student[];
+  adaptations: Adaptation[];
+  reports: Report[];
+  revisions: Revision[];
+  audit: AuditEntry[];
+  // Profiles, for the students linked to guardian accounts
+  users: User[];
+  // Server only; the browser has none
+  reviewReminders: ReviewReminder[];
+}
+
+export type MigrationCollection = keyof MigrationData;
+
+// Records written by a step, and the ones it replaced under another key
+export type MigrationChanges = {
+  [K in MigrationCollection]: { saved: MigrationData[K]; removed: MigrationData[K] };
+};
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(data: MigrationData, context: { generateId: () => string }): MigrationData;
+}
+
+// Where the data and its version live: the KV namespace or the browser storage
+export interface MigrationTarget {
+  getVersion(): Promise<number>;
+  setVersion(version: number): Promise<void>;
+  load(): Promise<MigrationData>;
+  // `data` is the whole dataset after the step, `changes` only what differs
+  write(data: MigrationData, changes: MigrationChanges): Promise<void>;
+}
+
+export interface MigrationStepResult {
+  version: number;
+  description: string;
+  saved: number;
+  removed: number;
+}
+
+export interface MigrationResult {
+  dryRun: boolean;
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStepResult[];
+}
+
+// Stored version against the latest one, with the steps still to apply
+export interface MigrationStatus {
+  version: number;
+  latestVersion: number;
+  pending: { version: number; description: string }[];
+}
+
+// Timestamps (`2024-03-05T14:00:00.000Z`) cut to the calendar day they start with
+function toPlainDate<T extends string | undefined>(value: T): T {
+  return (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value) as T;
+}
+
+function withPlainDates<T extends { date: string; reviewDate?: string; endDate?: string }>(record: T): T {
+  const updated = { ...record, date: toPlainDate(record.date) };
+  if (record.reviewDate !== undefined) updated.reviewDate = toPlainDate(record.reviewDate);
+  if (record.endDate !== undefined) updated.endDate = toPlainDate(record.endDate);
+  return updated;
+}
+
+// Ids made by the browser's old generateId: `<Date.now()>-<9 base-36 chars>`
+export function isLegacyId(id: string) {
+  return /^\d{13}-[a-z0-9]{1,9}$/.test(id);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Datas de adaptações e relatos no formato yyyy-mm-dd',
+    migrate(data) {
+      return {
+        ...data,
+        adaptations: data.adaptations.map(withPlainDates),
+        reports: data.reports.map(withPlainDates),
+      };
+    },
+  },
+  {
+    // User ids are left alone: they belong to the auth provider. What points
+    // at a renamed record follows it: guardian links and reminder markers.
+    version: 2,
+    description: 'Ids de estudantes, adaptações e relatos gerados localmente trocados por UUIDs',
+    migrate(data, { generateId }) {
+      const ids = new Map<string, string>();
+      const renamed = (id: string) => {
+        if (!isLegacyId(id)) return id;
+        if (!ids.has(id)) ids.set(id, generateId());
+        return ids.get(id)!;
+      };
+
+      const students = data.students.map((s) => ({ ...s, id: renamed(s.id) }));
+      const adaptations = data.adaptations.map((a) => ({ ...a, id: renamed(a.id), studentId: renamed(a.studentId) }));
+      const reports = data.reports.map((r) => ({ ...r, id: renamed(r.id), studentId: renamed(r.studentId) }));
+      const revisions = data.revisions.map((r) => ({
+        ...r,
+        entityId: renamed(r.entityId),
+        studentId: renamed(r.studentId),
+        snapshot: {
+          ...r.snapshot,
+          id: renamed(String(r.snapshot.id)),
+          ...(typeof r.snapshot.studentId === 'string' ? { studentId: renamed(r.snapshot.studentId) } : {}),
+        },
+      }));
+      const audit = data.audit.map((e) => ({ ...e, entityId: renamed(e.entityId), studentId: renamed(e.studentId) }));
+      const users = data.users.map((u) => (u.studentIds ? { ...u, studentIds: u.studentIds.map(renamed) } : u));
+      const reviewReminders = data.reviewReminders.map((r) => ({ ...r, adaptationId: renamed(r.adaptationId) }));
+
+      return { students, adaptations, reports, revisions, audit, users, reviewReminders };
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Identity of a record in its collection; a record whose key changes is removed and saved again
+export const RECORD_KEYS: { [K in MigrationCollection]: (record: MigrationData[K][number]) => string } = {
+  students: (s) => s.id,
+  adaptations: (a) => `${a.studentId}:${a.id}`,
+  reports: (r) => `${r.studentId}:${r.id}`,
+  revisions: (r) => `${r.entityType}:${r.entityId}:${r.revision}`,
+  audit: (e) => e.id,
+  users: (u) => u.id,
+  reviewReminders: (r) => `${r.adaptationId}:${r.reviewDate}`,
+};
+
+function diffCollection<T>(before: T[], after: T[], key: (record: T) => string) {
+  const previous = new Map(before.map((r) => [key(r), JSON.stringify(r)]));
+  const current = new Set(after.map(key));
+  return {
+    saved: after.filter((r) => previous.get(key(r)) !== JSON.stringify(r)),
+    removed: before.filter((r) => !current.has(key(r))),
+  };
+}
+
+export function diffMigrationData(before: MigrationData, after: MigrationData): MigrationChanges {
+  const changes = {} as MigrationChanges;
+  for (const collection of Object.keys(RECORD_KEYS) as MigrationCollection[]) {
+    (changes as any)[collection] = diffCollection<any>(before[collection], after[collection], RECORD_KEYS[collection]);
+  }
+  return changes;
+}
+
+export function pendingMigrations(version: number, migrations = MIGRATIONS) {
+  return migrations.filter((m) => m.version > version);
+}
+
+// Apply every step above the target's version, in order
+export async function runMigrations(
+  target: MigrationTarget,
+  options: { dryRun?: boolean; generateId: () => string; migrations?: Migration[] }
+): Promise<MigrationResult> {
+  const dryRun = options.dryRun ?? false;
+  const fromVersion = await target.getVersion();
+  const pending = pendingMigrations(fromVersion, options.migrations);
+  const steps: MigrationStepResult[] = [];
+  if (pending.length === 0) {
+    return { dryRun, fromVersion, toVersion: fromVersion, steps };
+  }
+
+  let data = await target.load();
+  for (const migration of pending) {
+    const next = migration.migrate(data, { generateId: options.generateId });
+    const changes = diffMigrationData(data, next);
+    const counts = Object.values(changes);
+    steps.push({
+      version: migration.version,
+      description: migration.description,
+      saved: counts.reduce((sum, c) => sum + c.saved.length, 0),
+      removed: counts.reduce((sum, c) => sum + c.removed.length, 0),
+    });
+
+    if (!dryRun) {
+      await target.write(next, changes);
+      await target.setVersion(migration.version);
+    }
+    data = next;
+  }
+
+  return { dryRun, fromVersion, toVersion: pending[pending.length - 1].version, steps };
+}
@@ -0,0 +1,141 @@
+// Modelos de e-mail das notificações (pt-BR)
+// - nova adaptação e adaptação alterada: para os professores das turmas do estudante
+// - revisão de adaptação próxima ou atrasada: para a coordenação
+// - relato que requer atenção (resultado negativo): para a coordenação
+// - cada modelo gera assunto, texto simples e HTML; valores do usuário são escapados no HTML
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Adaptation, NotificationTemplate, Report, Student } from '../types/index.ts';
+
+export const NOTIFICATION_TEMPLATE_LABELS: Record<NotificationTemplate, string> = {
+  'adaptation.created': 'Nova adaptação',
+  'adaptation.updated': 'Adaptação alterada',
+  'adaptation.review': 'Revisão de adaptação',
+  'report.attention': 'Relato requer atenção',
+};
+
+export interface NotificationData {
+  recipientName: string;
+  student: Pick<Student, 'name' | 'course' | 'class'>;
+  adaptation?: Pick<Adaptation, 'description' | 'justification' | 'date' | 'reviewDate' | 'endDate'>;
+  report?: Pick<Report, 'subject' | 'teacherName' | 'description' | 'date'>;
+  // Review reminders only
+  reviewOverdue?: boolean;
+  // Link to the app, when the deployment knows its public address
+  appUrl?: string;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value?: string) {
+  if (!value) return '';
+  // Plain dates (form inputs) carry no time zone; do not shift them
+  const plain = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (plain) return `${plain[3]}/${plain[2]}/${plain[1]}`;
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? '' : d.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+}
+
+// One paragraph of the message: a label and its (possibly multi-line) value
+type Section = [label: string, value: string];
+
+function layout(data: NotificationData, intro: string, sections: Section[]): Omit<RenderedNotification, 'subject'> {
+  const student = `${data.student.name} (${data.student.course} - Turma ${data.student.class})`;
+  const closing = data.appUrl ? `Acesse o sistema para mais detalhes: ${data.appUrl}` : 'Acesse o sistema para mais detalhes.';
+  const filled = sections.filter(([, value]) => value);
+
+  const text = [
+    `Olá, ${data.recipientName}.`,
+    '',
+    intro,
+    '',
+    `Estudante: ${student}`,
+    ...filled.map(([label, value]) => `${label}: ${value}`),
+    '',
+    closing,
+    '',
+    'Mensagem automática do Sistema de Adaptações Curriculares. Não responda este e-mail.',
+  ].join('\n');
+
+  const html = [
+    '<div style="font-family: Arial, sans-serif; font-size: 14px; color: #1f2937">',
+    `<p>Olá, ${escapeHtml(data.recipientName)}.</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    `<p><strong>Estudante:</strong> ${escapeHtml(student)}</p>`,
+    ...filled.map(
+      ([label, value]) => `<p><strong>${escapeHtml(label)}:</strong><br>${escapeHtml(value).replace(/\n/g, '<br>')}</p>`
+    ),
+    data.appUrl
+      ? `<p><a href="${escapeHtml(data.appUrl)}">Acessar o sistema</a></p>`
+      : '<p>Acesse o sistema para mais detalhes.</p>',
+    '<p style="color: #6b7280; font-size: 12px">Mensagem automática do Sistema de Adaptações Curriculares. Não responda este e-mail.</p>',
+    '</div>',
+  ].join('\n');
+
+  return { text, html };
+}
+
+export function renderNotification(template: NotificationTemplate, data: NotificationData): RenderedNotification {
+  if (template === 'report.attention') {
+    const report = data.report;
+    return {
+      subject: `Relato requer atenção: ${data.student.name}`,
+      ...layout(data, `${report?.teacherName || 'Um(a) professor(a)'} registrou um relato com resultado negativo.`, [
+        ['Disciplina', report?.subject || ''],
+        ['Data', formatDate(report?.date)],
+        ['Relato', report?.description || ''],
+      ]),
+    };
+  }
+
+  const adaptation = data.adaptation;
+
+  if (template === 'adaptation.review') {
+    const reviewDate = formatDate(adaptation?.reviewDate);
+    const overdue = data.reviewOverdue === true;
+    return {
+      subject: `${overdue ? 'Revisão de adaptação atrasada' : 'Revisão de adaptação próxima'}: ${data.student.name}`,
+      ...layout(
+        data,
+        overdue
+          ? `A revisão desta adaptação curricular está atrasada desde ${reviewDate}. Revise-a e registre a nova data de revisão.`
+          : `A revisão desta adaptação curricular está prevista para ${reviewDate}.`,
+        [
+          ['Data de término', formatDate(adaptation?.endDate)],
+          ['Descrição da necessidade', adaptation?.description || ''],
+          ['Justificativa', adaptation?.justification || ''],
+        ]
+      ),
+    };
+  }
+
+  const created = template === 'adaptation.created';
+  return {
+    subject: `${created ? 'Nova adaptação curricular' : 'Adaptação curricular alterada'}: ${data.student.name}`,
+    ...layout(
+      data,
+      created
+        ? 'A coordenação registrou uma nova adaptação curricular para um estudante da sua turma. Aplique-a nas suas aulas.'
+        : 'A coordenação alterou uma adaptação curricular de um estudante da sua turma. Confira o que mudou.',
+      [
+        ['Data', formatDate(adaptation?.date)],
+        ['Descrição da necessidade', adaptation?.description || ''],
+        ['Justificativa', adaptation?.justification || ''],
+      ]
+    ),
+  };
+}
@@ -0,0 +1,951 @@
+// Especificação OpenAPI 3 das rotas da edge function, servida em `GET /openapi.json`
+// - esquemas das entidades escritos à mão espelhando `types`; os de entrada saem dos
+//   esquemas de validação, para que documentação e servidor não divirjam
+// - uma entrada em ROUTES por rota de app.tsx, com parâmetros, corpo, resposta e erros
+// - o cliente tipado (`apiClient.ts`) é gerado a partir deste documento por
+//   `src/scripts/generate-api-client.ts`; rode-o de novo ao alterar uma rota
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { UserRole } from '../types/index.ts';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from './audit.ts';
+import { BACKUP_COLLECTION_LABELS, BACKUP_FORMAT } from './backup.ts';
+import { DATA_EXPORT_FORMAT } from './lgpd.ts';
+import { STUDENT_SORT_FIELDS } from './studentQuery.ts';
+import {
+  adaptationSchema,
+  assignmentSchema,
+  invitationRedemptionSchema,
+  invitationSchema,
+  MIN_PASSWORD_LENGTH,
+  REPORT_RESULTS,
+  reportSchema,
+  studentSchema,
+  USER_ROLES,
+  userSchema,
+  webhookSchema,
+  type FieldRule,
+} from './validation.ts';
+import { WEBHOOK_EVENTS } from './webhooks.ts';
+
+export type JsonSchema = { [key: string]: unknown };
+
+export const API_PREFIX = '/make-server-2a0842b8';
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const string: JsonSchema = { type: 'string' };
+const integer: JsonSchema = { type: 'integer' };
+const boolean: JsonSchema = { type: 'boolean' };
+const date: JsonSchema = { type: 'string', format: 'date' };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+const oneOf = (values: readonly string[]): JsonSchema => ({ type: 'string', enum: [...values] });
+const anyObject: JsonSchema = { type: 'object', additionalProperties: true };
+
+function object(required: Record<string, JsonSchema>, optional: Record<string, JsonSchema> = {}): JsonSchema {
+  return {
+    type: 'object',
+    properties: { ...required, ...optional },
+    required: Object.keys(required),
+  };
+}
+
+const RESTORE_MODES = ['merge', 'replace'];
+
+// One property per backup collection, all with the same schema
+function collectionFields(schema: JsonSchema) {
+  return Object.fromEntries(Object.keys(BACKUP_COLLECTION_LABELS).map((collection) => [collection, schema]));
+}
+
+// Every field optional, for updates (PUT sends only what changed)
+function partial(schema: JsonSchema): JsonSchema {
+  const optional = { ...schema };
+  delete optional.required;
+  return optional;
+}
+
+function fieldSchema(rule: FieldRule): JsonSchema {
+  switch (rule.type) {
+    case 'string':
+      return rule.maxLength ? { type: 'string', maxLength: rule.maxLength } : string;
+    case 'email':
+      return { type: 'string', format: 'email' };
+    case 'url':
+      return { type: 'string', format: 'uri' };
+    case 'date':
+      return date;
+    case 'enum':
+      return oneOf(rule.values);
+  }
+}
+
+// Request body accepted by one of the validation schemas
+function inputSchema(rules: Record<string, FieldRule>): JsonSchema {
+  const required: Record<string, JsonSchema> = {};
+  const optional: Record<string, JsonSchema> = {};
+  for (const [field, rule] of Object.entries(rules)) {
+    (rule.required ? required : optional)[field] = fieldSchema(rule);
+  }
+  return object(required, optional);
+}
+
+const versioned = { version: integer };
+
+const studentInput = inputSchema(studentSchema);
+const adaptationInput = inputSchema(adaptationSchema);
+const reportInput = inputSchema(reportSchema);
+const userInput = inputSchema(userSchema);
+const webhookInput = object(
+  { ...(inputSchema(webhookSchema).properties as Record<string, JsonSchema>), events: arrayOf(oneOf(WEBHOOK_EVENTS)) },
+  { active: boolean }
+);
+
+const SCHEMAS: Record<string, JsonSchema> = {
+  Error: object(
+    // `requestId` matches the X-Request-Id header and the server's log lines
+    { error: string, requestId: string },
+    {
+      // 400 from validation
+      fields: arrayOf(ref('FieldError')),
+      // 412: the stored copy someone else saved
+      current: anyObject,
+      // 409 on a duplicate registration number
+      student: ref('Student'),
+      // ...held by a student in the recycle bin: the route that restores them
+      restorePath: string,
+    }
+  ),
+  FieldError: object({ field: string, message: string }),
+  Success: object({ success: boolean }),
+
+  User: object(
+    { id: string, email: string, name: string, role: oneOf(USER_ROLES) },
+    { deactivatedAt: dateTime, deactivatedBy: string, passwordResetAt: dateTime, studentIds: arrayOf(string) }
+  ),
+  Student: object(
+    {
+      id: string,
+      name: string,
+      course: string,
+      class: string,
+      birthDate: date,
+      registrationNumber: string,
+      createdAt: dateTime,
+      createdBy: string,
+    },
+    {
+      guardianName: string,
+      guardianContact: string,
+      updatedAt: dateTime,
+      updatedBy: string,
+      archivedAt: dateTime,
+      archivedBy: string,
+      anonymizedAt: dateTime,
+      anonymizedBy: string,
+      ...versioned,
+    }
+  ),
+  StudentListItem: { allOf: [ref('Student'), object({ adaptationCount: integer })] },
+  ArchivedStudent: { allOf: [ref('Student'), object({ adaptationCount: integer, reportCount: integer })] },
+  StudentPage: object({
+    students: arrayOf(ref('StudentListItem')),
+    nextCursor: { type: 'string', nullable: true },
+    total: integer,
+  }),
+  Adaptation: object(
+    {
+      id: string,
+      studentId: string,
+      description: string,
+      justification: string,
+      date,
+      createdAt: dateTime,
+      createdBy: string,
+    },
+    { reviewDate: date, endDate: date, updatedAt: dateTime, archivedAt: dateTime, ...versioned }
+  ),
+  PendingReview: object({
+    adaptation: ref('Adaptation'),
+    studentName: string,
+    course: string,
+    class: string,
+    status: oneOf(['ended', 'overdue', 'due', 'ok']),
+    reviewDate: date,
+    daysUntilReview: integer,
+  }),
+  Report: object(
+    {
+      id: string,
+      studentId: string,
+      teacherId: string,
+      teacherName: string,
+      subject: string,
+      date,
+      result: oneOf(REPORT_RESULTS),
+      description: string,
+      createdAt: dateTime,
+    },
+    { updatedAt: dateTime, archivedAt: dateTime, shared: boolean, sharedAt: dateTime, sharedBy: string, ...versioned }
+  ),
+  TeacherReport: { allOf: [ref('Report'), object({ studentName: string })] },
+  StudentReport: object({
+    student: ref('Student'),
+    adaptations: arrayOf(ref('Adaptation')),
+    reports: arrayOf(ref('Report')),
+  }),
+  GuardianStudentView: object({
+    student: ref('Student'),
+    adaptations: arrayOf(ref('Adaptation')),
+    reports: arrayOf(ref('Report')),
+  }),
+  Revision: object(
+    {
+      id: string,
+      entityType: oneOf(['adaptation', 'report']),
+      entityId: string,
+      studentId: string,
+      revision: integer,
+      createdAt: dateTime,
+      authorId: string,
+      authorName: string,
+      snapshot: anyObject,
+    },
+    { restoredFrom: integer }
+  ),
+  Assignment: object({
+    id: string,
+    teacherId: string,
+    teacherName: string,
+    course: string,
+    class: string,
+    subject: string,
+    createdAt: dateTime,
+    createdBy: string,
+  }),
+  Invitation: object(
+    {
+      code: string,
+      email: string,
+      role: oneOf(USER_ROLES),
+      createdAt: dateTime,
+      createdBy: string,
+      createdByName: string,
+      expiresAt: dateTime,
+    },
+    { usedAt: dateTime, usedBy: string }
+  ),
+  Webhook: object(
+    {
+      id: string,
+      url: string,
+      description: string,
+      events: arrayOf(oneOf(WEBHOOK_EVENTS)),
+      active: boolean,
+      secret: string,
+      createdAt: dateTime,
+      createdBy: string,
+    },
+    { updatedAt: dateTime }
+  ),
+  WebhookDelivery: object(
+    {
+      id: string,
+      webhookId: string,
+      event: oneOf([...WEBHOOK_EVENTS, 'ping']),
+      body: string,
+      status: oneOf(['pending', 'success', 'failed']),
+      attempts: integer,
+      createdAt: dateTime,
+    },
+    { lastAttemptAt: dateTime, nextAttemptAt: dateTime, responseStatus: integer, error: string }
+  ),
+  Notification: object(
+    {
+      id: string,
+      template: oneOf(['adaptation.created', 'adaptation.updated', 'adaptation.review', 'report.attention']),
+      to: object({ id: string, name: string, email: string }),
+      subject: string,
+      text: string,
+      html: string,
+      status: oneOf(['pending', 'sent', 'failed']),
+      attempts: integer,
+      createdAt: dateTime,
+    },
+    { sentAt: dateTime, transport: string, error: string }
+  ),
+  AuditEntry: object({
+    id: string,
+    timestamp: dateTime,
+    actorId: string,
+    actorName: string,
+    action: oneOf(Object.keys(AUDIT_ACTION_LABELS)),
+    entityType: oneOf(Object.keys(AUDIT_ENTITY_LABELS)),
+    entityId: string,
+    entityLabel: string,
+    studentId: string,
+    changes: { type: 'object', additionalProperties: object({ before: {}, after: {} }) },
+  }),
+  Stats: object({
+    totals: object({ students: integer, studentsWithAdaptations: integer, adaptations: integer, reports: integer }),
+    reportsByResult: arrayOf(object({ result: oneOf(REPORT_RESULTS), count: integer })),
+    reportsBySubject: arrayOf(object({ subject: string, count: integer })),
+    byClass: arrayOf(object({ class: string, students: integer, studentsWithAdaptations: integer, reports: integer })),
+    byMonth: arrayOf(object({ month: string, adaptations: integer, reports: integer })),
+    courses: arrayOf(string),
+    classes: arrayOf(string),
+  }),
+  ImportRowResult: object({
+    line: integer,
+    data: partial(studentInput),
+    status: oneOf(['valid', 'invalid', 'duplicate']),
+    errors: arrayOf(ref('FieldError')),
+  }),
+  StudentImportResult: object({
+    dryRun: boolean,
+    rows: arrayOf(ref('ImportRowResult')),
+    created: arrayOf(ref('Student')),
+  }),
+  MigrationStatus: object({
+    version: integer,
+    latestVersion: integer,
+    pending: arrayOf(object({ version: integer, description: string })),
+  }),
+  MigrationResult: object({
+    dryRun: boolean,
+    fromVersion: integer,
+    toVersion: integer,
+    steps: arrayOf(object({ version: integer, description: string, saved: integer, removed: integer })),
+  }),
+  BackupArchive: object({
+    format: oneOf([BACKUP_FORMAT]),
+    version: integer,
+    schemaVersion: integer,
+    createdAt: dateTime,
+    createdBy: object({ id: string, name: string }),
+    source: oneOf(['server', 'local']),
+    counts: object(collectionFields(integer)),
+    data: object({
+      users: arrayOf(ref('User')),
+      students: arrayOf(ref('Student')),
+      adaptations: arrayOf(ref('Adaptation')),
+      reports: arrayOf(ref('Report')),
+      revisions: arrayOf(ref('Revision')),
+      audit: arrayOf(ref('AuditEntry')),
+      assignments: arrayOf(ref('Assignment')),
+    }),
+  }),
+  RestoreResult: object({
+    dryRun: boolean,
+    mode: oneOf(RESTORE_MODES),
+    createdAt: dateTime,
+    source: oneOf(['server', 'local']),
+    schemaVersion: integer,
+    users: oneOf(['restored', 'kept']),
+    collections: object(
+      collectionFields(object({ created: integer, updated: integer, removed: integer, unchanged: integer }))
+    ),
+  }),
+  StudentDataExport: object({
+    format: oneOf([DATA_EXPORT_FORMAT]),
+    version: integer,
+    exportedAt: dateTime,
+    exportedBy: object({ id: string, name: string }),
+    student: ref('Student'),
+    adaptations: arrayOf(ref('Adaptation')),
+    reports: arrayOf(ref('Report')),
+    revisions: arrayOf(ref('Revision')),
+    audit: arrayOf(ref('AuditEntry')),
+    guardians: arrayOf(object({ id: string, name: string, email: string })),
+    notifications: arrayOf(ref('Notification')),
+    webhookDeliveries: arrayOf(ref('WebhookDelivery')),
+  }),
+
+  StudentInput: studentInput,
+  AdaptationInput: adaptationInput,
+  ReportInput: reportInput,
+  UserInput: userInput,
+  AssignmentInput: inputSchema(assignmentSchema),
+  InvitationInput: inputSchema(invitationSchema),
+  InvitationRedemption: inputSchema(invitationRedemptionSchema),
+  WebhookInput: webhookInput,
+};
+
+// Shared error responses, by status
+const ERRORS: Record<number, string> = {
+  400: 'Dados inválidos (`fields` lista cada campo)',
+  401: 'Sessão ausente ou expirada',
+  403: 'Perfil sem acesso a esta rota ou registro',
+  404: 'Registro não encontrado',
+  409: 'Conflito com um registro existente',
+  412: 'O registro foi alterado por outra pessoa (`current` traz a cópia gravada)',
+  428: 'Cabeçalho If-Match ausente',
+  500: 'Erro interno',
+};
+
+export interface ApiRoute {
+  method: 'get' | 'post' | 'put' | 'delete';
+  // Hono style (`/students/:id`), without API_PREFIX
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  // Who may call it; omitted means any staff member (coordenador or professor)
+  roles?: UserRole[];
+  public?: boolean;
+  query?: Record<string, JsonSchema>;
+  requiredQuery?: string[];
+  // PUT and DELETE of versioned records
+  ifMatch?: boolean;
+  body?: JsonSchema;
+  optionalBody?: boolean;
+  response: JsonSchema;
+  errors?: number[];
+}
+
+const COORDINATOR: UserRole[] = ['coordenador'];
+const success = ref('Success');
+
+const dateRange = { from: date, to: date };
+
+export const ROUTES: ApiRoute[] = [
+  // Authentication
+  {
+    method: 'post', path: '/signup', operationId: 'signUp', tag: 'Autenticação', public: true,
+    summary: 'Cria uma conta de professor',
+    body: object({ email: { type: 'string', format: 'email' }, password: { type: 'string', minLength: MIN_PASSWORD_LENGTH }, name: string }, { role: oneOf(['professor']) }),
+    response: object({ user: object({ id: string }, { email: string, user_metadata: anyObject }) }),
+    errors: [400, 403],
+  },
+  {
+    method: 'post', path: '/signup/invitation', operationId: 'redeemInvitation', tag: 'Autenticação', public: true,
+    summary: 'Cria a conta de um convite',
+    body: { allOf: [ref('InvitationRedemption'), object({ password: { type: 'string', minLength: MIN_PASSWORD_LENGTH } })] },
+    response: object({ user: ref('User') }),
+    errors: [400],
+  },
+  {
+    method: 'get', path: '/me', operationId: 'getProfile', tag: 'Autenticação', roles: ['coordenador', 'professor', 'responsavel'],
+    summary: 'Perfil do usuário autenticado',
+    response: object({ user: ref('User') }),
+  },
+
+  // Users
+  {
+    method: 'get', path: '/users', operationId: 'listUsers', tag: 'Usuários', roles: COORDINATOR,
+    summary: 'Lista os usuários por nome',
+    response: object({ users: arrayOf(ref('User')) }),
+  },
+  {
+    method: 'put', path: '/users/:id', operationId: 'updateUser', tag: 'Usuários', roles: COORDINATOR,
+    summary: 'Altera nome e perfil de acesso',
+    body: partial(userInput),
+    response: object({ user: ref('User') }),
+    errors: [400, 404],
+  },
+  {
+    method: 'put', path: '/users/:id/students', operationId: 'setGuardianStudents', tag: 'Usuários', roles: COORDINATOR,
+    summary: 'Define os estudantes que um responsável acompanha',
+    body: object({ studentIds: arrayOf(string) }),
+    response: object({ user: ref('User') }),
+    errors: [400, 404],
+  },
+  {
+    method: 'post', path: '/users/:id/deactivate', operationId: 'deactivateUser', tag: 'Usuários', roles: COORDINATOR,
+    summary: 'Desativa a conta',
+    response: object({ user: ref('User') }),
+    errors: [400, 404],
+  },
+  {
+    method: 'post', path: '/users/:id/reactivate', operationId: 'reactivateUser', tag: 'Usuários', roles: COORDINATOR,
+    summary: 'Reativa a conta',
+    response: object({ user: ref('User') }),
+    errors: [400, 404],
+  },
+  {
+    method: 'post', path: '/users/:id/reset-password', operationId: 'resetUserPassword', tag: 'Usuários', roles: COORDINATOR,
+    summary: 'Define uma nova senha',
+    body: object({ password: { type: 'string', minLength: MIN_PASSWORD_LENGTH } }),
+    response: object({ user: ref('User') }),
+    errors: [400, 404],
+  },
+
+  // Invitations
+  {
+    method: 'get', path: '/invitations', operationId: 'listInvitations', tag: 'Convites', roles: COORDINATOR,
+    summary: 'Lista os convites, mais recentes primeiro',
+    response: object({ invitations: arrayOf(ref('Invitation')) }),
+  },
+  {
+    method: 'post', path: '/invitations', operationId: 'createInvitation', tag: 'Convites', roles: COORDINATOR,
+    summary: 'Cria um convite',
+    body: ref('InvitationInput'),
+    response: object({ invitation: ref('Invitation') }),
+    errors: [400, 409],
+  },
+  {
+    method: 'delete', path: '/invitations/:code', operationId: 'revokeInvitation', tag: 'Convites', roles: COORDINATOR,
+    summary: 'Revoga um convite ainda não utilizado',
+    response: success,
+    errors: [400, 404],
+  },
+
+  // Class assignments
+  {
+    method: 'get', path: '/assignments', operationId: 'listAssignments', tag: 'Atribuições de turmas',
+    summary: 'Atribuições de turmas; professores recebem sempre as próprias',
+    query: { teacherId: string },
+    response: object({ assignments: arrayOf(ref('Assignment')) }),
+  },
+  {
+    method: 'post', path: '/assignments', operationId: 'createAssignment', tag: 'Atribuições de turmas', roles: COORDINATOR,
+    summary: 'Atribui uma turma e disciplina a um professor',
+    body: ref('AssignmentInput'),
+    response: object({ assignment: ref('Assignment') }),
+    errors: [400, 409],
+  },
+  {
+    method: 'delete', path: '/assignments/:teacherId/:id', operationId: 'deleteAssignment', tag: 'Atribuições de turmas', roles: COORDINATOR,
+    summary: 'Remove uma atribuição',
+    response: success,
+    errors: [404],
+  },
+
+  // Students
+  {
+    method: 'get', path: '/students', operationId: 'listStudents', tag: 'Estudantes',
+    summary: 'Página de estudantes filtrada e ordenada',
+    query: {
+      name: string,
+      course: string,
+      class: string,
+      hasAdaptations: boolean,
+      sort: oneOf(STUDENT_SORT_FIELDS),
+      order: oneOf(['asc', 'desc']),
+      limit: integer,
+      cursor: string,
+    },
+    response: ref('StudentPage'),
+  },
+  {
+    method: 'post', path: '/students', operationId: 'createStudent', tag: 'Estudantes', roles: COORDINATOR,
+    summary: 'Cadastra um estudante',
+    body: ref('StudentInput'),
+    response: object({ student: ref('Student') }),
+    errors: [400, 409],
+  },
+  {
+    method: 'post', path: '/students/import', operationId: 'importStudents', tag: 'Estudantes', roles: COORDINATOR,
+    summary: 'Importa estudantes em lote; com `dryRun` apenas valida cada linha',
+    body: object({ students: arrayOf(anyObject) }, { dryRun: boolean }),
+    response: ref('StudentImportResult'),
+    errors: [400],
+  },
+  {
+    method: 'get', path: '/students/:id', operationId: 'getStudent', tag: 'Estudantes',
+    summary: 'Dados de um estudante',
+    response: object({ student: ref('Student') }),
+    errors: [404],
+  },
+  {
+    method: 'put', path: '/students/:id', operationId: 'updateStudent', tag: 'Estudantes', roles: COORDINATOR, ifMatch: true,
+    summary: 'Altera um estudante',
+    body: partial(studentInput),
+    response: object({ student: ref('Student') }),
+    errors: [400, 404, 409, 412, 428],
+  },
+  {
+    method: 'delete', path: '/students/:id', operationId: 'archiveStudent', tag: 'Estudantes', roles: COORDINATOR, ifMatch: true,
+    summary: 'Move o estudante, com adaptações e relatos, para a lixeira',
+    response: success,
+    errors: [404, 412, 428],
+  },
+
+  // Adaptations
+  {
+    method: 'get', path: '/adaptations/:studentId', operationId: 'listAdaptations', tag: 'Adaptações',
+    summary: 'Adaptações de um estudante',
+    response: object({ adaptations: arrayOf(ref('Adaptation')) }),
+    errors: [404],
+  },
+  {
+    method: 'post', path: '/adaptations', operationId: 'createAdaptation', tag: 'Adaptações', roles: COORDINATOR,
+    summary: 'Registra uma adaptação',
+    body: ref('AdaptationInput'),
+    response: object({ adaptation: ref('Adaptation') }),
+    errors: [400, 404],
+  },
+  {
+    method: 'get', path: '/adaptations/:studentId/:id', operationId: 'getAdaptation', tag: 'Adaptações',
+    summary: 'Uma adaptação',
+    response: object({ adaptation: ref('Adaptation') }),
+    errors: [404],
+  },
+  {
+    method: 'put', path: '/adaptations/:studentId/:id', operationId: 'updateAdaptation', tag: 'Adaptações', roles: COORDINATOR, ifMatch: true,
+    summary: 'Altera uma adaptação',
+    body: partial(adaptationInput),
+    response: object({ adaptation: ref('Adaptation') }),
+    errors: [400, 404, 412, 428],
+  },
+  {
+    method: 'delete', path: '/adaptations/:studentId/:id', operationId: 'deleteAdaptation', tag: 'Adaptações', roles: COORDINATOR, ifMatch: true,
+    summary: 'Exclui uma adaptação',
+    response: success,
+    errors: [404, 412, 428],
+  },
+  {
+    method: 'get', path: '/adaptations/:studentId/:id/revisions', operationId: 'listAdaptationRevisions', tag: 'Adaptações',
+    summary: 'Histórico de revisões, mais recente primeiro',
+    response: object({ revisions: arrayOf(ref('Revision')) }),
+    errors: [404],
+  },
+  {
+    method: 'post', path: '/adaptations/:studentId/:id/revisions/:revision/restore', operationId: 'restoreAdaptationRevision', tag: 'Adaptações', roles: COORDINATOR, ifMatch: true,
+    summary: 'Grava o conteúdo de uma revisão anterior como nova revisão',
+    response: object({ adaptation: ref('Adaptation') }),
+    errors: [404, 412, 428],
+  },
+
+  // Reports
+  {
+    method: 'get', path: '/reports', operationId: 'listTeacherReports', tag: 'Relatos',
+    summary: 'Relatos de um professor (`me` para o usuário autenticado) em todos os estudantes',
+    query: { teacherId: string, subject: string, ...dateRange },
+    requiredQuery: ['teacherId'],
+    response: object({ reports: arrayOf(ref('TeacherReport')) }),
+    errors: [400],
+  },
+  {
+    method: 'post', path: '/reports', operationId: 'createReport', tag: 'Relatos',
+    summary: 'Registra um relato; sem `date`, vale o dia atual',
+    body: ref('ReportInput'),
+    response: object({ report: ref('Report') }),
+    errors: [400, 404],
+  },
+  {
+    method: 'get', path: '/student-report/:studentId', operationId: 'listStudentReports', tag: 'Relatos',
+    summary: 'Relatos de um estudante',
+    response: object({ reports: arrayOf(ref('Report')) }),
+    errors: [404],
+  },
+  {
+    method: 'get', path: '/reports/:studentId', operationId: 'getStudentReport', tag: 'Relatos',
+    summary: 'Estudante com adaptações e relatos (mais recentes primeiro)',
+    response: ref('StudentReport'),
+    errors: [404],
+  },
+  {
+    method: 'get', path: '/reports/:studentId/:id', operationId: 'getReport', tag: 'Relatos',
+    summary: 'Um relato',
+    response: object({ report: ref('Report') }),
+    errors: [404],
+  },
+  {
+    method: 'put', path: '/reports/:studentId/:id', operationId: 'updateReport', tag: 'Relatos', ifMatch: true,
+    summary: 'Altera um relato (apenas o autor)',
+    body: partial(reportInput),
+    response: object({ report: ref('Report') }),
+    errors: [400, 404, 412, 428],
+  },
+  {
+    method: 'delete', path: '/reports/:studentId/:id', operationId: 'deleteReport', tag: 'Relatos', ifMatch: true,
+    summary: 'Exclui um relato (apenas o autor)',
+    response: success,
+    errors: [404, 412, 428],
+  },
+  {
+    method: 'get', path: '/reports/:studentId/:id/revisions', operationId: 'listReportRevisions', tag: 'Relatos',
+    summary: 'Histórico de revisões, mais recente primeiro',
+    response: object({ revisions: arrayOf(ref('Revision')) }),
+    errors: [404],
+  },
+  {
+    method: 'post', path: '/reports/:studentId/:id/revisions/:revision/restore', operationId: 'restoreReportRevision', tag: 'Relatos', roles: COORDINATOR, ifMatch: true,
+    summary: 'Grava o conteúdo de uma revisão anterior como nova revisão',
+    response: object({ report: ref('Report') }),
+    errors: [404, 412, 428],
+  },
+  {
+    method: 'post', path: '/reports/:studentId/:id/share', operationId: 'shareReport', tag: 'Relatos', roles: COORDINATOR,
+    summary: 'Compartilha (ou deixa de compartilhar) o relato com os responsáveis',
+    body: object({ shared: boolean }),
+    response: object({ report: ref('Report') }),
+    errors: [404],
+  },
+
+  // Guardian portal
+  {
+    method: 'get', path: '/guardian/students', operationId: 'listGuardianStudents', tag: 'Portal do responsável', roles: ['responsavel'],
+    summary: 'Estudantes vinculados, com adaptações ativas e relatos compartilhados',
+    response: object({ students: arrayOf(ref('GuardianStudentView')) }),
+  },
+
+  // Recycle bin
+  {
+    method: 'get', path: '/trash/students', operationId: 'listArchivedStudents', tag: 'Lixeira', roles: COORDINATOR,
+    summary: 'Estudantes na lixeira, mais recentes primeiro',
+    response: object({ students: arrayOf(ref('ArchivedStudent')) }),
+  },
+  {
+    method: 'post', path: '/trash/students/:id/restore', operationId: 'restoreStudent', tag: 'Lixeira', roles: COORDINATOR,
+    summary: 'Restaura o estudante com adaptações e relatos',
+    response: object({ student: ref('Student') }),
+    errors: [404],
+  },
+  {
+    method: 'delete', path: '/trash/students/:id', operationId: 'purgeStudent', tag: 'Lixeira', roles: COORDINATOR,
+    summary: 'Exclui definitivamente; `confirm` deve repetir a matrícula',
+    query: { confirm: string },
+    requiredQuery: ['confirm'],
+    response: success,
+    errors: [400, 404],
+  },
+
+  // LGPD requests
+  {
+    method: 'get', path: '/students/:id/data-export', operationId: 'exportStudentData', tag: 'LGPD', roles: COORDINATOR,
+    summary: 'Tudo o que o sistema guarda sobre o estudante, em um arquivo JSON',
+    response: ref('StudentDataExport'),
+    errors: [404],
+  },
+  {
+    method: 'post', path: '/students/:id/anonymize', operationId: 'anonymizeStudent', tag: 'LGPD', roles: COORDINATOR,
+    summary: 'Remove de forma irreversível os dados pessoais do estudante; `confirm` deve repetir a matrícula',
+    query: { confirm: string },
+    requiredQuery: ['confirm'],
+    response: object({ student: ref('Student') }),
+    errors: [400, 404, 409],
+  },
+
+  // Webhooks
+  {
+    method: 'get', path: '/webhooks', operationId: 'listWebhooks', tag: 'Webhooks', roles: COORDINATOR,
+    summary: 'Webhooks cadastrados',
+    response: object({ webhooks: arrayOf(ref('Webhook')) }),
+  },
+  {
+    method: 'post', path: '/webhooks', operationId: 'createWebhook', tag: 'Webhooks', roles: COORDINATOR,
+    summary: 'Cadastra um webhook; o segredo de assinatura é gerado pelo servidor',
+    body: ref('WebhookInput'),
+    response: object({ webhook: ref('Webhook') }),
+    errors: [400],
+  },
+  {
+    method: 'post', path: '/webhooks/process', operationId: 'processWebhookDeliveries', tag: 'Webhooks', roles: COORDINATOR,
+    summary: 'Reenvia as entregas com nova tentativa vencida',
+    response: object({ processed: integer }),
+  },
+  {
+    method: 'put', path: '/webhooks/:id', operationId: 'updateWebhook', tag: 'Webhooks', roles: COORDINATOR,
+    summary: 'Altera um webhook',
+    body: partial(webhookInput),
+    response: object({ webhook: ref('Webhook') }),
+    errors: [400, 404],
+  },
+  {
+    method: 'delete', path: '/webhooks/:id', operationId: 'deleteWebhook', tag: 'Webhooks', roles: COORDINATOR,
+    summary: 'Exclui um webhook e o registro de entregas',
+    response: success,
+    errors: [404],
+  },
+  {
+    method: 'get', path: '/webhooks/:id/deliveries', operationId: 'listWebhookDeliveries', tag: 'Webhooks', roles: COORDINATOR,
+    summary: 'Entregas recentes, mais recentes primeiro',
+    response: object({ deliveries: arrayOf(ref('WebhookDelivery')) }),
+  },
+  {
+    method: 'post', path: '/webhooks/:id/test', operationId: 'testWebhook', tag: 'Webhooks', roles: COORDINATOR,
+    summary: 'Envia o evento `ping`',
+    response: object({ delivery: ref('WebhookDelivery') }),
+    errors: [404],
+  },
+  {
+    method: 'post', path: '/webhooks/:id/deliveries/:deliveryId/retry', operationId: 'retryWebhookDelivery', tag: 'Webhooks', roles: COORDINATOR,
+    summary: 'Reenvia uma entrega não concluída',
+    response: object({ delivery: ref('WebhookDelivery') }),
+    errors: [400, 404],
+  },
+
+  // Email notifications
+  {
+    method: 'get', path: '/notifications', operationId: 'listNotifications', tag: 'Notificações', roles: COORDINATOR,
+    summary: 'Caixa de saída de e-mails',
+    response: object({ notifications: arrayOf(ref('Notification')) }),
+  },
+  {
+    method: 'post', path: '/notifications/process', operationId: 'processNotifications', tag: 'Notificações', roles: COORDINATOR,
+    summary: 'Envia os e-mails pendentes',
+    response: object({ sent: integer, failed: integer }),
+  },
+
+  // Adaptation reviews
+  {
+    method: 'get', path: '/adaptation-reviews', operationId: 'listPendingReviews', tag: 'Revisões', roles: COORDINATOR,
+    summary: 'Adaptações com revisão vencida ou próxima',
+    response: object({ reviews: arrayOf(ref('PendingReview')) }),
+  },
+  {
+    method: 'post', path: '/adaptation-reviews/remind', operationId: 'sendReviewReminders', tag: 'Revisões', roles: COORDINATOR,
+    summary: 'Enfileira lembretes das revisões ainda não lembradas',
+    response: object({ reminded: integer }),
+  },
+
+  // Audit trail and indicators
+  {
+    method: 'get', path: '/audit', operationId: 'listAuditEntries', tag: 'Auditoria', roles: COORDINATOR,
+    summary: 'Trilha de auditoria filtrada',
+    query: {
+      entityType: oneOf(Object.keys(AUDIT_ENTITY_LABELS)),
+      action: oneOf(Object.keys(AUDIT_ACTION_LABELS)),
+      actorId: string,
+      studentId: string,
+      ...dateRange,
+      limit: integer,
+    },
+    response: object({ entries: arrayOf(ref('AuditEntry')) }),
+  },
+  {
+    method: 'get', path: '/stats', operationId: 'getStats', tag: 'Indicadores', roles: COORDINATOR,
+    summary: 'Indicadores do painel da coordenação',
+    query: { course: string, class: string, ...dateRange },
+    response: object({ stats: ref('Stats') }),
+  },
+
+  // Schema migrations
+  {
+    method: 'get', path: '/migrations', operationId: 'getMigrationStatus', tag: 'Migrações', roles: COORDINATOR,
+    summary: 'Versão do esquema gravada e passos pendentes',
+    response: ref('MigrationStatus'),
+  },
+  {
+    method: 'post', path: '/migrations/run', operationId: 'runMigrations', tag: 'Migrações', roles: COORDINATOR,
+    summary: 'Aplica os passos pendentes; com `dryRun` apenas conta as alterações',
+    body: object({}, { dryRun: boolean }),
+    optionalBody: true,
+    response: object({ result: ref('MigrationResult') }),
+  },
+
+  // Backup and restore
+  {
+    method: 'get', path: '/backup', operationId: 'getBackup', tag: 'Cópia de segurança', roles: COORDINATOR,
+    summary: 'Cópia completa dos dados, em um arquivo JSON versionado',
+    response: ref('BackupArchive'),
+  },
+  {
+    method: 'post', path: '/backup/restore', operationId: 'restoreBackup', tag: 'Cópia de segurança', roles: COORDINATOR,
+    summary: 'Valida e restaura uma cópia, mesclando ou substituindo os registros; com `dryRun` apenas conta as alterações',
+    body: object({ archive: ref('BackupArchive'), mode: oneOf(RESTORE_MODES) }, { dryRun: boolean }),
+    response: object({ result: ref('RestoreResult') }),
+    errors: [400, 409],
+  },
+
+  // This document
+  {
+    method: 'get', path: '/openapi.json', operationId: 'getOpenApiDocument', tag: 'Documentação', public: true,
+    summary: 'Este documento',
+    response: anyObject,
+  },
+];
+
+// `:id` → `{id}`
+export function openApiPath(path: string) {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+export function pathParams(path: string) {
+  return [...path.matchAll(/:(\w+)/g)].map((match) => match[1]);
+}
+
+function errorResponse(status: number) {
+  return { $ref: `#/components/responses/E${status}` };
+}
+
+function operation(route: ApiRoute) {
+  const parameters: JsonSchema[] = [
+    ...pathParams(route.path).map((name) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: name === 'revision' ? integer : string,
+    })),
+    ...Object.entries(route.query || {}).map(([name, schema]) => ({
+      name,
+      in: 'query',
+      required: route.requiredQuery?.includes(name) ?? false,
+      schema,
+    })),
+  ];
+  if (route.ifMatch) {
+    parameters.push({
+      name: 'If-Match',
+      in: 'header',
+      required: true,
+      description: 'ETag com a versão carregada do registro, por exemplo `"3"`',
+      schema: string,
+    });
+  }
+
+  // Every route can fail unexpectedly; authenticated ones also check the session and profile
+  const statuses = new Set([...(route.errors || []), ...(route.public ? [] : [401, 403]), 500]);
+  const responses: Record<string, unknown> = {
+    200: { description: 'OK', content: { 'application/json': { schema: route.response } } },
+  };
+  for (const status of [...statuses].sort()) {
+    responses[status] = errorResponse(status);
+  }
+
+  const roles = route.public ? 'Rota pública.' : `Perfis: ${(route.roles || ['coordenador', 'professor']).join(', ')}.`;
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    description: roles,
+    tags: [route.tag],
+    ...(route.public ? { security: [] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(route.body
+      ? {
+          requestBody: {
+            required: !route.optionalBody,
+            content: { 'application/json': { schema: route.body } },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+export function buildOpenApiDocument(serverUrl = API_PREFIX) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of ROUTES) {
+    const path = openApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: operation(route) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Adaptações Curriculares',
+      version: '1.0.0',
+      description: 'Rotas da edge function `make-server-2a0842b8`. Mensagens de erro em português.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Token de acesso do Supabase Auth' },
+      },
+      schemas: SCHEMAS,
+      responses: Object.fromEntries(
+        Object.entries(ERRORS).map(([status, description]) => [
+          `E${status}`,
+          {
+            description,
+            headers: { 'X-Request-Id': { description: 'Identificador da requisição nos logs', schema: string } },
+            content: { 'application/json': { schema: ref('Error') } },
+          },
+        ])
+      ),
+    },
+  };
+}
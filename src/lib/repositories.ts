@@ -0,0 +1,162 @@
+// Repositórios de estudantes, adaptações e relatos
+// - uma interface por coleção; o servidor escolhe a implementação (KV do Supabase,
+//   memória ou arquivo SQLite) e as rotas só falam com a interface
+// - as listagens devolvem também os registros arquivados (lixeira); quem chama filtra
+// - `archiveStudent`/`purgeStudent` concentram as regras que envolvem as três coleções
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Adaptation, Report, Student } from '../types/index.ts';
+import { registrationKey } from './studentImport.ts';
+import { nextVersion } from './versioning.ts';
+
+export interface StudentRepository {
+  list(): Promise<Student[]>;
+  // Missing ids are left out
+  getMany(ids: string[]): Promise<Student[]>;
+  get(id: string): Promise<Student | null>;
+  // Student holding the registration number (compared with registrationKey)
+  findByRegistration(registrationNumber: string): Promise<Student | null>;
+  save(student: Student): Promise<void>;
+  saveMany(students: Student[]): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// Adaptations and reports belong to a student and are addressed through it
+export interface StudentRecordRepository<T extends { id: string; studentId: string }> {
+  list(): Promise<T[]>;
+  listByStudent(studentId: string): Promise<T[]>;
+  get(studentId: string, id: string): Promise<T | null>;
+  save(record: T): Promise<void>;
+  saveMany(records: T[]): Promise<void>;
+  removeMany(records: T[]): Promise<void>;
+}
+
+export type AdaptationRepository = StudentRecordRepository<Adaptation>;
+
+export interface ReportRepository extends StudentRecordRepository<Report> {
+  listByTeacher(teacherId: string): Promise<Report[]>;
+}
+
+export interface Repositories {
+  students: StudentRepository;
+  adaptations: AdaptationRepository;
+  reports: ReportRepository;
+}
+
+// Archive (or restore, with `archivedAt: undefined`) a student and everything
+// recorded for it, so the recycle bin can bring the whole history back.
+export async function archiveStudent(
+  repositories: Repositories,
+  student: Student,
+  stamp: { archivedAt?: string; archivedBy?: string }
+): Promise<Student> {
+  const [adaptations, reports] = await Promise.all([
+    repositories.adaptations.listByStudent(student.id),
+    repositories.reports.listByStudent(student.id),
+  ]);
+
+  const updated = { ...student, ...stamp, version: nextVersion(student) };
+  await repositories.students.save(updated);
+  await repositories.adaptations.saveMany(
+    adaptations.map((a) => ({ ...a, archivedAt: stamp.archivedAt, version: nextVersion(a) }))
+  );
+  await repositories.reports.saveMany(
+    reports.map((r) => ({ ...r, archivedAt: stamp.archivedAt, version: nextVersion(r) }))
+  );
+  return updated;
+}
+
+// Remove a student for good with its adaptations and reports, which are
+// returned so the caller can clean up what refers to them
+export async function purgeStudent(repositories: Repositories, student: Student) {
+  const [adaptations, reports] = await Promise.all([
+    repositories.adaptations.listByStudent(student.id),
+    repositories.reports.listByStudent(student.id),
+  ]);
+
+  await repositories.adaptations.removeMany(adaptations);
+  await repositories.reports.removeMany(reports);
+  await repositories.students.remove(student.id);
+  return { adaptations, reports };
+}
+
+// Records are copied in and out, like a real store would serialize them, so
+// callers never share objects with the repository
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function recordKey(record: { studentId: string; id: string }) {
+  return `${record.studentId}:${record.id}`;
+}
+
+function createMemoryRecords<T extends { id: string; studentId: string }>(initial: T[]) {
+  const records = new Map<string, T>(initial.map((r) => [recordKey(r), copy(r)]));
+  const repository: StudentRecordRepository<T> = {
+    async list() {
+      return [...records.values()].map(copy);
+    },
+    async listByStudent(studentId) {
+      return [...records.values()].filter((r) => r.studentId === studentId).map(copy);
+    },
+    async get(studentId, id) {
+      const record = records.get(recordKey({ studentId, id }));
+      return record ? copy(record) : null;
+    },
+    async save(record) {
+      records.set(recordKey(record), copy(record));
+    },
+    async saveMany(list) {
+      list.forEach((r) => records.set(recordKey(r), copy(r)));
+    },
+    async removeMany(list) {
+      list.forEach((r) => records.delete(recordKey(r)));
+    },
+  };
+  return { records, repository };
+}
+
+// Everything in memory, for tests and throwaway local servers
+export function createMemoryRepositories(
+  initial: { students?: Student[]; adaptations?: Adaptation[]; reports?: Report[] } = {}
+): Repositories {
+  const students = new Map<string, Student>((initial.students || []).map((s) => [s.id, copy(s)]));
+  const reports = createMemoryRecords(initial.reports || []);
+
+  return {
+    students: {
+      async list() {
+        return [...students.values()].map(copy);
+      },
+      async getMany(ids) {
+        return ids.filter((id) => students.has(id)).map((id) => copy(students.get(id)!));
+      },
+      async get(id) {
+        const student = students.get(id);
+        return student ? copy(student) : null;
+      },
+      async findByRegistration(registrationNumber) {
+        const key = registrationKey(registrationNumber);
+        const student = [...students.values()].find((s) => registrationKey(s.registrationNumber) === key);
+        return student ? copy(student) : null;
+      },
+      async save(student) {
+        students.set(student.id, copy(student));
+      },
+      async saveMany(list) {
+        list.forEach((s) => students.set(s.id, copy(s)));
+      },
+      async remove(id) {
+        students.delete(id);
+      },
+    },
+    adaptations: createMemoryRecords(initial.adaptations || []).repository,
+    reports: {
+      ...reports.repository,
+      async listByTeacher(teacherId) {
+        return [...reports.records.values()].filter((r) => r.teacherId === teacherId).map(copy);
+      },
+    },
+  };
+}
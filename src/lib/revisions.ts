@@ -0,0 +1,89 @@
+// Histórico de revisões de adaptações e relatos
+// - cada criação ou alteração grava um snapshot numerado (1, 2, 3...)
+// - registros anteriores ao histórico ganham a revisão 1 na primeira alteração
+// - restaurar uma revisão é uma nova alteração, marcada com `restoredFrom`
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Adaptation, Report, Revision, RevisionEntityType } from '../types/index.ts';
+import { adaptationSchema, reportSchema } from './validation.ts';
+
+interface RevisionInput {
+  id: string;
+  entityType: RevisionEntityType;
+  record: Adaptation | Report;
+  author: { id: string; name: string };
+  createdAt?: string;
+  restoredFrom?: number;
+}
+
+// Content fields brought back on restore; the student link never changes
+const RESTORABLE_FIELDS: Record<RevisionEntityType, string[]> = {
+  adaptation: Object.keys(adaptationSchema).filter((field) => field !== 'studentId'),
+  report: Object.keys(reportSchema).filter((field) => field !== 'studentId'),
+};
+
+// Last known writer of a record saved before the history existed
+function previousAuthor(record: Adaptation | Report) {
+  return 'teacherId' in record
+    ? { id: record.teacherId || '', name: record.teacherName || '' }
+    : { id: record.createdBy || '', name: '' };
+}
+
+function createRevision(revision: number, { id, entityType, record, author, createdAt, restoredFrom }: RevisionInput): Revision {
+  return {
+    id,
+    entityType,
+    entityId: String(record.id || ''),
+    studentId: String(record.studentId || ''),
+    revision,
+    createdAt: createdAt || new Date().toISOString(),
+    authorId: author.id,
+    authorName: author.name,
+    ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+    snapshot: { ...record },
+  };
+}
+
+// Revisions to append for a write. `history` is what is already stored for the
+// record; a record written before the history existed gets its previous state
+// (`before`) stored as revision 1 so the first edit is not lost.
+export function nextRevisions(
+  history: Revision[],
+  input: RevisionInput & { before: Adaptation | Report | null; generateId: () => string }
+): Revision[] {
+  const { before, generateId, ...current } = input;
+  const revisions: Revision[] = [];
+  let last = history.reduce((max, r) => Math.max(max, r.revision), 0);
+
+  if (last === 0 && before) {
+    last = 1;
+    revisions.push(createRevision(last, {
+      id: generateId(),
+      entityType: current.entityType,
+      record: before,
+      author: previousAuthor(before),
+      createdAt: before.updatedAt || before.createdAt,
+    }));
+  }
+
+  revisions.push(createRevision(last + 1, current));
+  return revisions;
+}
+
+// Newest first
+export function sortRevisions(revisions: Revision[]): Revision[] {
+  return [...revisions].sort((a, b) => b.revision - a.revision);
+}
+
+// Content of a revision that a restore writes back onto the current record.
+// The caller names the record type, as the fields come from its schema.
+export function restorableFields<T extends Adaptation | Report>(revision: Revision): Partial<T> {
+  const fields: Record<string, unknown> = {};
+  for (const field of RESTORABLE_FIELDS[revision.entityType]) {
+    if (field in revision.snapshot) {
+      fields[field] = revision.snapshot[field];
+    }
+  }
+  return fields as Partial<T>;
+}
@@ -0,0 +1,104 @@
+// Indicadores agregados da aba "Indicadores"
+// - usado pela edge function em GET /stats
+// - usado pelo cliente com os dados locais quando a API não responde
+// - curso e turma filtram os estudantes; o período filtra adaptações e relatos
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Adaptation, Report, Stats, Student } from '../types/index.ts';
+import { REPORT_RESULTS } from './validation.ts';
+
+export interface StatsFilter {
+  course?: string;
+  class?: string;
+  from?: string;
+  to?: string;
+}
+
+export function parseStatsFilter(params: Record<string, string | undefined>): StatsFilter {
+  return {
+    course: params.course || undefined,
+    class: params.class || undefined,
+    from: params.from || undefined,
+    to: params.to || undefined,
+  };
+}
+
+// `from`/`to` are inclusive dates (yyyy-mm-dd); records may hold full timestamps
+function inPeriod(date: string | undefined, filter: StatsFilter) {
+  const day = String(date || '').slice(0, 10);
+  return (!filter.from || day >= filter.from) && (!filter.to || day <= filter.to);
+}
+
+function distinct(values: string[]) {
+  return [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b, 'pt-BR'));
+}
+
+function increment<K>(map: Map<K, number>, key: K) {
+  map.set(key, (map.get(key) || 0) + 1);
+}
+
+export function computeStats(
+  allStudents: Student[],
+  allAdaptations: Adaptation[],
+  allReports: Report[],
+  filter: StatsFilter
+): Stats {
+  const students = allStudents.filter(
+    (s) => (!filter.course || s.course === filter.course) && (!filter.class || s.class === filter.class)
+  );
+  const studentsById = new Map(students.map((s) => [s.id, s]));
+  const adaptations = allAdaptations.filter((a) => studentsById.has(a.studentId) && inPeriod(a.date, filter));
+  const reports = allReports.filter((r) => studentsById.has(r.studentId) && inPeriod(r.date, filter));
+
+  const withAdaptations = new Set(adaptations.map((a) => a.studentId));
+
+  const bySubject = new Map<string, number>();
+  reports.forEach((r) => increment(bySubject, r.subject || 'Sem disciplina'));
+
+  const byClass = new Map<string, Stats['byClass'][number]>();
+  const classRow = (klass: string) => {
+    const key = klass || 'Sem turma';
+    if (!byClass.has(key)) {
+      byClass.set(key, { class: key, students: 0, studentsWithAdaptations: 0, reports: 0 });
+    }
+    return byClass.get(key)!;
+  };
+  students.forEach((s) => {
+    const row = classRow(s.class);
+    row.students++;
+    if (withAdaptations.has(s.id)) row.studentsWithAdaptations++;
+  });
+  reports.forEach((r) => classRow(studentsById.get(r.studentId)!.class).reports++);
+
+  const byMonth = new Map<string, Stats['byMonth'][number]>();
+  const monthRow = (date: string) => {
+    const month = String(date || '').slice(0, 7);
+    if (!byMonth.has(month)) byMonth.set(month, { month, adaptations: 0, reports: 0 });
+    return byMonth.get(month)!;
+  };
+  adaptations.forEach((a) => monthRow(a.date).adaptations++);
+  reports.forEach((r) => monthRow(r.date).reports++);
+
+  return {
+    totals: {
+      students: students.length,
+      studentsWithAdaptations: withAdaptations.size,
+      adaptations: adaptations.length,
+      reports: reports.length,
+    },
+    reportsByResult: REPORT_RESULTS.map((result) => ({
+      result,
+      count: reports.filter((r) => r.result === result).length,
+    })),
+    reportsBySubject: [...bySubject]
+      .map(([subject, count]) => ({ subject, count }))
+      .sort((a, b) => b.count - a.count || a.subject.localeCompare(b.subject, 'pt-BR')),
+    byClass: [...byClass.values()].sort((a, b) => a.class.localeCompare(b.class, 'pt-BR')),
+    byMonth: [...byMonth.values()].filter((m) => m.month).sort((a, b) => a.month.localeCompare(b.month)),
+    courses: distinct(allStudents.map((s) => s.course)),
+    classes: distinct(
+      allStudents.filter((s) => !filter.course || s.course === filter.course).map((s) => s.class)
+    ),
+  };
+}
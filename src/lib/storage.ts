@@ -1,4 +1,16 @@
-import type { User, Student, Adaptation, Report, StudentReport } from '../types';
+import type { Assignment, User, Student, ArchivedStudent, Adaptation, Report, StudentReport, AuditAction, AuditEntityType, AuditEntry, Revision, RevisionEntityType, Stats, TeacherReport } from '../types';
+import { createAuditEntry, filterAuditEntries, type AuditFilter } from './audit';
+import { nextRevisions, restorableFields, sortRevisions } from './revisions';
+import { computeStats, type StatsFilter } from './stats';
+import { filterTeacherReports, type TeacherReportFilter } from './teacherReports';
+import { registrationKey } from './studentImport';
+import { nextVersion } from './versioning';
+import { isNoOpUpdate } from './diff';
+import { ApiError } from './api';
+import { unshareIfEdited } from './guardian';
+import { runMigrations, type MigrationCollection, type MigrationResult, type MigrationTarget } from './migrations';
+import { anonymizeStudentRecords, buildStudentDataExport, type StudentDataExport, type StudentRecords } from './lgpd';
+import { createBackup, restoreBackup, type BackupArchive, type BackupCollection, type BackupTarget, type RestoreMode } from './backup';
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -7,6 +19,13 @@ const STORAGE_KEYS = {
   ADAPTATIONS: 'adaptacao_adaptations',
   REPORTS: 'adaptacao_reports',
   CURRENT_USER: 'adaptacao_current_user',
+  AUDIT: 'adaptacao_audit',
+  REVISIONS: 'adaptacao_revisions',
+  // Class assignments are managed on the server; here they only come from a
+  // restored backup and are kept so the next backup carries them along
+  ASSIGNMENTS: 'adaptacao_assignments',
+  // Schema version of the records above (lib/migrations.ts)
+  SCHEMA_VERSION: 'adaptacao_schema_version',
 };
 
 // Helper functions for localStorage
@@ -23,9 +42,30 @@ function setToStorage<T>(key: string, value: T): void {
   localStorage.setItem(key, JSON.stringify(value));
 }
 
-// Generate UUID
+// Generate UUID. Ids from the old `<timestamp>-<random>` format are rewritten by
+// schema migration 2.
 function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return crypto.randomUUID();
+}
+
+// `items` with the records of `updated` swapped in by id
+function replaceById<T extends { id: string }>(items: T[], updated: T[]): T[] {
+  const byId = new Map(updated.map(item => [item.id, item]));
+  return items.map(item => byId.get(item.id) || item);
+}
+
+// Like the server, an update that changes nothing (a mirrored server version
+// included) writes no new version, revision or audit entry
+function isUnchanged<T extends { version?: number }>(record: T, updates: Partial<T>) {
+  return isNoOpUpdate(record, updates) && (updates.version === undefined || updates.version === record.version);
+}
+
+// Same shape as the API's 409 so forms handle both backends alike
+function registrationConflictError(student: Student) {
+  const message = student.archivedAt
+    ? 'Matrícula já cadastrada para um estudante na lixeira. Restaure o cadastro pela lixeira.'
+    : 'Matrícula já cadastrada';
+  return new ApiError(message, 409, { error: message, student });
 }
 
 // Initialize default users if none exist
@@ -186,18 +226,45 @@ export const authStorage = {
 
 // Student functions
 export const studentStorage = {
-  getAll(): Student[] {
+  // Every stored student, including the ones in the recycle bin
+  getAllRecords(): Student[] {
     return getFromStorage<Student[]>(STORAGE_KEYS.STUDENTS, []);
   },
 
+  getAll(): Student[] {
+    return this.getAllRecords().filter(s => !s.archivedAt);
+  },
+
+  getArchived(): ArchivedStudent[] {
+    const adaptations = adaptationStorage.getAllRecords();
+    const reports = reportStorage.getAllRecords();
+    return this.getAllRecords()
+      .filter(s => s.archivedAt)
+      .sort((a, b) => (b.archivedAt || '').localeCompare(a.archivedAt || ''))
+      .map(s => ({
+        ...s,
+        adaptationCount: adaptations.filter(a => a.studentId === s.id).length,
+        reportCount: reports.filter(r => r.studentId === s.id).length,
+      }));
+  },
+
   getById(id: string): Student | null {
     const students = this.getAll();
     return students.find(s => s.id === id) || null;
   },
 
+  // Student holding a registration number, archived ones included
+  findByRegistration(registrationNumber: string, exceptId?: string): Student | null {
+    const key = registrationKey(registrationNumber);
+    return this.getAllRecords().find(s => s.id !== exceptId && registrationKey(s.registrationNumber) === key) || null;
+  },
+
   create(data: Partial<Student>): Student {
-    const students = this.getAll();
+    const students = this.getAllRecords();
     const currentUser = authStorage.getCurrentUser();
+
+    const conflict = this.findByRegistration(data.registrationNumber || '');
+    if (conflict) throw registrationConflictError(conflict);
     
     const newStudent: Student = {
       id: generateId(),
@@ -210,61 +277,154 @@ export const studentStorage = {
       guardianContact: data.guardianContact,
       createdAt: new Date().toISOString(),
       createdBy: currentUser?.id || '',
+      version: 1,
     };
     
     students.push(newStudent);
     setToStorage(STORAGE_KEYS.STUDENTS, students);
+    auditStorage.record('create', 'student', null, newStudent);
     return newStudent;
   },
 
   update(id: string, updates: Partial<Student>): Student | null {
-    const students = this.getAll();
-    const index = students.findIndex(s => s.id === id);
+    const students = this.getAllRecords();
+    const index = students.findIndex(s => s.id === id && !s.archivedAt);
     
     if (index === -1) return null;
+    if (isUnchanged(students[index], updates)) return students[index];
+
+    if (updates.registrationNumber !== undefined) {
+      const conflict = this.findByRegistration(updates.registrationNumber, id);
+      if (conflict) throw registrationConflictError(conflict);
+    }
     
     const currentUser = authStorage.getCurrentUser();
+    const before = students[index];
     students[index] = {
       ...students[index],
       ...updates,
       id, // Preserve ID
       updatedAt: new Date().toISOString(),
       updatedBy: currentUser?.id,
+      // keeps the version reported by the server when mirroring a remote write
+      version: updates.version ?? nextVersion(before),
     };
     
     setToStorage(STORAGE_KEYS.STUDENTS, students);
+    auditStorage.record('update', 'student', before, students[index]);
     return students[index];
   },
 
+  // Moves the student to the recycle bin together with its adaptations and reports
   delete(id: string): boolean {
-    const students = this.getAll();
-    const filtered = students.filter(s => s.id !== id);
-    
-    if (filtered.length === students.length) return false;
-    
-    setToStorage(STORAGE_KEYS.STUDENTS, filtered);
-    
-    // Also delete related adaptations and reports
+    const student = this.getById(id);
+    if (!student) return false;
+
+    const currentUser = authStorage.getCurrentUser();
+    const archived = this.setArchived(id, { archivedAt: new Date().toISOString(), archivedBy: currentUser?.id });
+    auditStorage.record('archive', 'student', student, archived);
+    return true;
+  },
+
+  restore(id: string): Student | null {
+    const student = this.getAllRecords().find(s => s.id === id && s.archivedAt);
+    if (!student) return null;
+
+    const restored = this.setArchived(id, { archivedAt: undefined, archivedBy: undefined });
+    auditStorage.record('restore', 'student', student, restored);
+    return restored;
+  },
+
+  // Permanent removal of an archived student and everything recorded for it
+  purge(id: string): boolean {
+    const students = this.getAllRecords();
+    const student = students.find(s => s.id === id && s.archivedAt);
+    if (!student) return false;
+
+    setToStorage(STORAGE_KEYS.STUDENTS, students.filter(s => s.id !== id));
+    auditStorage.record('delete', 'student', student, null);
     adaptationStorage.deleteByStudent(id);
     reportStorage.deleteByStudent(id);
-    
     return true;
   },
+
+  // What this browser stores about the student (lib/lgpd.ts); no outbox or webhooks here
+  getRecords(id: string): StudentRecords | null {
+    const student = this.getAllRecords().find(s => s.id === id);
+    if (!student) return null;
+    return {
+      student,
+      adaptations: adaptationStorage.getAllRecords().filter(a => a.studentId === id),
+      reports: reportStorage.getAllRecords().filter(r => r.studentId === id),
+      revisions: revisionStorage.getAll().filter(r => r.studentId === id),
+      audit: auditStorage.getAll().filter(e => e.studentId === id),
+      guardians: getLocalUsers().filter(u => u.role === 'responsavel' && u.studentIds?.includes(id)),
+      notifications: [],
+      webhookDeliveries: [],
+    };
+  },
+
+  // LGPD access request: everything stored about the student, recorded in the audit trail
+  exportData(id: string): StudentDataExport | null {
+    const records = this.getRecords(id);
+    if (!records) return null;
+
+    const currentUser = authStorage.getCurrentUser();
+    const data = buildStudentDataExport(records, { id: currentUser?.id || '', name: currentUser?.name || '' });
+    auditStorage.record('export', 'student', records.student, records.student);
+    return data;
+  },
+
+  // LGPD erasure request: personal data scrubbed for good and revisions deleted
+  anonymize(id: string): Student | null {
+    const records = this.getRecords(id);
+    if (!records || records.student.anonymizedAt) return null;
+
+    const currentUser = authStorage.getCurrentUser();
+    const anonymized = anonymizeStudentRecords(records, {
+      anonymizedAt: new Date().toISOString(),
+      anonymizedBy: currentUser?.id || '',
+    });
+    setToStorage(STORAGE_KEYS.STUDENTS, replaceById(this.getAllRecords(), [anonymized.student]));
+    setToStorage(STORAGE_KEYS.ADAPTATIONS, replaceById(adaptationStorage.getAllRecords(), anonymized.adaptations));
+    setToStorage(STORAGE_KEYS.REPORTS, replaceById(reportStorage.getAllRecords(), anonymized.reports));
+    setToStorage(STORAGE_KEYS.AUDIT, replaceById(auditStorage.getAll(), anonymized.audit));
+    setToStorage(STORAGE_KEYS.USERS, replaceById(getLocalUsers(), anonymized.guardians));
+    setToStorage(STORAGE_KEYS.REVISIONS, revisionStorage.getAll().filter(r => r.studentId !== id));
+    // Both sides are the scrubbed record, so the entry itself holds no personal data
+    auditStorage.record('anonymize', 'student', anonymized.student, anonymized.student);
+    return anonymized.student;
+  },
+
+  setArchived(id: string, stamp: { archivedAt?: string; archivedBy?: string }): Student {
+    const students = this.getAllRecords();
+    const index = students.findIndex(s => s.id === id);
+    students[index] = { ...students[index], ...stamp };
+    setToStorage(STORAGE_KEYS.STUDENTS, students);
+    adaptationStorage.setArchivedByStudent(id, stamp.archivedAt);
+    reportStorage.setArchivedByStudent(id, stamp.archivedAt);
+    return students[index];
+  },
 };
 
 // Adaptation functions
 export const adaptationStorage = {
-  getAll(): Adaptation[] {
+  // Every stored record, including the ones archived with their student
+  getAllRecords(): Adaptation[] {
     return getFromStorage<Adaptation[]>(STORAGE_KEYS.ADAPTATIONS, []);
   },
 
+  getAll(): Adaptation[] {
+    return this.getAllRecords().filter(a => !a.archivedAt);
+  },
+
   getByStudent(studentId: string): Adaptation[] {
     const adaptations = this.getAll();
     return adaptations.filter(a => a.studentId === studentId);
   },
 
   create(data: Partial<Adaptation>): Adaptation {
-    const adaptations = this.getAll();
+    const adaptations = this.getAllRecords();
     const currentUser = authStorage.getCurrentUser();
     
     const newAdaptation: Adaptation = {
@@ -273,62 +433,91 @@ export const adaptationStorage = {
       description: data.description || '',
       justification: data.justification || '',
       date: data.date || new Date().toISOString().split('T')[0],
+      reviewDate: data.reviewDate,
+      endDate: data.endDate,
       createdAt: new Date().toISOString(),
       createdBy: currentUser?.id || '',
+      version: 1,
     };
     
     adaptations.push(newAdaptation);
     setToStorage(STORAGE_KEYS.ADAPTATIONS, adaptations);
+    revisionStorage.record('adaptation', null, newAdaptation);
+    auditStorage.record('create', 'adaptation', null, newAdaptation);
     return newAdaptation;
   },
 
-  update(id: string, updates: Partial<Adaptation>): Adaptation | null {
-    const adaptations = this.getAll();
-    const index = adaptations.findIndex(a => a.id === id);
+  // `restoredFrom` marks the write as a restore of that revision number
+  update(id: string, updates: Partial<Adaptation>, restoredFrom?: number): Adaptation | null {
+    const adaptations = this.getAllRecords();
+    const index = adaptations.findIndex(a => a.id === id && !a.archivedAt);
     
     if (index === -1) return null;
+    if (isUnchanged(adaptations[index], updates)) return adaptations[index];
     
+    const before = adaptations[index];
     adaptations[index] = {
       ...adaptations[index],
       ...updates,
       id, // Preserve ID
       updatedAt: new Date().toISOString(),
+      version: updates.version ?? nextVersion(before),
     };
     
     setToStorage(STORAGE_KEYS.ADAPTATIONS, adaptations);
+    revisionStorage.record('adaptation', before, adaptations[index], restoredFrom);
+    auditStorage.record('update', 'adaptation', before, adaptations[index]);
     return adaptations[index];
   },
 
   delete(id: string): boolean {
-    const adaptations = this.getAll();
-    const filtered = adaptations.filter(a => a.id !== id);
+    const adaptations = this.getAllRecords();
+    const adaptation = adaptations.find(a => a.id === id && !a.archivedAt);
     
-    if (filtered.length === adaptations.length) return false;
+    if (!adaptation) return false;
     
-    setToStorage(STORAGE_KEYS.ADAPTATIONS, filtered);
+    setToStorage(STORAGE_KEYS.ADAPTATIONS, adaptations.filter(a => a.id !== id));
+    revisionStorage.deleteByEntity('adaptation', id);
+    auditStorage.record('delete', 'adaptation', adaptation, null);
     return true;
   },
 
   deleteByStudent(studentId: string): void {
-    const adaptations = this.getAll();
+    const adaptations = this.getAllRecords();
     const filtered = adaptations.filter(a => a.studentId !== studentId);
     setToStorage(STORAGE_KEYS.ADAPTATIONS, filtered);
+    adaptations
+      .filter(a => a.studentId === studentId)
+      .forEach(a => {
+        revisionStorage.deleteByEntity('adaptation', a.id);
+        auditStorage.record('delete', 'adaptation', a, null);
+      });
+  },
+
+  setArchivedByStudent(studentId: string, archivedAt?: string): void {
+    const adaptations = this.getAllRecords().map(a => (a.studentId === studentId ? { ...a, archivedAt } : a));
+    setToStorage(STORAGE_KEYS.ADAPTATIONS, adaptations);
   },
 };
 
 // Report functions
 export const reportStorage = {
-  getAll(): Report[] {
+  // Every stored record, including the ones archived with their student
+  getAllRecords(): Report[] {
     return getFromStorage<Report[]>(STORAGE_KEYS.REPORTS, []);
   },
 
+  getAll(): Report[] {
+    return this.getAllRecords().filter(r => !r.archivedAt);
+  },
+
   getByStudent(studentId: string): Report[] {
     const reports = this.getAll();
     return reports.filter(r => r.studentId === studentId);
   },
 
   create(data: Partial<Report>): Report {
-    const reports = this.getAll();
+    const reports = this.getAllRecords();
     const currentUser = authStorage.getCurrentUser();
     
     const newReport: Report = {
@@ -341,44 +530,141 @@ export const reportStorage = {
       result: data.result || 'neutro',
       description: data.description || '',
       createdAt: new Date().toISOString(),
+      version: 1,
     };
     
     reports.push(newReport);
     setToStorage(STORAGE_KEYS.REPORTS, reports);
+    revisionStorage.record('report', null, newReport);
+    auditStorage.record('create', 'report', null, newReport);
     return newReport;
   },
 
-  update(id: string, updates: Partial<Report>): Report | null {
-    const reports = this.getAll();
-    const index = reports.findIndex(r => r.id === id);
+  // `restoredFrom` marks the write as a restore of that revision number
+  update(id: string, updates: Partial<Report>, restoredFrom?: number): Report | null {
+    const reports = this.getAllRecords();
+    const index = reports.findIndex(r => r.id === id && !r.archivedAt);
     
     if (index === -1) return null;
+    if (isUnchanged(reports[index], updates)) return reports[index];
     
-    reports[index] = {
+    const before = reports[index];
+    reports[index] = unshareIfEdited(before, {
       ...reports[index],
       ...updates,
       id, // Preserve ID
       updatedAt: new Date().toISOString(),
-    };
+      version: updates.version ?? nextVersion(before),
+    });
     
     setToStorage(STORAGE_KEYS.REPORTS, reports);
+    revisionStorage.record('report', before, reports[index], restoredFrom);
+    auditStorage.record('update', 'report', before, reports[index]);
     return reports[index];
   },
 
   delete(id: string): boolean {
-    const reports = this.getAll();
-    const filtered = reports.filter(r => r.id !== id);
+    const reports = this.getAllRecords();
+    const report = reports.find(r => r.id === id && !r.archivedAt);
     
-    if (filtered.length === reports.length) return false;
+    if (!report) return false;
     
-    setToStorage(STORAGE_KEYS.REPORTS, filtered);
+    setToStorage(STORAGE_KEYS.REPORTS, reports.filter(r => r.id !== id));
+    revisionStorage.deleteByEntity('report', id);
+    auditStorage.record('delete', 'report', report, null);
     return true;
   },
 
   deleteByStudent(studentId: string): void {
-    const reports = this.getAll();
+    const reports = this.getAllRecords();
     const filtered = reports.filter(r => r.studentId !== studentId);
     setToStorage(STORAGE_KEYS.REPORTS, filtered);
+    reports
+      .filter(r => r.studentId === studentId)
+      .forEach(r => {
+        revisionStorage.deleteByEntity('report', r.id);
+        auditStorage.record('delete', 'report', r, null);
+      });
+  },
+
+  setArchivedByStudent(studentId: string, archivedAt?: string): void {
+    const reports = this.getAllRecords().map(r => (r.studentId === studentId ? { ...r, archivedAt } : r));
+    setToStorage(STORAGE_KEYS.REPORTS, reports);
+  },
+};
+
+// Audit trail (append-only)
+export const auditStorage = {
+  getAll(): AuditEntry[] {
+    return getFromStorage<AuditEntry[]>(STORAGE_KEYS.AUDIT, []);
+  },
+
+  query(filter: AuditFilter): AuditEntry[] {
+    return filterAuditEntries(this.getAll(), filter);
+  },
+
+  record(
+    action: AuditAction,
+    entityType: AuditEntityType,
+    before: Student | Adaptation | Report | null,
+    after: Student | Adaptation | Report | null
+  ): void {
+    const currentUser = authStorage.getCurrentUser();
+    const entries = this.getAll();
+    entries.push(createAuditEntry({
+      id: generateId(),
+      actor: { id: currentUser?.id || '', name: currentUser?.name || '' },
+      action,
+      entityType,
+      before,
+      after,
+    }));
+    setToStorage(STORAGE_KEYS.AUDIT, entries);
+  },
+};
+
+// Revision history of adaptations and reports
+export const revisionStorage = {
+  getAll(): Revision[] {
+    return getFromStorage<Revision[]>(STORAGE_KEYS.REVISIONS, []);
+  },
+
+  // Newest first
+  list(entityType: RevisionEntityType, entityId: string): Revision[] {
+    return sortRevisions(this.getAll().filter(r => r.entityType === entityType && r.entityId === entityId));
+  },
+
+  record(
+    entityType: RevisionEntityType,
+    before: Adaptation | Report | null,
+    after: Adaptation | Report,
+    restoredFrom?: number
+  ): void {
+    const currentUser = authStorage.getCurrentUser();
+    const revisions = this.getAll();
+    revisions.push(...nextRevisions(this.list(entityType, after.id), {
+      id: generateId(),
+      entityType,
+      record: after,
+      author: { id: currentUser?.id || '', name: currentUser?.name || '' },
+      restoredFrom,
+      before,
+      generateId,
+    }));
+    setToStorage(STORAGE_KEYS.REVISIONS, revisions);
+  },
+
+  // Writes the content of an earlier revision back onto the record as a new
+  // revision. Also accepts revisions listed by the API.
+  restore(revision: Revision): Adaptation | Report | null {
+    return revision.entityType === 'adaptation'
+      ? adaptationStorage.update(revision.entityId, restorableFields<Adaptation>(revision), revision.revision)
+      : reportStorage.update(revision.entityId, restorableFields<Report>(revision), revision.revision);
+  },
+
+  deleteByEntity(entityType: RevisionEntityType, entityId: string): void {
+    const revisions = this.getAll().filter(r => !(r.entityType === entityType && r.entityId === entityId));
+    setToStorage(STORAGE_KEYS.REVISIONS, revisions);
   },
 };
 
@@ -396,3 +682,99 @@ export function getStudentReport(studentId: string): StudentReport | null {
     reports,
   };
 }
+
+// Indicators computed from the data stored in this browser
+export function getStudentStats(filter: StatsFilter): Stats {
+  return computeStats(studentStorage.getAll(), adaptationStorage.getAll(), reportStorage.getAll(), filter);
+}
+
+// Reports written by one teacher, from the data stored in this browser
+export function getTeacherReports(teacherId: string, filter: TeacherReportFilter): TeacherReport[] {
+  const reports = reportStorage.getAll().filter(r => r.teacherId === teacherId);
+  return filterTeacherReports(reports, studentStorage.getAll(), filter);
+}
+
+// Schema migrations of the data stored in this browser. Each step rewrites the
+// whole collections it touches.
+// Review reminders are only sent by the server, so there are none to migrate here
+const MIGRATION_KEYS: Record<Exclude<MigrationCollection, 'reviewReminders'>, string> = {
+  students: STORAGE_KEYS.STUDENTS,
+  adaptations: STORAGE_KEYS.ADAPTATIONS,
+  reports: STORAGE_KEYS.REPORTS,
+  revisions: STORAGE_KEYS.REVISIONS,
+  audit: STORAGE_KEYS.AUDIT,
+  users: STORAGE_KEYS.USERS,
+};
+
+const localMigrationTarget: MigrationTarget = {
+  async getVersion() {
+    return getFromStorage<number>(STORAGE_KEYS.SCHEMA_VERSION, 0);
+  },
+  async setVersion(version) {
+    setToStorage(STORAGE_KEYS.SCHEMA_VERSION, version);
+  },
+  async load() {
+    return {
+      students: studentStorage.getAllRecords(),
+      adaptations: adaptationStorage.getAllRecords(),
+      reports: reportStorage.getAllRecords(),
+      revisions: revisionStorage.getAll(),
+      audit: auditStorage.getAll(),
+      users: getLocalUsers(),
+      reviewReminders: [],
+    };
+  },
+  async write(data, changes) {
+    for (const collection of Object.keys(MIGRATION_KEYS) as (keyof typeof MIGRATION_KEYS)[]) {
+      const { saved, removed } = changes[collection];
+      if (saved.length + removed.length > 0) setToStorage(MIGRATION_KEYS[collection], data[collection]);
+    }
+  },
+};
+
+// Brings the browser's records up to the latest schema version; checked on
+// every startup by AuthProvider
+export function migrateLocalStorage(dryRun = false): Promise<MigrationResult> {
+  return runMigrations(localMigrationTarget, { dryRun, generateId });
+}
+
+const BACKUP_KEYS: Record<BackupCollection, string> = {
+  ...MIGRATION_KEYS,
+  assignments: STORAGE_KEYS.ASSIGNMENTS,
+};
+
+const localBackupTarget: BackupTarget = {
+  async load() {
+    const { students, adaptations, reports, revisions, audit, users } = await localMigrationTarget.load();
+    return {
+      students,
+      adaptations,
+      reports,
+      revisions,
+      audit,
+      users,
+      assignments: getFromStorage<Assignment[]>(STORAGE_KEYS.ASSIGNMENTS, []),
+    };
+  },
+  async write(data, changes) {
+    for (const collection of Object.keys(BACKUP_KEYS) as BackupCollection[]) {
+      const { saved, removed } = changes[collection];
+      if (saved.length + removed.length > 0) setToStorage(BACKUP_KEYS[collection], data[collection]);
+    }
+  },
+};
+
+// Backup of this browser's records (lib/backup.ts), same format as the server's
+export const backupStorage = {
+  async create(createdBy: User): Promise<BackupArchive> {
+    return createBackup(await localBackupTarget.load(), {
+      schemaVersion: getFromStorage<number>(STORAGE_KEYS.SCHEMA_VERSION, 0),
+      source: 'local',
+      createdBy: { id: createdBy.id, name: createdBy.name },
+    });
+  },
+
+  restore(archive: unknown, options: { mode: RestoreMode; dryRun: boolean; actor: User }) {
+    return restoreBackup(localBackupTarget, archive, { ...options, generateId });
+  },
+};
@@ -0,0 +1,169 @@
+// Importação de estudantes a partir de planilhas CSV
+// - `parseCsv` lê o arquivo (separador vírgula ou ponto e vírgula, aspas RFC 4180)
+// - `guessMapping`/`buildImportRecords` convertem colunas em campos de `Student`
+// - `checkImportRows` valida cada linha e marca matrículas duplicadas; usado na
+//   prévia (dry run) e novamente pela edge function antes de gravar
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Student, StudentInput } from '../types/index.ts';
+import { studentSchema, validateStudent, type FieldError } from './validation.ts';
+
+export type ImportField = keyof StudentInput;
+
+// Column index in the CSV for each student field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportRowResult {
+  line: number;
+  data: Partial<StudentInput>;
+  status: ImportRowStatus;
+  errors: FieldError[];
+}
+
+export interface StudentImportResult {
+  dryRun: boolean;
+  rows: ImportRowResult[];
+  created: Student[];
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export const IMPORT_FIELDS = Object.keys(studentSchema) as ImportField[];
+
+// Header spellings recognised for each field, compared without case or accents
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'nome', 'nome completo', 'estudante', 'aluno'],
+  course: ['course', 'curso'],
+  class: ['class', 'turma'],
+  birthDate: ['birthdate', 'nascimento', 'data de nascimento', 'data nascimento', 'dt nascimento'],
+  registrationNumber: ['registrationnumber', 'matricula', 'numero de matricula', 'ra'],
+  guardianName: ['guardianname', 'responsavel', 'nome do responsavel'],
+  guardianContact: ['guardiancontact', 'contato', 'telefone', 'contato do responsavel', 'telefone do responsavel'],
+};
+
+function normalizeHeader(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[_.]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .trim();
+}
+
+// Registration numbers are compared trimmed and case-insensitively
+export function registrationKey(value: unknown) {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+// Spreadsheets exported with a pt-BR locale use ';' because ',' is the decimal separator
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+}
+
+// Rows of cells; blank lines are dropped
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex((h) => HEADER_ALIASES[field].includes(h));
+    if (index !== -1) mapping[field] = index;
+  }
+  return mapping;
+}
+
+// dd/mm/yyyy (and dd-mm-yyyy) become yyyy-mm-dd; anything else is kept for validation
+export function normalizeDate(value: string) {
+  const match = value.trim().match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (!match) return value.trim();
+  const [, day, month, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// Student payloads for the data rows (header excluded)
+export function buildImportRecords(rows: string[][], mapping: ColumnMapping): Partial<StudentInput>[] {
+  return rows.map((cells) => {
+    const record: Partial<StudentInput> = {};
+    for (const field of IMPORT_FIELDS) {
+      const index = mapping[field];
+      if (index === undefined) continue;
+      const value = (cells[index] ?? '').trim();
+      record[field] = field === 'birthDate' ? normalizeDate(value) : value;
+    }
+    return record;
+  });
+}
+
+// Validate every record and flag registration numbers already stored or
+// repeated earlier in the file. Line numbers count the header as line 1.
+export function checkImportRows(records: unknown[], existing: Student[]): ImportRowResult[] {
+  const registered = new Map(existing.map((s) => [registrationKey(s.registrationNumber), s]));
+  const seen = new Map<string, number>();
+
+  return records.map((record, index) => {
+    const line = index + 2;
+    const { data, errors } = validateStudent(record);
+    if (errors.length > 0) {
+      return { line, data, status: 'invalid', errors };
+    }
+
+    const key = registrationKey(data.registrationNumber);
+    const stored = registered.get(key);
+    if (stored) {
+      const message = `Matrícula já cadastrada para ${stored.name}${stored.archivedAt ? ' (na lixeira)' : ''}`;
+      return { line, data, status: 'duplicate', errors: [{ field: 'registrationNumber', message }] };
+    }
+    const firstLine = seen.get(key);
+    if (firstLine !== undefined) {
+      const message = `Matrícula repetida na linha ${firstLine}`;
+      return { line, data, status: 'duplicate', errors: [{ field: 'registrationNumber', message }] };
+    }
+
+    seen.set(key, line);
+    return { line, data, status: 'valid', errors: [] };
+  });
+}
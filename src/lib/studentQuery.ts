@@ -0,0 +1,107 @@
+// Filtro, ordenação e paginação da listagem de estudantes
+// - usado pela edge function em GET /students
+// - usado pelo cliente como fallback quando a API devolve a lista completa
+// - paginação por cursor (chave de ordenação + id do último item da página)
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Student, StudentListItem, StudentPage } from '../types/index.ts';
+
+export type StudentSortField = 'name' | 'registrationNumber' | 'course' | 'class' | 'createdAt';
+
+export interface StudentQuery {
+  name?: string;
+  course?: string;
+  class?: string;
+  hasAdaptations?: boolean;
+  sort?: StudentSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const STUDENT_SORT_FIELDS: StudentSortField[] = ['name', 'registrationNumber', 'course', 'class', 'createdAt'];
+
+// Case and accent insensitive form used for substring matching
+function normalize(value: unknown) {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+function encodeCursor(key: string, id: string) {
+  return btoa(encodeURIComponent(JSON.stringify([key, id])));
+}
+
+function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const parsed = JSON.parse(decodeURIComponent(atob(cursor)));
+    return Array.isArray(parsed) && parsed.length === 2 ? [String(parsed[0]), String(parsed[1])] : null;
+  } catch {
+    return null;
+  }
+}
+
+// Read a query from URL search params (server) or a plain object of strings
+export function parseStudentQuery(params: Record<string, string | undefined>): StudentQuery {
+  const limit = parseInt(params.limit || '', 10);
+  const sort = params.sort as StudentSortField;
+  return {
+    name: params.name || undefined,
+    course: params.course || undefined,
+    class: params.class || undefined,
+    hasAdaptations: params.hasAdaptations === 'true' ? true : params.hasAdaptations === 'false' ? false : undefined,
+    sort: STUDENT_SORT_FIELDS.includes(sort) ? sort : 'name',
+    order: params.order === 'desc' ? 'desc' : 'asc',
+    limit: isNaN(limit) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limit, 1), MAX_PAGE_SIZE),
+    cursor: params.cursor || null,
+  };
+}
+
+// Apply filters, sorting and cursor pagination. `adaptationCounts` maps student
+// id to the number of adaptations registered for that student.
+export function queryStudents(
+  students: Student[],
+  adaptationCounts: Map<string, number>,
+  query: StudentQuery
+): StudentPage {
+  const { sort = 'name', order = 'asc', limit = DEFAULT_PAGE_SIZE } = query;
+  const name = normalize(query.name);
+  const course = normalize(query.course);
+  const klass = normalize(query.class);
+
+  const filtered: StudentListItem[] = students
+    .map((s) => ({ ...s, adaptationCount: adaptationCounts.get(s.id) || 0 }))
+    .filter((s) => !name || normalize(s.name).includes(name))
+    .filter((s) => !course || normalize(s.course).includes(course))
+    .filter((s) => !klass || normalize(s.class).includes(klass))
+    .filter((s) => query.hasAdaptations === undefined || (s.adaptationCount > 0) === query.hasAdaptations);
+
+  const direction = order === 'desc' ? -1 : 1;
+  const compare = (keyA: string, idA: string, keyB: string, idB: string) =>
+    direction * (keyA.localeCompare(keyB, 'pt-BR', { sensitivity: 'base' }) || idA.localeCompare(idB));
+
+  filtered.sort((a, b) => compare(String(a[sort] ?? ''), a.id, String(b[sort] ?? ''), b.id));
+
+  let start = 0;
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  if (after) {
+    start = filtered.findIndex((s) => compare(String(s[sort] ?? ''), s.id, after[0], after[1]) > 0);
+    if (start === -1) start = filtered.length;
+  }
+
+  const page = filtered.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + limit < filtered.length;
+
+  return {
+    students: page,
+    nextCursor: hasMore && last ? encodeCursor(String(last[sort] ?? ''), last.id) : null,
+    total: filtered.length,
+  };
+}
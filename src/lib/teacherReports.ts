@@ -0,0 +1,51 @@
+// Relatos escritos por um professor (aba "Meus Relatos")
+// - usado pela edge function em GET /reports?teacherId=
+// - usado pelo cliente com os dados locais quando a API não responde
+// - a disciplina é comparada sem diferenciar maiúsculas/acentos; o período é inclusivo
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { Report, Student, TeacherReport } from '../types/index.ts';
+
+export interface TeacherReportFilter {
+  subject?: string;
+  from?: string;
+  to?: string;
+}
+
+export function parseTeacherReportFilter(params: Record<string, string | undefined>): TeacherReportFilter {
+  return {
+    subject: params.subject || undefined,
+    from: params.from || undefined,
+    to: params.to || undefined,
+  };
+}
+
+function normalize(value: string) {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+// Active reports matching the filter, newest first, with the student's name.
+// Reports whose student is missing or archived are left out.
+export function filterTeacherReports(
+  reports: Report[],
+  students: Student[],
+  filter: TeacherReportFilter
+): TeacherReport[] {
+  const studentsById = new Map(students.filter((s) => !s.archivedAt).map((s) => [s.id, s]));
+  const subject = filter.subject ? normalize(filter.subject) : '';
+
+  return reports
+    .filter((r) => {
+      const day = String(r.date || '').slice(0, 10);
+      return (
+        !r.archivedAt &&
+        studentsById.has(r.studentId) &&
+        (!subject || normalize(r.subject || '').includes(subject)) &&
+        (!filter.from || day >= filter.from) &&
+        (!filter.to || day <= filter.to)
+      );
+    })
+    .map((r) => ({ ...r, studentName: studentsById.get(r.studentId)!.name }))
+    .sort((a, b) => String(b.date).localeCompare(String(a.date)));
+}
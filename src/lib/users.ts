@@ -0,0 +1,9 @@
+// Perfis de acesso exibidos na administração de usuários e nos convites
+
+import type { UserRole } from '../types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  coordenador: 'Coordenador(a)',
+  professor: 'Professor(a)',
+  responsavel: 'Responsável',
+};
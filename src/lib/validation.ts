@@ -0,0 +1,292 @@
+// Esquemas de validação compartilhados entre os formulários e a edge function
+// - derivados dos tipos de entrada em `types`
+// - descartam qualquer campo fora do esquema (ids, autoria, datas de controle)
+// - retornam a lista de campos inválidos com mensagens prontas para exibição
+//
+// Este módulo também é importado pelo servidor (Deno), por isso só usa imports
+// com extensão explícita e nenhuma API do navegador.
+
+import type {
+  AdaptationInput,
+  AssignmentInput,
+  InvitationInput,
+  InvitationRedemption,
+  ReportInput,
+  ReportResult,
+  Student,
+  StudentInput,
+  UserInput,
+  UserRole,
+  WebhookInput,
+} from '../types/index.ts';
+import { WEBHOOK_EVENTS } from './webhooks.ts';
+
+export type FieldRule =
+  | { type: 'string'; required?: boolean; maxLength?: number }
+  | { type: 'email'; required?: boolean }
+  | { type: 'url'; required?: boolean }
+  | { type: 'date'; required?: boolean; notInFuture?: boolean }
+  | { type: 'enum'; required?: boolean; values: readonly string[] };
+
+// One rule for every key of T, optional keys included
+export type Schema<T> = { [K in keyof T]-?: FieldRule };
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  data: Partial<T>;
+  errors: FieldError[];
+}
+
+export const REPORT_RESULTS: readonly ReportResult[] = ['positivo', 'neutro', 'negativo'];
+
+export const USER_ROLES: readonly UserRole[] = ['coordenador', 'professor', 'responsavel'];
+
+// A guardian usually follows one student; siblings share an account
+export const MAX_GUARDIAN_STUDENTS = 10;
+
+// Same minimum Supabase Auth applies by default
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const studentSchema: Schema<StudentInput> = {
+  name: { type: 'string', required: true, maxLength: 200 },
+  course: { type: 'string', required: true, maxLength: 100 },
+  class: { type: 'string', required: true, maxLength: 50 },
+  birthDate: { type: 'date', required: true, notInFuture: true },
+  registrationNumber: { type: 'string', required: true, maxLength: 50 },
+  guardianName: { type: 'string', maxLength: 200 },
+  guardianContact: { type: 'string', maxLength: 50 },
+};
+
+export const adaptationSchema: Schema<AdaptationInput> = {
+  studentId: { type: 'string', required: true, maxLength: 100 },
+  description: { type: 'string', required: true, maxLength: 5000 },
+  justification: { type: 'string', required: true, maxLength: 5000 },
+  date: { type: 'date', required: true },
+  reviewDate: { type: 'date', required: true },
+  endDate: { type: 'date' },
+};
+
+export const reportSchema: Schema<ReportInput> = {
+  studentId: { type: 'string', required: true, maxLength: 100 },
+  subject: { type: 'string', required: true, maxLength: 100 },
+  result: { type: 'enum', required: true, values: REPORT_RESULTS },
+  description: { type: 'string', required: true, maxLength: 5000 },
+  date: { type: 'date' },
+};
+
+export const userSchema: Schema<UserInput> = {
+  name: { type: 'string', required: true, maxLength: 200 },
+  role: { type: 'enum', required: true, values: USER_ROLES },
+};
+
+export const assignmentSchema: Schema<AssignmentInput> = {
+  teacherId: { type: 'string', required: true, maxLength: 100 },
+  course: { type: 'string', required: true, maxLength: 100 },
+  class: { type: 'string', required: true, maxLength: 50 },
+  subject: { type: 'string', required: true, maxLength: 100 },
+};
+
+// Events and `active` are not plain strings; validateWebhook checks them
+export const webhookSchema: Schema<Pick<WebhookInput, 'url' | 'description'>> = {
+  url: { type: 'url', required: true },
+  description: { type: 'string', maxLength: 200 },
+};
+
+export const invitationSchema: Schema<InvitationInput> = {
+  email: { type: 'email', required: true },
+  role: { type: 'enum', required: true, values: USER_ROLES },
+};
+
+export const invitationRedemptionSchema: Schema<InvitationRedemption> = {
+  code: { type: 'string', required: true, maxLength: 20 },
+  email: { type: 'email', required: true },
+  name: { type: 'string', required: true, maxLength: 200 },
+};
+
+// Accepts `yyyy-mm-dd` (inputs) and full ISO timestamps (stored records)
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// Deliberately loose: Supabase Auth has the final word on the address
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const URL_PATTERN = /^https?:\/\/[^\s/$.?#][^\s]*$/i;
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function checkRule(rule: FieldRule, value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return 'Valor inválido';
+  }
+
+  if (rule.type === 'string') {
+    if (rule.maxLength && value.length > rule.maxLength) {
+      return `Máximo de ${rule.maxLength} caracteres`;
+    }
+    return null;
+  }
+
+  if (rule.type === 'email') {
+    return EMAIL_PATTERN.test(value.trim()) && value.length <= 320 ? null : 'E-mail inválido';
+  }
+
+  if (rule.type === 'url') {
+    return URL_PATTERN.test(value.trim()) && value.length <= 2000 ? null : 'URL inválida (use http:// ou https://)';
+  }
+
+  if (rule.type === 'date') {
+    const time = new Date(value).getTime();
+    if (!DATE_PATTERN.test(value) || isNaN(time)) {
+      return 'Data inválida';
+    }
+    if (rule.notInFuture && time > Date.now()) {
+      return 'A data não pode estar no futuro';
+    }
+    return null;
+  }
+
+  if (!rule.values.includes(value)) {
+    return `Valor deve ser um de: ${rule.values.join(', ')}`;
+  }
+  return null;
+}
+
+// Validate a payload against a schema. With `partial` (updates) missing fields
+// are allowed, but fields that are sent still have to be valid.
+export function validate<T>(schema: Schema<T>, payload: unknown, partial = false): ValidationResult<T> {
+  const data: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { data: {}, errors: [{ field: '', message: 'Corpo da requisição inválido' }] };
+  }
+
+  const input = payload as Record<string, unknown>;
+  for (const [field, rule] of Object.entries(schema) as [string, FieldRule][]) {
+    const value = input[field];
+
+    if (isEmpty(value)) {
+      if (rule.required && (!partial || field in input)) {
+        errors.push({ field, message: 'Campo obrigatório' });
+      } else if (field in input && !rule.required) {
+        data[field] = '';
+      }
+      continue;
+    }
+
+    const message = checkRule(rule, value);
+    if (message) {
+      errors.push({ field, message });
+      continue;
+    }
+    data[field] = (value as string).trim();
+  }
+
+  return { data: data as Partial<T>, errors };
+}
+
+// The payload as a complete T, or null when it has errors. Only for full (not
+// partial) validation, where passing means every required field is set.
+export function validInput<T>({ data, errors }: ValidationResult<T>): T | null {
+  return errors.length > 0 ? null : (data as T);
+}
+
+export const validateStudent = (payload: unknown, partial = false) => validate(studentSchema, payload, partial);
+
+export function validateAdaptation(payload: unknown, partial = false): ValidationResult<AdaptationInput> {
+  const result = validate(adaptationSchema, payload, partial);
+  // Review and end come after the record date; only checkable when both are sent
+  const { date, reviewDate, endDate } = result.data;
+  if (date && reviewDate && reviewDate.slice(0, 10) < date.slice(0, 10)) {
+    result.errors.push({ field: 'reviewDate', message: 'A revisão não pode ser anterior à data do registro' });
+  }
+  if (date && endDate && endDate.slice(0, 10) < date.slice(0, 10)) {
+    result.errors.push({ field: 'endDate', message: 'O término não pode ser anterior à data do registro' });
+  }
+  return result;
+}
+
+export const validateReport = (payload: unknown, partial = false) => validate(reportSchema, payload, partial);
+
+export const validateUser = (payload: unknown, partial = false) => validate(userSchema, payload, partial);
+
+export const validateAssignment = (payload: unknown) => validate(assignmentSchema, payload);
+
+export const validateInvitation = (payload: unknown) => validate(invitationSchema, payload);
+
+export const validateInvitationRedemption = (payload: unknown) => validate(invitationRedemptionSchema, payload);
+
+export function validateWebhook(payload: unknown, partial = false): ValidationResult<WebhookInput> {
+  const { data, errors } = validate(webhookSchema, payload, partial);
+  if (errors.some((e) => e.field === '')) {
+    return { data, errors };
+  }
+
+  const input = payload as Record<string, unknown>;
+  const result: Partial<WebhookInput> = { ...data };
+
+  if (!partial || 'events' in input) {
+    const events = input.events;
+    if (!Array.isArray(events) || events.length === 0) {
+      errors.push({ field: 'events', message: 'Selecione ao menos um evento' });
+    } else if (events.some((e) => !WEBHOOK_EVENTS.includes(e))) {
+      errors.push({ field: 'events', message: `Eventos válidos: ${WEBHOOK_EVENTS.join(', ')}` });
+    } else {
+      result.events = [...new Set(events)];
+    }
+  }
+
+  if ('active' in input) {
+    if (typeof input.active !== 'boolean') {
+      errors.push({ field: 'active', message: 'Valor inválido' });
+    } else {
+      result.active = input.active;
+    }
+  }
+
+  return { data: result, errors };
+}
+
+export function validatePassword(password: unknown): FieldError[] {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return [{ field: 'password', message: `Mínimo de ${MIN_PASSWORD_LENGTH} caracteres` }];
+  }
+  return [];
+}
+
+// Students linked to a guardian account: a list of ids, possibly empty
+export function validateStudentLinks(studentIds: unknown): FieldError[] {
+  if (!Array.isArray(studentIds) || studentIds.some((id) => typeof id !== 'string' || id.trim() === '')) {
+    return [{ field: 'studentIds', message: 'Lista de estudantes inválida' }];
+  }
+  if (new Set(studentIds).size > MAX_GUARDIAN_STUDENTS) {
+    return [{ field: 'studentIds', message: `Máximo de ${MAX_GUARDIAN_STUDENTS} estudantes por responsável` }];
+  }
+  return [];
+}
+
+// Index errors by field for inline display in forms
+export function fieldErrorMap(errors: FieldError[]): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const { field, message } of errors) {
+    if (!map[field]) map[field] = message;
+  }
+  return map;
+}
+
+// Extract field errors from a 400 thrown by `apiFetch`, if the server sent any
+export function fieldErrorsFromResponse(err: any): FieldError[] {
+  const fields = err?.status === 400 ? err?.body?.fields : null;
+  return Array.isArray(fields) ? fields : [];
+}
+
+// Student already holding the registration number, from a 409 thrown by
+// `apiFetch` (or by the local storage, which uses the same shape)
+export function registrationConflictFromResponse(err: any): Student | null {
+  return err?.status === 409 && err?.body?.student ? err.body.student : null;
+}
@@ -0,0 +1,37 @@
+// Controle de concorrência otimista
+// - todo registro gravado carrega `version`, incrementada a cada escrita
+// - o servidor expõe a versão como ETag e exige If-Match em PUT/DELETE e na restauração de revisões
+// - uma alteração que não muda nenhum campo não grava nada e mantém a versão
+// - registros gravados antes do controle de versão contam como versão 1
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+export function versionOf(record: { version?: number } | null | undefined): number {
+  return Number(record?.version) || 1;
+}
+
+export function nextVersion(record: { version?: number } | null | undefined): number {
+  return record ? versionOf(record) + 1 : 1;
+}
+
+export function etagFor(record: { version?: number }): string {
+  return `"${versionOf(record)}"`;
+}
+
+// True when an If-Match header lists the record's current ETag (or `*`)
+export function matchesIfMatch(header: string, record: { version?: number }): boolean {
+  const etag = etagFor(record);
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+export function ifMatchHeader(version: number): { 'If-Match': string } {
+  return { 'If-Match': `"${version}"` };
+}
+
+// Server copy sent with a 412 thrown by `apiFetch`: someone else saved first
+export function versionConflictFromResponse<T = any>(err: any): T | null {
+  return err?.status === 412 && err?.body?.current ? err.body.current : null;
+}
@@ -0,0 +1,153 @@
+// Webhooks de saída
+// - eventos `<entidade>.<ação>` derivados da trilha de auditoria
+// - corpo assinado com HMAC-SHA256 sobre `<timestamp>.<corpo>`, enviado em X-Webhook-Signature
+// - entregas que falham são repetidas com espera exponencial até MAX_DELIVERY_ATTEMPTS
+// - o receptor de teste (`scripts/webhook-receiver.ts`) usa `verifySignature` daqui
+// - o corpo leva só ids e os campos que identificam a mudança, nunca dados pessoais;
+//   quem recebe consulta o resto pela API
+// - endereços internos (loopback, redes privadas, metadados da nuvem) são recusados fora do servidor local
+//
+// Também importado pelo servidor (Deno): apenas imports com extensão explícita.
+
+import type { AuditAction, AuditEntityType, WebhookDeliveryStatus, WebhookEventType } from '../types/index.ts';
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'student.created': 'Estudante cadastrado',
+  'student.updated': 'Estudante alterado',
+  'student.archived': 'Estudante enviado para a lixeira',
+  'student.restored': 'Estudante restaurado da lixeira',
+  'student.deleted': 'Estudante excluído definitivamente',
+  'student.anonymized': 'Estudante anonimizado (LGPD)',
+  'adaptation.created': 'Adaptação registrada',
+  'adaptation.updated': 'Adaptação alterada',
+  'adaptation.deleted': 'Adaptação excluída',
+  'report.created': 'Relato registrado',
+  'report.updated': 'Relato alterado',
+  'report.deleted': 'Relato excluído',
+};
+
+export const WEBHOOK_EVENTS = Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEventType[];
+
+export const DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'Aguardando nova tentativa',
+  success: 'Entregue',
+  failed: 'Falhou',
+};
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+// First retry after a minute, then 2, 4, 8 and 16 minutes
+export const RETRY_BASE_SECONDS = 60;
+
+export const EVENT_HEADER = 'X-Webhook-Event';
+export const DELIVERY_HEADER = 'X-Webhook-Delivery';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const ACTION_EVENTS: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  archive: 'archived',
+  restore: 'restored',
+  export: 'exported',
+  anonymize: 'anonymized',
+};
+
+// Event for an audited change, or null when nothing can subscribe to it
+export function webhookEventFor(entityType: AuditEntityType, action: AuditAction): WebhookEventType | null {
+  const event = `${entityType}.${ACTION_EVENTS[action]}`;
+  return event in WEBHOOK_EVENT_LABELS ? (event as WebhookEventType) : null;
+}
+
+// Fields of each entity sent in event payloads
+const PAYLOAD_FIELDS: Partial<Record<AuditEntityType, string[]>> = {
+  student: ['id', 'course', 'class', 'archivedAt', 'anonymizedAt', 'version'],
+  adaptation: ['id', 'studentId', 'date', 'reviewDate', 'endDate', 'archivedAt', 'version'],
+  report: ['id', 'studentId', 'teacherId', 'subject', 'date', 'result', 'shared', 'archivedAt', 'version'],
+};
+
+// What a subscriber receives about `record`
+export function webhookPayload(entityType: AuditEntityType, record: Record<string, any>) {
+  const payload: Record<string, unknown> = {};
+  for (const field of PAYLOAD_FIELDS[entityType] || ['id']) {
+    if (record[field] !== undefined) payload[field] = record[field];
+  }
+  return payload;
+}
+
+// Hostnames that only resolve inside a network
+const INTERNAL_HOSTNAMES = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/;
+
+function isInternalIPv4(host: string) {
+  const parts = host.split('.').map(Number);
+  if (parts.length !== 4 || parts.some((p) => !Number.isInteger(p) || p < 0 || p > 255)) return false;
+  const [a, b] = parts;
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224;
+}
+
+function isInternalIPv6(host: string) {
+  const address = host.toLowerCase();
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isInternalIPv4(mapped[1]);
+  // `URL` writes mapped addresses in hex (::ffff:7f00:1)
+  const hexMapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hexMapped) {
+    const [high, low] = [parseInt(hexMapped[1], 16), parseInt(hexMapped[2], 16)];
+    return isInternalIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return address === '::' || address === '::1' || /^f[cd]/.test(address) || /^fe[89ab]/.test(address);
+}
+
+// Loopback, private, link-local (cloud metadata) and other non-public addresses.
+// Only the URL is checked: a public name that resolves to one of them is not.
+export function isInternalWebhookUrl(url: string) {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+  } catch {
+    return false;
+  }
+  if (hostname.startsWith('[')) return isInternalIPv6(hostname.slice(1, -1));
+  // Single-label names (`http://intranet/`) come from the local search domain
+  return !hostname.includes('.') || INTERNAL_HOSTNAMES.test(hostname) || isInternalIPv4(hostname);
+}
+
+// Seconds to wait after the given (1-based) failed attempt
+export function retryDelaySeconds(attempt: number) {
+  return RETRY_BASE_SECONDS * 2 ** Math.max(0, attempt - 1);
+}
+
+export function generateWebhookSecret() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${toHex(bytes)}`;
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// `sha256=<hex>` over `<timestamp>.<body>`, so a captured body cannot be
+// replayed with another timestamp
+export async function signPayload(secret: string, timestamp: string, body: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${toHex(new Uint8Array(signature))}`;
+}
+
+export async function verifySignature(secret: string, timestamp: string, body: string, signature: string) {
+  const expected = await signPayload(secret, timestamp, body);
+  if (expected.length !== signature.length) return false;
+  // Constant time: compare every character regardless of where they differ
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,185 @@
+// Gera src/lib/apiClient.ts a partir da especificação OpenAPI (lib/openapi.ts)
+// Uma função por operação, com parâmetros de caminho, query, corpo e resposta tipados.
+// Os esquemas de `components` viram referências aos tipos que já existem no código.
+//
+// Uso (Deno), depois de alterar uma rota em lib/openapi.ts:
+//   deno run --allow-write src/scripts/generate-api-client.ts
+
+import { buildOpenApiDocument, type JsonSchema } from '../lib/openapi.ts';
+
+const OUTPUT = new URL('../lib/apiClient.ts', import.meta.url);
+
+// Component schemas declared outside `types`, by the module apiClient.ts imports them from
+const TYPE_MODULES: Record<string, string> = {
+  FieldError: './validation',
+  ImportRowResult: './studentImport',
+  StudentImportResult: './studentImport',
+  MigrationStatus: './migrations',
+  MigrationResult: './migrations',
+  BackupArchive: './backup',
+  RestoreResult: './backup',
+  StudentDataExport: './lgpd',
+};
+
+// Described in the document but not worth a named type
+const INLINE_COMPONENTS = new Set(['Error', 'Success']);
+
+type Operation = {
+  operationId: string;
+  summary: string;
+  parameters?: { name: string; in: 'path' | 'query' | 'header'; required: boolean; schema: JsonSchema }[];
+  requestBody?: { required: boolean; content: { 'application/json': { schema: JsonSchema } } };
+  responses: Record<string, { content?: { 'application/json': { schema: JsonSchema } } }>;
+};
+
+const document = buildOpenApiDocument();
+const components = document.components.schemas as Record<string, JsonSchema>;
+const referenced = new Set<string>();
+
+function refName(schema: JsonSchema) {
+  return String(schema.$ref).split('/').pop()!;
+}
+
+function property(name: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+function tsType(schema: JsonSchema): string {
+  if (schema.$ref) {
+    const name = refName(schema);
+    if (INLINE_COMPONENTS.has(name)) return tsType(components[name]);
+    referenced.add(name);
+    return name;
+  }
+  if (schema.allOf) {
+    return (schema.allOf as JsonSchema[]).map(tsType).join(' & ');
+  }
+  if (schema.enum) {
+    return (schema.enum as string[]).map((value) => `'${value}'`).join(' | ');
+  }
+
+  let type: string;
+  switch (schema.type) {
+    case 'string':
+      type = 'string';
+      break;
+    case 'integer':
+    case 'number':
+      type = 'number';
+      break;
+    case 'boolean':
+      type = 'boolean';
+      break;
+    case 'array': {
+      const items = tsType(schema.items as JsonSchema);
+      type = /[|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+      break;
+    }
+    case 'object':
+      type = objectType(schema);
+      break;
+    default:
+      type = 'unknown';
+  }
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function objectType(schema: JsonSchema): string {
+  const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required || []) as string[]);
+  const names = Object.keys(properties);
+  if (names.length === 0) {
+    const values = schema.additionalProperties;
+    return typeof values === 'object' ? `Record<string, ${tsType(values as JsonSchema)}>` : 'Record<string, unknown>';
+  }
+  const fields = names.map((name) => `${property(name)}${required.has(name) ? '' : '?'}: ${tsType(properties[name])}`);
+  return `{ ${fields.join('; ')} }`;
+}
+
+function clientMethod(path: string, method: string, operation: Operation) {
+  const parameters = operation.parameters || [];
+  const pathParams = parameters.filter((p) => p.in === 'path');
+  const query = parameters.filter((p) => p.in === 'query');
+  const headers = parameters.filter((p) => p.in === 'header');
+  const body = operation.requestBody;
+
+  // Options the caller passes besides the path parameters
+  const options: string[] = [];
+  let optionsRequired = false;
+  if (query.length > 0) {
+    const queryRequired = query.some((p) => p.required);
+    optionsRequired ||= queryRequired;
+    const fields = query.map((p) => `${property(p.name)}${p.required ? '' : '?'}: ${tsType(p.schema)}`);
+    options.push(`query${queryRequired ? '' : '?'}: { ${fields.join('; ')} }`);
+  }
+  if (body) {
+    optionsRequired ||= body.required;
+    options.push(`body${body.required ? '' : '?'}: ${tsType(body.content['application/json'].schema)}`);
+  }
+  if (headers.length > 0) {
+    optionsRequired ||= headers.some((p) => p.required);
+    const fields = headers.map((p) => `${property(p.name)}${p.required ? '' : '?'}: ${tsType(p.schema)}`);
+    options.push(`headers: { ${fields.join('; ')} }`);
+  }
+  options.push('timeout?: number');
+
+  const args = [
+    ...pathParams.map((p) => `${p.name}: ${tsType(p.schema)}`),
+    `options: { ${options.join('; ')} }${optionsRequired ? '' : ' = {}'}`,
+  ];
+  const url = pathParams.length > 0
+    ? `\`${path.replace(/\{(\w+)\}/g, (_match, name) => `\${encodeURIComponent(${name})}`)}\``
+    : `'${path}'`;
+  const response = tsType(operation.responses['200'].content!['application/json'].schema);
+
+  return [
+    `    /** ${operation.summary} */`,
+    `    ${operation.operationId}: (${args.join(', ')}) =>`,
+    `      request('${method.toUpperCase()}', ${url}, options) as Promise<${response}>,`,
+  ].join('\n');
+}
+
+const methods: string[] = [];
+for (const [path, operations] of Object.entries(document.paths)) {
+  for (const [method, operation] of Object.entries(operations)) {
+    methods.push(clientMethod(path, method, operation as Operation));
+  }
+}
+
+// Imports grouped by module, names sorted
+const imports = new Map<string, string[]>();
+for (const name of [...referenced].sort()) {
+  const module = TYPE_MODULES[name] || '../types';
+  imports.set(module, [...(imports.get(module) || []), name]);
+}
+const importLines = [...imports.entries()].map(([module, names]) =>
+  names.length > 3
+    ? `import type {\n${names.map((n) => `  ${n},`).join('\n')}\n} from '${module}';`
+    : `import type { ${names.join(', ')} } from '${module}';`
+);
+
+const source = `// Gerado por src/scripts/generate-api-client.ts a partir de lib/openapi.ts. Não edite à mão.
+// Cliente tipado das rotas da edge function; \`request\` cuida de URL base, autenticação e erros.
+
+${importLines.join('\n')}
+
+export interface ApiRequestOptions {
+  query?: object;
+  body?: unknown;
+  headers?: Record<string, string>;
+  timeout?: number;
+}
+
+export type ApiRequest = (method: string, path: string, options: ApiRequestOptions) => Promise<unknown>;
+
+export function createApiClient(request: ApiRequest) {
+  return {
+${methods.join('\n')}
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+
+await Deno.writeTextFile(OUTPUT, source);
+console.log(`${methods.length} operações em ${OUTPUT.pathname}`);
@@ -0,0 +1,53 @@
+// Servidor local do backend, sem Supabase
+// KV em memória e contas locais com tokens `local:<id do usuário>`.
+//
+// Uso (Deno):
+//   deno run --allow-net --allow-env --allow-read --allow-write src/scripts/local-server.ts
+//
+// Variáveis opcionais:
+//   PORT               porta de escuta (padrão 8000)
+//   LOCAL_DATA_FILE    arquivo JSON onde os registros e as contas são mantidos entre execuções
+//   LOCAL_SQLITE_FILE  banco SQLite para estudantes, adaptações e relatos (requer também --allow-ffi)
+
+import { createLocalServer, seedData, SEED_USERS, type LocalData } from '../supabase/functions/server/local.tsx';
+import { localToken } from '../supabase/functions/server/identity.tsx';
+
+const PORT = Number(Deno.env.get('PORT') || 8000);
+const DATA_FILE = Deno.env.get('LOCAL_DATA_FILE');
+const SQLITE_FILE = Deno.env.get('LOCAL_SQLITE_FILE');
+
+async function loadData(file: string): Promise<LocalData> {
+  try {
+    return JSON.parse(await Deno.readTextFile(file));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return seedData();
+    }
+    throw error;
+  }
+}
+
+// Writes are batched so a burst of KV calls saves the file once
+let pendingSave: number | undefined;
+function save(data: LocalData) {
+  clearTimeout(pendingSave);
+  pendingSave = setTimeout(() => Deno.writeTextFile(DATA_FILE!, JSON.stringify(data, null, 2)), 100);
+}
+
+const server = createLocalServer(
+  DATA_FILE ? await loadData(DATA_FILE) : seedData(),
+  DATA_FILE ? save : undefined,
+  // Loaded on demand: the SQLite driver needs --allow-ffi
+  SQLITE_FILE ? (await import('../supabase/functions/server/sqlite.tsx')).createSqliteRepositories(SQLITE_FILE) : undefined
+);
+
+Deno.serve({ port: PORT }, server.fetch);
+
+console.log(`Servidor local em http://localhost:${PORT}/make-server-2a0842b8`);
+console.log(DATA_FILE ? `Dados em ${DATA_FILE}` : 'Dados apenas em memória (defina LOCAL_DATA_FILE para mantê-los)');
+if (SQLITE_FILE) {
+  console.log(`Estudantes, adaptações e relatos em ${SQLITE_FILE}`);
+}
+for (const user of SEED_USERS) {
+  console.log(`  ${user.role}: ${user.email} / ${user.password} (token ${localToken(user.id)})`);
+}
@@ -0,0 +1,63 @@
+// Receptor de webhooks para testes locais
+// Verifica a assinatura de cada entrega e imprime o evento recebido.
+//
+// Uso (Deno):
+//   WEBHOOK_SECRET=whsec_... deno run --allow-net --allow-env src/scripts/webhook-receiver.ts
+//
+// Variáveis opcionais:
+//   PORT       porta de escuta (padrão 8787)
+//   FAIL_RATE  fração das entregas respondidas com 500, para exercitar as novas tentativas (0 a 1)
+
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifySignature,
+} from '../lib/webhooks.ts';
+
+const PORT = Number(Deno.env.get('PORT') || 8787);
+const SECRET = Deno.env.get('WEBHOOK_SECRET') || '';
+const FAIL_RATE = Number(Deno.env.get('FAIL_RATE') || 0);
+
+// Deliveries older than this are refused, like a production receiver should
+const MAX_AGE_SECONDS = 5 * 60;
+
+if (!SECRET) {
+  console.log('⚠️  WEBHOOK_SECRET não definido: as assinaturas não serão verificadas');
+}
+
+Deno.serve({ port: PORT }, async (req: Request) => {
+  if (req.method !== 'POST') {
+    return new Response('Receptor de webhooks ativo', { status: 200 });
+  }
+
+  const body = await req.text();
+  const event = req.headers.get(EVENT_HEADER);
+  const deliveryId = req.headers.get(DELIVERY_HEADER);
+  const timestamp = req.headers.get(TIMESTAMP_HEADER) || '';
+  const signature = req.headers.get(SIGNATURE_HEADER) || '';
+
+  if (SECRET) {
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!timestamp || isNaN(age) || age > MAX_AGE_SECONDS) {
+      console.log(`❌ ${deliveryId} (${event}): timestamp ausente ou expirado`);
+      return new Response('Timestamp inválido', { status: 400 });
+    }
+    if (!(await verifySignature(SECRET, timestamp, body, signature))) {
+      console.log(`❌ ${deliveryId} (${event}): assinatura inválida`);
+      return new Response('Assinatura inválida', { status: 401 });
+    }
+  }
+
+  if (Math.random() < FAIL_RATE) {
+    console.log(`💥 ${deliveryId} (${event}): falha simulada`);
+    return new Response('Falha simulada', { status: 500 });
+  }
+
+  console.log(`✅ ${deliveryId} (${event})`);
+  console.log(JSON.stringify(JSON.parse(body), null, 2));
+  return new Response(null, { status: 204 });
+});
+
+console.log(`Receptor de webhooks em http://localhost:${PORT}`);
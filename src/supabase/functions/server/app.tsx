@@ -0,0 +1,1847 @@
+import { Hono, type Context } from 'npm:hono';
+import { cors } from 'npm:hono/cors';
+import { except } from 'npm:hono/combine';
+import * as kv from './kv.tsx';
+import { identity } from './identity.tsx';
+import { createRequireAuth, requireOwnership, requireRole, type AppEnv } from './auth.tsx';
+import { logError, logInfo, requestLogger } from './logging.tsx';
+import {
+  validateAdaptation,
+  validateAssignment,
+  validateInvitation,
+  validateInvitationRedemption,
+  validatePassword,
+  validateReport,
+  validateStudent,
+  validateStudentLinks,
+  validateUser,
+  validateWebhook,
+  validInput,
+  type FieldError,
+} from '../../../lib/validation.ts';
+import { parseStudentQuery, queryStudents } from '../../../lib/studentQuery.ts';
+import { filterAuditEntries, parseAuditFilter } from '../../../lib/audit.ts';
+import { computeStats, parseStatsFilter } from '../../../lib/stats.ts';
+import { filterTeacherReports, parseTeacherReportFilter } from '../../../lib/teacherReports.ts';
+import { findDuplicateAssignment, scopeStudents } from '../../../lib/assignments.ts';
+import { guardianView, linkedStudentIds, unshareIfEdited } from '../../../lib/guardian.ts';
+import { pendingReviews, today } from '../../../lib/adaptationReview.ts';
+import { archiveStudent, purgeStudent } from '../../../lib/repositories.ts';
+import { generateWebhookSecret } from '../../../lib/webhooks.ts';
+import { checkImportRows, MAX_IMPORT_ROWS } from '../../../lib/studentImport.ts';
+import { etagFor, matchesIfMatch, nextVersion } from '../../../lib/versioning.ts';
+import { isNoOpUpdate } from '../../../lib/diff.ts';
+import {
+  generateInvitationCode,
+  INVITATION_TTL_DAYS,
+  invitationStatus,
+  normalizeInvitationCode,
+  sameEmail,
+} from '../../../lib/invitations.ts';
+import { recordAudit } from './audit.tsx';
+import { deleteRevisions, listRevisions, recordRevision } from './revisions.tsx';
+import { repositories } from './repositories.tsx';
+import { applyEmptyMigrations, migrationStatus, runKvMigrations } from './migrations.tsx';
+import { createKvBackup, restoreKvBackup } from './backup.tsx';
+import { anonymizeStudent, loadStudentRecords } from './lgpd.tsx';
+import { canAccessStudent, listAssignments, loadStudentScope, requireStudentAccess } from './assignments.tsx';
+import {
+  flushOutbox,
+  listNotifications,
+  notifyAdaptation,
+  notifyReportAttention,
+  notifyReviewDue,
+  reviewReminderKey,
+} from './notifications.tsx';
+import {
+  attemptDelivery,
+  checkWebhookUrl,
+  deleteDeliveries,
+  listDeliveries,
+  listWebhooks,
+  processDueDeliveries,
+  sendTestEvent,
+} from './webhooks.tsx';
+import { restorableFields } from '../../../lib/revisions.ts';
+import { buildOpenApiDocument } from '../../../lib/openapi.ts';
+import { buildStudentDataExport } from '../../../lib/lgpd.ts';
+import type {
+  Adaptation,
+  Assignment,
+  AuditEntry,
+  Invitation,
+  Report,
+  Student,
+  User,
+  Webhook,
+  WebhookDelivery,
+} from '../../../types/index.ts';
+
+// The routes. index.tsx serves them on Supabase Edge and local.tsx on a
+// developer machine, each after picking the KV store and identity provider.
+export const app = new Hono<AppEnv>();
+
+// ETag is exposed so browsers can read entity versions, X-Request-Id so the
+// client can quote it when something fails
+app.use('*', cors({ exposeHeaders: ['ETag', 'X-Request-Id'] }));
+app.use('*', requestLogger);
+
+// Global error handler to standardize unexpected errors
+app.onError((err, c) => {
+  try {
+    logError(c, 'Unhandled error in request', err);
+  } catch (logErr) {
+    console.error('Error while logging an error', logErr);
+  }
+  // Respond with a normalized JSON error
+  return c.json({ error: 'Erro interno do servidor' }, 500);
+});
+
+// Resolve the user behind an access token
+async function verifyToken(accessToken: string) {
+  const { data: { user }, error } = await identity().getUser(accessToken);
+  if (error || !user) {
+    return null;
+  }
+  return user.id;
+}
+
+const requireAuth = createRequireAuth(verifyToken);
+
+// Standard 400 response listing every invalid field
+function invalidPayload(c: Context<AppEnv>, errors: FieldError[]) {
+  return c.json({ error: 'Dados inválidos', fields: errors }, 400);
+}
+
+// Optimistic concurrency: PUT, DELETE and revision restores must send the
+// stored version in If-Match. On a mismatch the current copy goes back so the
+// client can compare.
+function checkPrecondition(c: Context<AppEnv>, current: any) {
+  const ifMatch = c.req.header('If-Match');
+  if (!ifMatch) {
+    return c.json({ error: 'Envie o cabeçalho If-Match com a versão do registro' }, 428);
+  }
+  if (!matchesIfMatch(ifMatch, current)) {
+    c.header('ETag', etagFor(current));
+    return c.json({ error: 'Este registro foi alterado por outra pessoa', current }, 412);
+  }
+  return null;
+}
+
+// Student other than `exceptId` (the one being updated) holding the registration number
+async function findRegistrationConflict(registrationNumber: string, exceptId?: string) {
+  const holder = await repositories().students.findByRegistration(registrationNumber);
+  return holder && holder.id !== exceptId ? holder : null;
+}
+
+// 409 naming the student that already holds the registration number. A
+// student in the recycle bin is not reachable through GET /students/:id, so
+// the body points to the restore action instead.
+function registrationConflict(c: Context<AppEnv>, student: Student) {
+  if (student.archivedAt) {
+    return c.json({
+      error: 'Matrícula já cadastrada para um estudante na lixeira. Restaure o cadastro pela lixeira.',
+      student,
+      restorePath: `/make-server-2a0842b8/trash/students/${student.id}/restore`,
+    }, 409);
+  }
+  return c.json({ error: 'Matrícula já cadastrada', student }, 409);
+}
+
+// ============================================
+// PERMISSIONS
+// ============================================
+// Every route requires a valid session and a stored profile unless listed as
+// public here. Role and ownership rules are declared per route group below so
+// the whole permission model can be reviewed in one place.
+
+const PUBLIC_ROUTES = [
+  '/make-server-2a0842b8/signup',
+  '/make-server-2a0842b8/signup/invitation',
+  '/make-server-2a0842b8/openapi.json',
+];
+
+app.use('/make-server-2a0842b8/*', except(PUBLIC_ROUTES, requireAuth));
+
+// Guardians (responsáveis) reach their own profile and the guardian portal
+// only; every other route is internal to the school staff
+const GUARDIAN_ROUTES = ['/make-server-2a0842b8/me', '/make-server-2a0842b8/guardian/*'];
+
+app.use('/make-server-2a0842b8/*', except([...PUBLIC_ROUTES, ...GUARDIAN_ROUTES], requireRole('coordenador', 'professor')));
+app.use('/make-server-2a0842b8/guardian/*', requireRole('responsavel'));
+
+// Students and adaptations: anyone signed in can read, only coordinators write
+app.on(['POST', 'PUT', 'DELETE'], '/make-server-2a0842b8/students/*', requireRole('coordenador'));
+app.on(['POST', 'PUT', 'DELETE'], '/make-server-2a0842b8/adaptations/*', requireRole('coordenador'));
+
+// Restoring an earlier revision of a report, or sharing it with the guardians,
+// is a coordinator decision even though the report belongs to its author
+app.on('POST', '/make-server-2a0842b8/reports/:studentId/:id/revisions/:revision/restore', requireRole('coordenador'));
+app.on('POST', '/make-server-2a0842b8/reports/:studentId/:id/share', requireRole('coordenador'));
+
+// LGPD data export (the anonymization is a student write): coordinators only
+app.get('/make-server-2a0842b8/students/:id/data-export', requireRole('coordenador'));
+
+// Audit trail, recycle bin, indicators and pending reviews: coordinators only
+app.use('/make-server-2a0842b8/audit', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/stats', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/adaptation-reviews', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/adaptation-reviews/*', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/trash/*', requireRole('coordenador'));
+
+// User administration and invitations: coordinators only
+app.use('/make-server-2a0842b8/users', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/users/*', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/invitations', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/invitations/*', requireRole('coordenador'));
+
+// Webhook subscriptions, their delivery log and the email outbox: coordinators only
+app.use('/make-server-2a0842b8/webhooks', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/webhooks/*', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/notifications', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/notifications/*', requireRole('coordenador'));
+
+// Schema migrations: coordinators only
+app.use('/make-server-2a0842b8/migrations', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/migrations/*', requireRole('coordenador'));
+
+// Backup and restore: coordinators only
+app.use('/make-server-2a0842b8/backup', requireRole('coordenador'));
+app.use('/make-server-2a0842b8/backup/*', requireRole('coordenador'));
+
+// Class assignments: anyone signed in can list their own, only coordinators manage
+app.on(['POST', 'DELETE'], ['/make-server-2a0842b8/assignments', '/make-server-2a0842b8/assignments/*'], requireRole('coordenador'));
+
+// Professores only reach the students of their assigned classes; the rest
+// answer 404 as if they did not exist
+app.get('/make-server-2a0842b8/students/:id', requireStudentAccess('id'));
+app.get('/make-server-2a0842b8/adaptations/:studentId', requireStudentAccess());
+app.get('/make-server-2a0842b8/adaptations/:studentId/*', requireStudentAccess());
+app.get('/make-server-2a0842b8/student-report/:studentId', requireStudentAccess());
+app.get('/make-server-2a0842b8/reports/:studentId', requireStudentAccess());
+app.get('/make-server-2a0842b8/reports/:studentId/*', requireStudentAccess());
+
+// Reports: anyone signed in can write, but only the author can change or remove
+app.on(['PUT', 'DELETE'], '/make-server-2a0842b8/reports/:studentId/:id', requireOwnership(
+  async (c) => {
+    const report = await repositories().reports.get(c.req.param('studentId'), c.req.param('id'));
+    return report && !report.archivedAt ? report : null;
+  },
+  {
+    ownerField: 'teacherId',
+    notFound: 'Relato não encontrado',
+    forbidden: 'Acesso negado. Você só pode alterar seus próprios relatos.',
+  }
+));
+
+// ============================================
+// AUTH ROUTES
+// ============================================
+
+// Sign up. Open signup only creates teachers; coordinators and guardians join
+// by invitation.
+app.post('/make-server-2a0842b8/signup', async (c) => {
+  try {
+    const { email, password, name, role = 'professor' } = await c.req.json();
+    
+    if (!email || !password || !name) {
+      return c.json({ error: 'Todos os campos são obrigatórios' }, 400);
+    }
+
+    if (role === 'coordenador' || role === 'responsavel') {
+      return c.json({ error: 'Contas de coordenação e de responsáveis só podem ser criadas por convite' }, 403);
+    }
+
+    if (role !== 'professor') {
+      return c.json({ error: 'Perfil inválido' }, 400);
+    }
+
+    const { data, error } = await identity().admin.createUser({
+      email,
+      password,
+      user_metadata: { name, role },
+      // Automatically confirm the user's email since an email server hasn't been configured.
+      email_confirm: true
+    });
+
+    if (error) {
+      logError(c, 'Error during user signup', error);
+      return c.json({ error: error.message }, 400);
+    }
+
+    // Store user profile in KV
+    await kv.set(`user:${data.user.id}`, {
+      id: data.user.id,
+      email,
+      name,
+      role
+    });
+
+    return c.json({ user: data.user });
+  } catch (error) {
+    logError(c, 'Server error during signup', error);
+    return c.json({ error: 'Erro ao criar usuário' }, 500);
+  }
+});
+
+// Sign up with an invitation code. The account gets the invitation's role and
+// must use the invited email.
+app.post('/make-server-2a0842b8/signup/invitation', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { data, errors } = validateInvitationRedemption(body);
+    errors.push(...validatePassword(body?.password));
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    const key = `invitation:${normalizeInvitationCode(data.code)}`;
+    const invitation = await kv.get<Invitation>(key);
+    if (!invitation || invitationStatus(invitation) !== 'pending' || !sameEmail(invitation.email, data.email!)) {
+      // one message for every case so codes cannot be probed
+      return c.json({ error: 'Convite inválido, expirado ou já utilizado' }, 400);
+    }
+
+    // Claim the code first so a concurrent signup cannot redeem it too
+    await kv.set(key, { ...invitation, usedAt: new Date().toISOString() });
+
+    const { data: created, error } = await identity().admin.createUser({
+      email: invitation.email,
+      password: body.password,
+      user_metadata: { name: data.name, role: invitation.role },
+      email_confirm: true
+    });
+
+    if (error) {
+      await kv.set(key, invitation);
+      logError(c, 'Error during invitation signup', error);
+      return c.json({ error: error.message }, 400);
+    }
+
+    const profile = { id: created.user.id, email: invitation.email, name: data.name, role: invitation.role };
+    await kv.set(`user:${created.user.id}`, profile);
+    await kv.set(key, { ...invitation, usedAt: new Date().toISOString(), usedBy: created.user.id });
+
+    return c.json({ user: profile });
+  } catch (error) {
+    logError(c, 'Server error during invitation signup', error);
+    return c.json({ error: 'Erro ao criar usuário' }, 500);
+  }
+});
+
+// Get current user profile
+app.get('/make-server-2a0842b8/me', async (c) => {
+  try {
+    return c.json({ user: c.get('profile') });
+  } catch (error) {
+    logError(c, 'Error fetching user profile', error);
+    return c.json({ error: 'Erro ao buscar perfil' }, 500);
+  }
+});
+
+// ============================================
+// USER ADMINISTRATION (Coordenadores only)
+// ============================================
+// Profiles live in KV (`user:<id>`) and mirror name and role into the Supabase
+// Auth metadata. Deactivation bans the Auth user, so no new session can be
+// opened, and `requireAuth` rejects sessions that were already open.
+
+// Ban long enough to be permanent until the account is reactivated
+const DEACTIVATED_BAN = '876000h';
+
+async function loadUser(c: Context<AppEnv>) {
+  return await kv.get<User>(`user:${c.req.param('id')}`);
+}
+
+// Coordinators cannot lock themselves out
+function isSelf(c: Context<AppEnv>) {
+  return c.req.param('id') === c.get('userId');
+}
+
+app.get('/make-server-2a0842b8/users', async (c) => {
+  try {
+    const users = await kv.getByPrefix<User>('user:');
+    return c.json({
+      users: (users || []).sort((a, b) => String(a.name).localeCompare(String(b.name), 'pt-BR'))
+    });
+  } catch (error) {
+    logError(c, 'Error fetching users', error);
+    return c.json({ error: 'Erro ao buscar usuários' }, 500);
+  }
+});
+
+app.put('/make-server-2a0842b8/users/:id', async (c) => {
+  try {
+    const existing = await loadUser(c);
+    if (!existing) {
+      return c.json({ error: 'Usuário não encontrado' }, 404);
+    }
+
+    const { data: updates, errors } = validateUser(await c.req.json(), true);
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+    if (isSelf(c) && updates.role && updates.role !== existing.role) {
+      return c.json({ error: 'Você não pode alterar o próprio perfil de acesso' }, 400);
+    }
+
+    const updated = { ...existing, ...updates };
+    const { error } = await identity().admin.updateUserById(existing.id, {
+      user_metadata: { name: updated.name, role: updated.role }
+    });
+    if (error) {
+      logError(c, 'Error updating auth user', error);
+      return c.json({ error: error.message }, 400);
+    }
+
+    await kv.set(`user:${existing.id}`, updated);
+    await recordAudit(c, 'update', 'user', existing, updated);
+    return c.json({ user: updated });
+  } catch (error) {
+    logError(c, 'Error updating user', error);
+    return c.json({ error: 'Erro ao atualizar usuário' }, 500);
+  }
+});
+
+// Students a guardian account can follow. Replaces the whole list.
+app.put('/make-server-2a0842b8/users/:id/students', async (c) => {
+  try {
+    const existing = await loadUser(c);
+    if (!existing) {
+      return c.json({ error: 'Usuário não encontrado' }, 404);
+    }
+    if (existing.role !== 'responsavel') {
+      return c.json({ error: 'Apenas responsáveis podem ser vinculados a estudantes' }, 400);
+    }
+
+    const { studentIds } = await c.req.json();
+    const errors = validateStudentLinks(studentIds);
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    const ids: string[] = [...new Set<string>(studentIds)];
+    const students = await repositories().students.getMany(ids);
+    const found = new Set(students.filter((s) => s && !s.archivedAt).map((s) => s.id));
+    if (ids.some((id) => !found.has(id))) {
+      return invalidPayload(c, [{ field: 'studentIds', message: 'Estudante não encontrado' }]);
+    }
+
+    const updated = { ...existing, studentIds: ids };
+    await kv.set(`user:${existing.id}`, updated);
+    await recordAudit(c, 'update', 'user', existing, updated);
+    return c.json({ user: updated });
+  } catch (error) {
+    logError(c, 'Error linking guardian students', error);
+    return c.json({ error: 'Erro ao vincular estudantes' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/users/:id/deactivate', async (c) => {
+  try {
+    const existing = await loadUser(c);
+    if (!existing) {
+      return c.json({ error: 'Usuário não encontrado' }, 404);
+    }
+    if (isSelf(c)) {
+      return c.json({ error: 'Você não pode desativar a própria conta' }, 400);
+    }
+    if (existing.deactivatedAt) {
+      return c.json({ user: existing });
+    }
+
+    const { error } = await identity().admin.updateUserById(existing.id, { ban_duration: DEACTIVATED_BAN });
+    if (error) {
+      logError(c, 'Error banning auth user', error);
+      return c.json({ error: error.message }, 400);
+    }
+
+    const updated = { ...existing, deactivatedAt: new Date().toISOString(), deactivatedBy: c.get('userId') };
+    await kv.set(`user:${existing.id}`, updated);
+    await recordAudit(c, 'update', 'user', existing, updated);
+    return c.json({ user: updated });
+  } catch (error) {
+    logError(c, 'Error deactivating user', error);
+    return c.json({ error: 'Erro ao desativar usuário' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/users/:id/reactivate', async (c) => {
+  try {
+    const existing = await loadUser(c);
+    if (!existing) {
+      return c.json({ error: 'Usuário não encontrado' }, 404);
+    }
+    if (!existing.deactivatedAt) {
+      return c.json({ user: existing });
+    }
+
+    const { error } = await identity().admin.updateUserById(existing.id, { ban_duration: 'none' });
+    if (error) {
+      logError(c, 'Error unbanning auth user', error);
+      return c.json({ error: error.message }, 400);
+    }
+
+    const updated: User = { ...existing, deactivatedAt: undefined, deactivatedBy: undefined };
+    await kv.set(`user:${existing.id}`, updated);
+    await recordAudit(c, 'update', 'user', existing, updated);
+    return c.json({ user: updated });
+  } catch (error) {
+    logError(c, 'Error reactivating user', error);
+    return c.json({ error: 'Erro ao reativar usuário' }, 500);
+  }
+});
+
+// The new password is set by the coordinator and never stored or logged here
+app.post('/make-server-2a0842b8/users/:id/reset-password', async (c) => {
+  try {
+    const existing = await loadUser(c);
+    if (!existing) {
+      return c.json({ error: 'Usuário não encontrado' }, 404);
+    }
+
+    const { password } = await c.req.json();
+    const errors = validatePassword(password);
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    const { error } = await identity().admin.updateUserById(existing.id, { password });
+    if (error) {
+      logError(c, 'Error resetting password', error);
+      return c.json({ error: error.message }, 400);
+    }
+
+    const updated = { ...existing, passwordResetAt: new Date().toISOString() };
+    await kv.set(`user:${existing.id}`, updated);
+    await recordAudit(c, 'update', 'user', existing, updated);
+    return c.json({ user: updated });
+  } catch (error) {
+    logError(c, 'Error resetting password', error);
+    return c.json({ error: 'Erro ao redefinir senha' }, 500);
+  }
+});
+
+// ============================================
+// INVITATIONS (Coordenadores only)
+// ============================================
+// `invitation:<CODE>` holds one invitation. Used invitations are kept as a
+// record of who joined through them; pending ones can be revoked.
+
+app.get('/make-server-2a0842b8/invitations', async (c) => {
+  try {
+    const invitations = await kv.getByPrefix<Invitation>('invitation:');
+    return c.json({
+      invitations: (invitations || []).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    });
+  } catch (error) {
+    logError(c, 'Error fetching invitations', error);
+    return c.json({ error: 'Erro ao buscar convites' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/invitations', async (c) => {
+  try {
+    const { data, errors } = validateInvitation(await c.req.json());
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    const email = data.email!.toLowerCase();
+    const users = await kv.getByPrefix<User>('user:');
+    if ((users || []).some((u) => sameEmail(u.email, email))) {
+      return c.json({ error: 'Já existe uma conta com este e-mail' }, 409);
+    }
+
+    let code = generateInvitationCode();
+    while (await kv.get(`invitation:${code}`)) {
+      code = generateInvitationCode();
+    }
+
+    const profile = c.get('profile');
+    const createdAt = new Date();
+    const invitation = {
+      code,
+      email,
+      role: data.role,
+      createdAt: createdAt.toISOString(),
+      createdBy: profile.id,
+      createdByName: profile.name,
+      expiresAt: new Date(createdAt.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    };
+
+    await kv.set(`invitation:${code}`, invitation);
+    return c.json({ invitation });
+  } catch (error) {
+    logError(c, 'Error creating invitation', error);
+    return c.json({ error: 'Erro ao criar convite' }, 500);
+  }
+});
+
+app.delete('/make-server-2a0842b8/invitations/:code', async (c) => {
+  try {
+    const key = `invitation:${normalizeInvitationCode(c.req.param('code'))}`;
+    const invitation = await kv.get<Invitation>(key);
+    if (!invitation) {
+      return c.json({ error: 'Convite não encontrado' }, 404);
+    }
+    if (invitation.usedAt) {
+      return c.json({ error: 'Este convite já foi utilizado' }, 400);
+    }
+
+    await kv.del(key);
+    return c.json({ success: true });
+  } catch (error) {
+    logError(c, 'Error revoking invitation', error);
+    return c.json({ error: 'Erro ao revogar convite' }, 500);
+  }
+});
+
+// ============================================
+// CLASS ASSIGNMENTS
+// ============================================
+// `assignment:<teacherId>:<id>` links a professor to one subject in a class
+// (course + class). GET /students and the per-student reads are scoped by
+// these; a professor without assignments sees no students.
+
+// Coordinators list every assignment (or one teacher's, ?teacherId=);
+// professores always get their own
+app.get('/make-server-2a0842b8/assignments', async (c) => {
+  try {
+    const profile = c.get('profile');
+    const teacherId = profile.role === 'coordenador' ? c.req.query('teacherId') : profile.id;
+    const assignments = await listAssignments(teacherId);
+    return c.json({
+      assignments: assignments.sort((a, b) =>
+        a.teacherName.localeCompare(b.teacherName) ||
+        a.course.localeCompare(b.course) ||
+        a.class.localeCompare(b.class) ||
+        a.subject.localeCompare(b.subject)
+      )
+    });
+  } catch (error) {
+    logError(c, 'Error fetching assignments', error);
+    return c.json({ error: 'Erro ao buscar atribuições de turmas' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/assignments', async (c) => {
+  try {
+    const { data, errors } = validateAssignment(await c.req.json());
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    const teacher = await kv.get<User>(`user:${data.teacherId}`);
+    if (!teacher || teacher.role !== 'professor') {
+      return invalidPayload(c, [{ field: 'teacherId', message: 'Professor não encontrado' }]);
+    }
+
+    if (findDuplicateAssignment(await listAssignments(teacher.id), data)) {
+      return c.json({ error: 'Esta turma e disciplina já estão atribuídas ao professor' }, 409);
+    }
+
+    const profile = c.get('profile');
+    const assignment = {
+      id: crypto.randomUUID(),
+      teacherId: teacher.id,
+      teacherName: teacher.name,
+      course: data.course,
+      class: data.class,
+      subject: data.subject,
+      createdAt: new Date().toISOString(),
+      createdBy: profile.id
+    };
+
+    await kv.set(`assignment:${teacher.id}:${assignment.id}`, assignment);
+    await recordAudit(c, 'create', 'assignment', null, assignment);
+    return c.json({ assignment });
+  } catch (error) {
+    logError(c, 'Error creating assignment', error);
+    return c.json({ error: 'Erro ao atribuir turma' }, 500);
+  }
+});
+
+app.delete('/make-server-2a0842b8/assignments/:teacherId/:id', async (c) => {
+  try {
+    const key = `assignment:${c.req.param('teacherId')}:${c.req.param('id')}`;
+    const assignment = await kv.get<Assignment>(key);
+    if (!assignment) {
+      return c.json({ error: 'Atribuição não encontrada' }, 404);
+    }
+
+    await kv.del(key);
+    await recordAudit(c, 'delete', 'assignment', assignment, null);
+    return c.json({ success: true });
+  } catch (error) {
+    logError(c, 'Error deleting assignment', error);
+    return c.json({ error: 'Erro ao remover atribuição' }, 500);
+  }
+});
+
+// ============================================
+// STUDENT ROUTES (Coordenadores only)
+// ============================================
+
+// Supports ?name=&course=&class=&hasAdaptations=&sort=&order=&limit=&cursor=
+app.get('/make-server-2a0842b8/students', async (c) => {
+  try {
+    const query = parseStudentQuery(c.req.query());
+    const [students, adaptations] = await Promise.all([
+      repositories().students.list(),
+      repositories().adaptations.list(),
+    ]);
+
+    const adaptationCounts = new Map<string, number>();
+    for (const adaptation of adaptations.filter((a) => !a.archivedAt)) {
+      adaptationCounts.set(adaptation.studentId, (adaptationCounts.get(adaptation.studentId) || 0) + 1);
+    }
+
+    const scope = await loadStudentScope(c);
+    const active = students.filter((s) => !s.archivedAt);
+    return c.json(queryStudents(scope ? scopeStudents(active, scope) : active, adaptationCounts, query));
+  } catch (error) {
+    logError(c, 'Error fetching students', error);
+    return c.json({ error: 'Erro ao buscar estudantes' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/students', async (c) => {
+  try {
+    const validation = validateStudent(await c.req.json());
+    const studentData = validInput(validation);
+    if (!studentData) {
+      return invalidPayload(c, validation.errors);
+    }
+
+    const conflict = await findRegistrationConflict(studentData.registrationNumber);
+    if (conflict) {
+      return registrationConflict(c, conflict);
+    }
+
+    const studentId = crypto.randomUUID();
+    const student: Student = {
+      id: studentId,
+      ...studentData,
+      createdAt: new Date().toISOString(),
+      createdBy: c.get('userId'),
+      version: 1
+    };
+
+    await repositories().students.save(student);
+    await recordAudit(c, 'create', 'student', null, student);
+    return c.json({ student });
+  } catch (error) {
+    logError(c, 'Error creating student', error);
+    return c.json({ error: 'Erro ao criar estudante' }, 500);
+  }
+});
+
+// Batch import. With `dryRun` only the per-row check is returned; otherwise
+// every row must pass, and then all students are written in a single mset.
+app.post('/make-server-2a0842b8/students/import', async (c) => {
+  try {
+    const body = await c.req.json();
+    const records = Array.isArray(body?.students) ? body.students : null;
+    if (!records || records.length === 0) {
+      return c.json({ error: 'Nenhum estudante para importar' }, 400);
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return c.json({ error: `Máximo de ${MAX_IMPORT_ROWS} estudantes por importação` }, 400);
+    }
+
+    const existing = await repositories().students.list();
+    const rows = checkImportRows(records, existing);
+
+    if (body.dryRun) {
+      return c.json({ dryRun: true, rows, created: [] });
+    }
+
+    if (rows.some((row) => row.status !== 'valid')) {
+      return c.json({ error: 'A importação contém linhas inválidas ou duplicadas. Nenhum estudante foi gravado.', rows }, 400);
+    }
+
+    const createdAt = new Date().toISOString();
+    // Every row passed, so each one is a complete input
+    const students: Student[] = rows.map((row) => ({
+      id: crypto.randomUUID(),
+      ...validInput(row)!,
+      createdAt,
+      createdBy: c.get('userId'),
+      version: 1
+    }));
+
+    await repositories().students.saveMany(students);
+    for (const student of students) {
+      await recordAudit(c, 'create', 'student', null, student);
+    }
+
+    return c.json({ dryRun: false, rows, created: students });
+  } catch (error) {
+    logError(c, 'Error importing students', error);
+    return c.json({ error: 'Erro ao importar estudantes' }, 500);
+  }
+});
+
+app.get('/make-server-2a0842b8/students/:id', async (c) => {
+  try {
+    const student = await repositories().students.get(c.req.param('id'));
+    if (!student || student.archivedAt) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+
+    c.header('ETag', etagFor(student));
+    return c.json({ student });
+  } catch (error) {
+    logError(c, 'Error fetching student', error);
+    return c.json({ error: 'Erro ao buscar estudante' }, 500);
+  }
+});
+
+app.put('/make-server-2a0842b8/students/:id', async (c) => {
+  try {
+    const studentId = c.req.param('id');
+    const existingStudent = await repositories().students.get(studentId);
+    if (!existingStudent || existingStudent.archivedAt) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+
+    const preconditionFailed = checkPrecondition(c, existingStudent);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+
+    const { data: updates, errors } = validateStudent(await c.req.json(), true);
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    // Nothing to save: a new version would only invalidate other editors' ETags
+    if (isNoOpUpdate(existingStudent, updates)) {
+      c.header('ETag', etagFor(existingStudent));
+      return c.json({ student: existingStudent });
+    }
+
+    const registrationChanged = updates.registrationNumber !== undefined &&
+      updates.registrationNumber !== existingStudent.registrationNumber;
+    if (registrationChanged) {
+      const conflict = await findRegistrationConflict(updates.registrationNumber!, studentId);
+      if (conflict) {
+        return registrationConflict(c, conflict);
+      }
+    }
+
+    const updatedStudent = {
+      ...existingStudent,
+      ...updates,
+      id: studentId,
+      updatedAt: new Date().toISOString(),
+      updatedBy: c.get('userId'),
+      version: nextVersion(existingStudent)
+    };
+
+    await repositories().students.save(updatedStudent);
+    await recordAudit(c, 'update', 'student', existingStudent, updatedStudent);
+    c.header('ETag', etagFor(updatedStudent));
+    return c.json({ student: updatedStudent });
+  } catch (error) {
+    logError(c, 'Error updating student', error);
+    return c.json({ error: 'Erro ao atualizar estudante' }, 500);
+  }
+});
+
+// Moves the student to the recycle bin together with its adaptations and reports
+app.delete('/make-server-2a0842b8/students/:id', async (c) => {
+  try {
+    const studentId = c.req.param('id');
+    const student = await repositories().students.get(studentId);
+    if (!student || student.archivedAt) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+
+    const preconditionFailed = checkPrecondition(c, student);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+
+    const archived = await archiveStudent(repositories(), student, {
+      archivedAt: new Date().toISOString(),
+      archivedBy: c.get('userId'),
+    });
+    await recordAudit(c, 'archive', 'student', student, archived);
+
+    return c.json({ success: true });
+  } catch (error) {
+    logError(c, 'Error deleting student', error);
+    return c.json({ error: 'Erro ao excluir estudante' }, 500);
+  }
+});
+
+// ============================================
+// ADAPTATION ROUTES (Coordenadores only)
+// ============================================
+
+app.get('/make-server-2a0842b8/adaptations/:studentId', async (c) => {
+  try {
+    const studentId = c.req.param('studentId');
+    const adaptations = await repositories().adaptations.listByStudent(studentId);
+    return c.json({ adaptations: adaptations.filter((a) => !a.archivedAt) });
+  } catch (error) {
+    logError(c, 'Error fetching adaptations', error);
+    return c.json({ error: 'Erro ao buscar adaptações' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/adaptations', async (c) => {
+  try {
+    const validation = validateAdaptation(await c.req.json());
+    const adaptationData = validInput(validation);
+    if (!adaptationData) {
+      return invalidPayload(c, validation.errors);
+    }
+
+    const student = await repositories().students.get(adaptationData.studentId);
+    if (!student || student.archivedAt) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+
+    const adaptationId = crypto.randomUUID();
+    const adaptation: Adaptation = {
+      id: adaptationId,
+      ...adaptationData,
+      createdAt: new Date().toISOString(),
+      createdBy: c.get('userId'),
+      version: 1
+    };
+
+    await repositories().adaptations.save(adaptation);
+    await recordRevision(c, 'adaptation', null, adaptation);
+    await recordAudit(c, 'create', 'adaptation', null, adaptation);
+    await notifyAdaptation('adaptation.created', adaptation);
+    return c.json({ adaptation });
+  } catch (error) {
+    logError(c, 'Error creating adaptation', error);
+    return c.json({ error: 'Erro ao criar adaptação' }, 500);
+  }
+});
+
+app.get('/make-server-2a0842b8/adaptations/:studentId/:id', async (c) => {
+  try {
+    const adaptation = await repositories().adaptations.get(c.req.param('studentId'), c.req.param('id'));
+    if (!adaptation || adaptation.archivedAt) {
+      return c.json({ error: 'Adaptação não encontrada' }, 404);
+    }
+
+    c.header('ETag', etagFor(adaptation));
+    return c.json({ adaptation });
+  } catch (error) {
+    logError(c, 'Error fetching adaptation', error);
+    return c.json({ error: 'Erro ao buscar adaptação' }, 500);
+  }
+});
+
+app.put('/make-server-2a0842b8/adaptations/:studentId/:id', async (c) => {
+  try {
+    const studentId = c.req.param('studentId');
+    const adaptationId = c.req.param('id');
+    const existing = await repositories().adaptations.get(studentId, adaptationId);
+    if (!existing || existing.archivedAt) {
+      return c.json({ error: 'Adaptação não encontrada' }, 404);
+    }
+
+    const preconditionFailed = checkPrecondition(c, existing);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+
+    const { data: updates, errors } = validateAdaptation(await c.req.json(), true);
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    if (isNoOpUpdate(existing, updates)) {
+      c.header('ETag', etagFor(existing));
+      return c.json({ adaptation: existing });
+    }
+
+    const updated = {
+      ...existing,
+      ...updates,
+      id: adaptationId,
+      studentId,
+      updatedAt: new Date().toISOString(),
+      version: nextVersion(existing)
+    };
+
+    await repositories().adaptations.save(updated);
+    await recordRevision(c, 'adaptation', existing, updated);
+    await recordAudit(c, 'update', 'adaptation', existing, updated);
+    await notifyAdaptation('adaptation.updated', updated);
+    c.header('ETag', etagFor(updated));
+    return c.json({ adaptation: updated });
+  } catch (error) {
+    logError(c, 'Error updating adaptation', error);
+    return c.json({ error: 'Erro ao atualizar adaptação' }, 500);
+  }
+});
+
+app.get('/make-server-2a0842b8/adaptations/:studentId/:id/revisions', async (c) => {
+  try {
+    const adaptationId = c.req.param('id');
+    const existing = await repositories().adaptations.get(c.req.param('studentId'), adaptationId);
+    if (!existing || existing.archivedAt) {
+      return c.json({ error: 'Adaptação não encontrada' }, 404);
+    }
+
+    return c.json({ revisions: await listRevisions('adaptation', adaptationId) });
+  } catch (error) {
+    logError(c, 'Error fetching adaptation revisions', error);
+    return c.json({ error: 'Erro ao buscar histórico da adaptação' }, 500);
+  }
+});
+
+// Restoring writes the old content as a new revision; nothing is rewound
+app.post('/make-server-2a0842b8/adaptations/:studentId/:id/revisions/:revision/restore', async (c) => {
+  try {
+    const studentId = c.req.param('studentId');
+    const adaptationId = c.req.param('id');
+    const existing = await repositories().adaptations.get(studentId, adaptationId);
+    if (!existing || existing.archivedAt) {
+      return c.json({ error: 'Adaptação não encontrada' }, 404);
+    }
+
+    const preconditionFailed = checkPrecondition(c, existing);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+
+    const number = Number(c.req.param('revision'));
+    const revision = (await listRevisions('adaptation', adaptationId)).find((r) => r.revision === number);
+    if (!revision) {
+      return c.json({ error: 'Revisão não encontrada' }, 404);
+    }
+
+    const updated = {
+      ...existing,
+      ...restorableFields<Adaptation>(revision),
+      id: adaptationId,
+      studentId,
+      updatedAt: new Date().toISOString(),
+      version: nextVersion(existing)
+    };
+
+    await repositories().adaptations.save(updated);
+    await recordRevision(c, 'adaptation', existing, updated, revision.revision);
+    await recordAudit(c, 'update', 'adaptation', existing, updated);
+    await notifyAdaptation('adaptation.updated', updated);
+    c.header('ETag', etagFor(updated));
+    return c.json({ adaptation: updated });
+  } catch (error) {
+    logError(c, 'Error restoring adaptation revision', error);
+    return c.json({ error: 'Erro ao restaurar revisão da adaptação' }, 500);
+  }
+});
+
+app.delete('/make-server-2a0842b8/adaptations/:studentId/:id', async (c) => {
+  try {
+    const studentId = c.req.param('studentId');
+    const adaptationId = c.req.param('id');
+    const existing = await repositories().adaptations.get(studentId, adaptationId);
+    if (!existing || existing.archivedAt) {
+      return c.json({ error: 'Adaptação não encontrada' }, 404);
+    }
+
+    const preconditionFailed = checkPrecondition(c, existing);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+
+    await repositories().adaptations.removeMany([existing]);
+    await deleteRevisions('adaptation', adaptationId);
+    await recordAudit(c, 'delete', 'adaptation', existing, null);
+
+    return c.json({ success: true });
+  } catch (error) {
+    logError(c, 'Error deleting adaptation', error);
+    return c.json({ error: 'Erro ao excluir adaptação' }, 500);
+  }
+});
+
+// ============================================
+// REPORT ROUTES (Professores)
+// ============================================
+
+app.get('/make-server-2a0842b8/student-report/:studentId', async (c) => {
+  try {
+    const studentId = c.req.param('studentId');
+    const reports = await repositories().reports.listByStudent(studentId);
+    return c.json({ reports: reports.filter((r) => !r.archivedAt) });
+  } catch (error) {
+    logError(c, 'Error fetching reports', error);
+    return c.json({ error: 'Erro ao buscar relatos' }, 500);
+  }
+});
+
+// Reports written by one teacher across all students.
+// Supports ?teacherId=me|<id>&subject=&from=&to=; only coordinators may list
+// another teacher's reports.
+app.get('/make-server-2a0842b8/reports', async (c) => {
+  try {
+    const profile = c.get('profile');
+    const requested = c.req.query('teacherId');
+    if (!requested) {
+      return c.json({ error: 'Informe o professor (teacherId)' }, 400);
+    }
+
+    const teacherId = requested === 'me' ? profile.id : requested;
+    if (teacherId !== profile.id && profile.role !== 'coordenador') {
+      return c.json({ error: 'Acesso negado. Você só pode listar seus próprios relatos.' }, 403);
+    }
+
+    const reports = await repositories().reports.listByTeacher(teacherId);
+    const students = await repositories().students.getMany([...new Set(reports.map((r) => r.studentId))]);
+
+    return c.json({
+      reports: filterTeacherReports(reports, students, parseTeacherReportFilter(c.req.query()))
+    });
+  } catch (error) {
+    logError(c, 'Error fetching teacher reports', error);
+    return c.json({ error: 'Erro ao buscar relatos do professor' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/reports', async (c) => {
+  try {
+    const profile = c.get('profile');
+    const validation = validateReport(await c.req.json());
+    const reportData = validInput(validation);
+    if (!reportData) {
+      return invalidPayload(c, validation.errors);
+    }
+
+    const student = await repositories().students.get(reportData.studentId);
+    if (!student || student.archivedAt || !(await canAccessStudent(c, student))) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+
+    const reportId = crypto.randomUUID();
+    const report: Report = {
+      id: reportId,
+      ...reportData,
+      teacherId: profile.id,
+      teacherName: profile.name,
+      date: reportData.date || today(),
+      createdAt: new Date().toISOString(),
+      version: 1
+    };
+
+    await repositories().reports.save(report);
+    await recordRevision(c, 'report', null, report);
+    await recordAudit(c, 'create', 'report', null, report);
+    await notifyReportAttention(report, student);
+    return c.json({ report });
+  } catch (error) {
+    logError(c, 'Error creating report', error);
+    return c.json({ error: 'Erro ao criar relato' }, 500);
+  }
+});
+
+app.get('/make-server-2a0842b8/reports/:studentId/:id', async (c) => {
+  try {
+    const report = await repositories().reports.get(c.req.param('studentId'), c.req.param('id'));
+    if (!report || report.archivedAt) {
+      return c.json({ error: 'Relato não encontrado' }, 404);
+    }
+
+    c.header('ETag', etagFor(report));
+    return c.json({ report });
+  } catch (error) {
+    logError(c, 'Error fetching report', error);
+    return c.json({ error: 'Erro ao buscar relato' }, 500);
+  }
+});
+
+app.put('/make-server-2a0842b8/reports/:studentId/:id', async (c) => {
+  try {
+    const studentId = c.req.param('studentId');
+    const reportId = c.req.param('id');
+    const existing = c.get('resource');
+
+    const preconditionFailed = checkPrecondition(c, existing);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+
+    const { data: updates, errors } = validateReport(await c.req.json(), true);
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    if (isNoOpUpdate(existing, updates)) {
+      c.header('ETag', etagFor(existing));
+      return c.json({ report: existing });
+    }
+
+    const updated = unshareIfEdited(existing, {
+      ...existing,
+      ...updates,
+      id: reportId,
+      studentId,
+      updatedAt: new Date().toISOString(),
+      version: nextVersion(existing)
+    });
+
+    await repositories().reports.save(updated);
+    await recordRevision(c, 'report', existing, updated);
+    await recordAudit(c, 'update', 'report', existing, updated);
+    c.header('ETag', etagFor(updated));
+    return c.json({ report: updated });
+  } catch (error) {
+    logError(c, 'Error updating report', error);
+    return c.json({ error: 'Erro ao atualizar relato' }, 500);
+  }
+});
+
+app.get('/make-server-2a0842b8/reports/:studentId/:id/revisions', async (c) => {
+  try {
+    const reportId = c.req.param('id');
+    const existing = await repositories().reports.get(c.req.param('studentId'), reportId);
+    if (!existing || existing.archivedAt) {
+      return c.json({ error: 'Relato não encontrado' }, 404);
+    }
+
+    return c.json({ revisions: await listRevisions('report', reportId) });
+  } catch (error) {
+    logError(c, 'Error fetching report revisions', error);
+    return c.json({ error: 'Erro ao buscar histórico do relato' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/reports/:studentId/:id/revisions/:revision/restore', async (c) => {
+  try {
+    const studentId = c.req.param('studentId');
+    const reportId = c.req.param('id');
+    const existing = await repositories().reports.get(studentId, reportId);
+    if (!existing || existing.archivedAt) {
+      return c.json({ error: 'Relato não encontrado' }, 404);
+    }
+
+    const preconditionFailed = checkPrecondition(c, existing);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+
+    const number = Number(c.req.param('revision'));
+    const revision = (await listRevisions('report', reportId)).find((r) => r.revision === number);
+    if (!revision) {
+      return c.json({ error: 'Revisão não encontrada' }, 404);
+    }
+
+    const updated = unshareIfEdited(existing, {
+      ...existing,
+      ...restorableFields<Report>(revision),
+      id: reportId,
+      studentId,
+      updatedAt: new Date().toISOString(),
+      version: nextVersion(existing)
+    });
+
+    await repositories().reports.save(updated);
+    await recordRevision(c, 'report', existing, updated, revision.revision);
+    await recordAudit(c, 'update', 'report', existing, updated);
+    c.header('ETag', etagFor(updated));
+    return c.json({ report: updated });
+  } catch (error) {
+    logError(c, 'Error restoring report revision', error);
+    return c.json({ error: 'Erro ao restaurar revisão do relato' }, 500);
+  }
+});
+
+app.delete('/make-server-2a0842b8/reports/:studentId/:id', async (c) => {
+  try {
+    const reportId = c.req.param('id');
+
+    const preconditionFailed = checkPrecondition(c, c.get('resource'));
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+
+    await repositories().reports.removeMany([c.get('resource')]);
+    await deleteRevisions('report', reportId);
+    await recordAudit(c, 'delete', 'report', c.get('resource'), null);
+    return c.json({ success: true });
+  } catch (error) {
+    logError(c, 'Error deleting report', error);
+    return c.json({ error: 'Erro ao excluir relato' }, 500);
+  }
+});
+
+// Mark a report as shareable with the student's guardians (or take it back)
+app.post('/make-server-2a0842b8/reports/:studentId/:id/share', async (c) => {
+  try {
+    const existing = await repositories().reports.get(c.req.param('studentId'), c.req.param('id'));
+    if (!existing || existing.archivedAt) {
+      return c.json({ error: 'Relato não encontrado' }, 404);
+    }
+
+    const { shared } = await c.req.json();
+    if (typeof shared !== 'boolean') {
+      return invalidPayload(c, [{ field: 'shared', message: 'Valor inválido' }]);
+    }
+
+    const profile = c.get('profile');
+    const updated = {
+      ...existing,
+      shared,
+      sharedAt: shared ? new Date().toISOString() : undefined,
+      sharedBy: shared ? profile.id : undefined,
+      version: nextVersion(existing)
+    };
+
+    await repositories().reports.save(updated);
+    await recordAudit(c, 'update', 'report', existing, updated);
+    c.header('ETag', etagFor(updated));
+    return c.json({ report: updated });
+  } catch (error) {
+    logError(c, 'Error sharing report', error);
+    return c.json({ error: 'Erro ao compartilhar relato' }, 500);
+  }
+});
+
+// ============================================
+// GUARDIAN PORTAL (Responsáveis only)
+// ============================================
+// A guardian sees the students linked to the account, their active
+// adaptations and the reports a coordinator shared; nothing else.
+
+app.get('/make-server-2a0842b8/guardian/students', async (c) => {
+  try {
+    const ids = linkedStudentIds(c.get('profile'));
+    const students = await repositories().students.getMany(ids);
+
+    const views = await Promise.all(
+      students
+        .filter((s) => !s.archivedAt)
+        .map(async (student) => {
+          const [adaptations, reports] = await Promise.all([
+            repositories().adaptations.listByStudent(student.id),
+            repositories().reports.listByStudent(student.id),
+          ]);
+          return guardianView(student, adaptations, reports);
+        })
+    );
+
+    return c.json({ students: views.sort((a, b) => a.student.name.localeCompare(b.student.name)) });
+  } catch (error) {
+    logError(c, 'Error fetching guardian students', error);
+    return c.json({ error: 'Erro ao buscar estudantes' }, 500);
+  }
+});
+
+// ============================================
+// FULL STUDENT REPORT (with adaptations and reports)
+// ============================================
+
+app.get('/make-server-2a0842b8/reports/:studentId', async (c) => {
+  try {
+    const studentId = c.req.param('studentId');
+    const student = await repositories().students.get(studentId);
+    if (!student || student.archivedAt) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+
+    const adaptations = await repositories().adaptations.listByStudent(studentId);
+    const reports = await repositories().reports.listByStudent(studentId);
+
+    // Sort reports by date (newest first)
+    const sortedReports = reports.sort((a, b) => 
+      new Date(b.date).getTime() - new Date(a.date).getTime()
+    );
+
+    return c.json({
+      student,
+      adaptations,
+      reports: sortedReports
+    });
+  } catch (error) {
+    logError(c, 'Error fetching student report', error);
+    return c.json({ error: 'Erro ao buscar relatório' }, 500);
+  }
+});
+
+// ============================================
+// RECYCLE BIN (Coordenadores only)
+// ============================================
+
+app.get('/make-server-2a0842b8/trash/students', async (c) => {
+  try {
+    const [students, adaptations, reports] = await Promise.all([
+      repositories().students.list(),
+      repositories().adaptations.list(),
+      repositories().reports.list(),
+    ]);
+
+    const archived = students
+      .filter((s) => s.archivedAt)
+      .sort((a, b) => b.archivedAt!.localeCompare(a.archivedAt!))
+      .map((s) => ({
+        ...s,
+        adaptationCount: adaptations.filter((a) => a.studentId === s.id).length,
+        reportCount: reports.filter((r) => r.studentId === s.id).length,
+      }));
+
+    return c.json({ students: archived });
+  } catch (error) {
+    logError(c, 'Error fetching archived students', error);
+    return c.json({ error: 'Erro ao buscar lixeira' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/trash/students/:id/restore', async (c) => {
+  try {
+    const student = await repositories().students.get(c.req.param('id'));
+    if (!student || !student.archivedAt) {
+      return c.json({ error: 'Estudante não encontrado na lixeira' }, 404);
+    }
+
+    const restored = await archiveStudent(repositories(), student, { archivedAt: undefined, archivedBy: undefined });
+    await recordAudit(c, 'restore', 'student', student, restored);
+
+    return c.json({ student: restored });
+  } catch (error) {
+    logError(c, 'Error restoring student', error);
+    return c.json({ error: 'Erro ao restaurar estudante' }, 500);
+  }
+});
+
+// Permanent removal. Requires ?confirm=<registrationNumber> so it can never be
+// triggered by the same click that archives a student.
+app.delete('/make-server-2a0842b8/trash/students/:id', async (c) => {
+  try {
+    const studentId = c.req.param('id');
+    const student = await repositories().students.get(studentId);
+    if (!student || !student.archivedAt) {
+      return c.json({ error: 'Estudante não encontrado na lixeira' }, 404);
+    }
+
+    if (c.req.query('confirm') !== student.registrationNumber) {
+      return c.json({ error: 'Confirme a exclusão informando a matrícula do estudante' }, 400);
+    }
+
+    const { adaptations, reports } = await purgeStudent(repositories(), student);
+
+    await recordAudit(c, 'delete', 'student', student, null);
+    for (const adaptation of adaptations) {
+      await deleteRevisions('adaptation', adaptation.id);
+      await recordAudit(c, 'delete', 'adaptation', adaptation, null);
+    }
+    for (const report of reports) {
+      await deleteRevisions('report', report.id);
+      await recordAudit(c, 'delete', 'report', report, null);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    logError(c, 'Error purging student', error);
+    return c.json({ error: 'Erro ao excluir estudante definitivamente' }, 500);
+  }
+});
+
+// ============================================
+// LGPD REQUESTS (Coordenadores only)
+// ============================================
+// Access and erasure requests about one student. Both are recorded in the
+// audit trail; the scrubbing rules live in lib/lgpd.ts.
+
+// Everything stored about the student, as a JSON file
+app.get('/make-server-2a0842b8/students/:id/data-export', async (c) => {
+  try {
+    const student = await repositories().students.get(c.req.param('id'));
+    if (!student) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+
+    const profile = c.get('profile');
+    const data = buildStudentDataExport(await loadStudentRecords(student), { id: profile.id, name: profile.name });
+    await recordAudit(c, 'export', 'student', student, student);
+
+    c.header('Content-Disposition', `attachment; filename="dados-estudante-${student.id}.json"`);
+    return c.json(data);
+  } catch (error) {
+    logError(c, 'Error exporting student data', error);
+    return c.json({ error: 'Erro ao exportar dados do estudante' }, 500);
+  }
+});
+
+// Irreversible. Requires ?confirm=<registrationNumber>, like the permanent
+// removal from the recycle bin.
+app.post('/make-server-2a0842b8/students/:id/anonymize', async (c) => {
+  try {
+    const student = await repositories().students.get(c.req.param('id'));
+    if (!student) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+    if (student.anonymizedAt) {
+      return c.json({ error: 'Estudante já anonimizado' }, 409);
+    }
+    if (c.req.query('confirm') !== student.registrationNumber) {
+      return c.json({ error: 'Confirme a anonimização informando a matrícula do estudante' }, 400);
+    }
+
+    const anonymized = await anonymizeStudent(student, c.get('userId'));
+    // Both sides are the scrubbed record, so the entry itself holds no personal data
+    await recordAudit(c, 'anonymize', 'student', anonymized, anonymized);
+    logInfo(c, 'Student anonymized', { studentId: student.id });
+
+    return c.json({ student: anonymized });
+  } catch (error) {
+    logError(c, 'Error anonymizing student', error);
+    return c.json({ error: 'Erro ao anonimizar estudante' }, 500);
+  }
+});
+
+// ============================================
+// WEBHOOKS (Coordenadores only)
+// ============================================
+// Subscriptions of external systems to student, adaptation and report events.
+// Sending, signing and retries live in webhooks.tsx.
+
+app.get('/make-server-2a0842b8/webhooks', async (c) => {
+  try {
+    const webhooks = await listWebhooks();
+    return c.json({ webhooks: webhooks.sort((a, b) => a.createdAt.localeCompare(b.createdAt)) });
+  } catch (error) {
+    logError(c, 'Error fetching webhooks', error);
+    return c.json({ error: 'Erro ao buscar webhooks' }, 500);
+  }
+});
+
+app.post('/make-server-2a0842b8/webhooks', async (c) => {
+  try {
+    const { data, errors } = validateWebhook(await c.req.json());
+    if (data.url) errors.push(...checkWebhookUrl(data.url));
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    const webhook = {
+      id: crypto.randomUUID(),
+      url: data.url,
+      description: data.description || '',
+      events: data.events,
+      active: data.active ?? true,
+      secret: generateWebhookSecret(),
+      createdAt: new Date().toISOString(),
+      createdBy: c.get('profile').id
+    };
+
+    await kv.set(`webhook:${webhook.id}`, webhook);
+    return c.json({ webhook });
+  } catch (error) {
+    logError(c, 'Error creating webhook', error);
+    return c.json({ error: 'Erro ao criar webhook' }, 500);
+  }
+});
+
+// Retry the deliveries whose backoff has elapsed; meant for a scheduled job
+app.post('/make-server-2a0842b8/webhooks/process', async (c) => {
+  try {
+    return c.json({ processed: await processDueDeliveries() });
+  } catch (error) {
+    logError(c, 'Error processing webhook deliveries', error);
+    return c.json({ error: 'Erro ao processar entregas de webhooks' }, 500);
+  }
+});
+
+app.put('/make-server-2a0842b8/webhooks/:id', async (c) => {
+  try {
+    const key = `webhook:${c.req.param('id')}`;
+    const existing = await kv.get<Webhook>(key);
+    if (!existing) {
+      return c.json({ error: 'Webhook não encontrado' }, 404);
+    }
+
+    const { data: updates, errors } = validateWebhook(await c.req.json(), true);
+    if (updates.url) errors.push(...checkWebhookUrl(updates.url));
+    if (errors.length > 0) {
+      return invalidPayload(c, errors);
+    }
+
+    const webhook = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+    await kv.set(key, webhook);
+    return c.json({ webhook });
+  } catch (error) {
+    logError(c, 'Error updating webhook', error);
+    return c.json({ error: 'Erro ao atualizar webhook' }, 500);
+  }
+});
+
+app.delete('/make-server-2a0842b8/webhooks/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    if (!(await kv.get(`webhook:${id}`))) {
+      return c.json({ error: 'Webhook não encontrado' }, 404);
+    }
+
+    await deleteDeliveries(id);
+    await kv.del(`webhook:${id}`);
+    return c.json({ success: true });
+  } catch (error) {
+    logError(c, 'Error deleting webhook', error);
+    return c.json({ error: 'Erro ao excluir webhook' }, 500);
+  }
+});
+
+app.get('/make-server-2a0842b8/webhooks/:id/deliveries', async (c) => {
+  try {
+    return c.json({ deliveries: await listDeliveries(c.req.param('id')) });
+  } catch (error) {
+    logError(c, 'Error fetching webhook deliveries', error);
+    return c.json({ error: 'Erro ao buscar entregas do webhook' }, 500);
+  }
+});
+
+// Send a `ping` and answer with the outcome
+app.post('/make-server-2a0842b8/webhooks/:id/test', async (c) => {
+  try {
+    const webhook = await kv.get<Webhook>(`webhook:${c.req.param('id')}`);
+    if (!webhook) {
+      return c.json({ error: 'Webhook não encontrado' }, 404);
+    }
+
+    const profile = c.get('profile');
+    const delivery = await sendTestEvent(webhook, { id: profile.id, name: profile.name });
+    return c.json({ delivery });
+  } catch (error) {
+    logError(c, 'Error testing webhook', error);
+    return c.json({ error: 'Erro ao testar webhook' }, 500);
+  }
+});
+
+// Manual retry of one delivery, including one that exhausted its attempts
+app.post('/make-server-2a0842b8/webhooks/:id/deliveries/:deliveryId/retry', async (c) => {
+  try {
+    const webhookId = c.req.param('id');
+    const [webhook, delivery] = await Promise.all([
+      kv.get<Webhook>(`webhook:${webhookId}`),
+      kv.get<WebhookDelivery>(`webhook-delivery:${webhookId}:${c.req.param('deliveryId')}`),
+    ]);
+    if (!webhook || !delivery) {
+      return c.json({ error: 'Entrega não encontrada' }, 404);
+    }
+    if (delivery.status === 'success') {
+      return c.json({ error: 'Esta entrega já foi concluída' }, 400);
+    }
+
+    return c.json({ delivery: await attemptDelivery(webhook, delivery) });
+  } catch (error) {
+    logError(c, 'Error retrying webhook delivery', error);
+    return c.json({ error: 'Erro ao reenviar entrega' }, 500);
+  }
+});
+
+// ============================================
+// NOTIFICATION OUTBOX (Coordenadores only)
+// ============================================
+// Emails are queued by the adaptation and report routes (notifications.tsx);
+// these routes show the outbox and send what is still pending.
+
+app.get('/make-server-2a0842b8/notifications', async (c) => {
+  try {
+    return c.json({ notifications: await listNotifications() });
+  } catch (error) {
+    logError(c, 'Error fetching notifications', error);
+    return c.json({ error: 'Erro ao buscar notificações' }, 500);
+  }
+});
+
+// Send the pending messages now; also meant for a scheduled job
+app.post('/make-server-2a0842b8/notifications/process', async (c) => {
+  try {
+    return c.json(await flushOutbox());
+  } catch (error) {
+    logError(c, 'Error sending notifications', error);
+    return c.json({ error: 'Erro ao enviar notificações' }, 500);
+  }
+});
+
+// ============================================
+// ADAPTATION REVIEWS (Coordenadores only)
+// ============================================
+// Adaptations are reviewed periodically (lib/adaptationReview.ts). Reminders
+// go to the coordinators once per adaptation and review date.
+
+async function loadPendingReviews() {
+  const [students, adaptations] = await Promise.all([repositories().students.list(), repositories().adaptations.list()]);
+  return { reviews: pendingReviews(adaptations, students), students };
+}
+
+app.get('/make-server-2a0842b8/adaptation-reviews', async (c) => {
+  try {
+    const { reviews } = await loadPendingReviews();
+    return c.json({ reviews });
+  } catch (error) {
+    logError(c, 'Error fetching pending reviews', error);
+    return c.json({ error: 'Erro ao buscar revisões pendentes' }, 500);
+  }
+});
+
+// Queue reminders for reviews not reminded yet; also meant for a daily scheduled job
+app.post('/make-server-2a0842b8/adaptation-reviews/remind', async (c) => {
+  try {
+    const { reviews, students } = await loadPendingReviews();
+    const studentsById = new Map(students.map((s) => [s.id, s]));
+    let reminded = 0;
+
+    for (const review of reviews) {
+      const reminder = { adaptationId: review.adaptation.id, reviewDate: review.reviewDate, sentAt: new Date().toISOString() };
+      if (await kv.get(reviewReminderKey(reminder))) continue;
+      await notifyReviewDue(review, studentsById.get(review.adaptation.studentId)!);
+      await kv.set(reviewReminderKey(reminder), reminder);
+      reminded++;
+    }
+
+    return c.json({ reminded });
+  } catch (error) {
+    logError(c, 'Error sending review reminders', error);
+    return c.json({ error: 'Erro ao enviar lembretes de revisão' }, 500);
+  }
+});
+
+// ============================================
+// AUDIT TRAIL (Coordenadores only)
+// ============================================
+
+// Supports ?entityType=&action=&actorId=&studentId=&from=&to=&limit=
+app.get('/make-server-2a0842b8/audit', async (c) => {
+  try {
+    const entries = await kv.getByPrefix<AuditEntry>('audit:');
+    return c.json({ entries: filterAuditEntries(entries || [], parseAuditFilter(c.req.query())) });
+  } catch (error) {
+    logError(c, 'Error fetching audit trail', error);
+    return c.json({ error: 'Erro ao buscar auditoria' }, 500);
+  }
+});
+
+// ============================================
+// INDICATORS (Coordenadores only)
+// ============================================
+
+// Supports ?course=&class=&from=&to=
+app.get('/make-server-2a0842b8/stats', async (c) => {
+  try {
+    const [students, adaptations, reports] = await Promise.all([
+      repositories().students.list(),
+      repositories().adaptations.list(),
+      repositories().reports.list(),
+    ]);
+
+    const active = <T extends { archivedAt?: string }>(records: T[]) => records.filter((r) => !r.archivedAt);
+    const stats = computeStats(
+      active(students),
+      active(adaptations),
+      active(reports),
+      parseStatsFilter(c.req.query())
+    );
+
+    return c.json({ stats });
+  } catch (error) {
+    logError(c, 'Error computing stats', error);
+    return c.json({ error: 'Erro ao calcular indicadores' }, 500);
+  }
+});
+
+// ============================================
+// SCHEMA MIGRATIONS (Coordenadores only)
+// ============================================
+
+// Stored schema version and the steps not applied yet
+app.get('/make-server-2a0842b8/migrations', async (c) => {
+  try {
+    return c.json(await migrationStatus());
+  } catch (error) {
+    logError(c, 'Error fetching migration status', error);
+    return c.json({ error: 'Erro ao verificar migrações' }, 500);
+  }
+});
+
+// Applies the pending steps in order. With `dryRun` only the changes each step
+// would make are counted.
+app.post('/make-server-2a0842b8/migrations/run', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const result = await runKvMigrations(body?.dryRun === true);
+    if (!result.dryRun && result.steps.length > 0) {
+      logInfo(c, 'Schema migrated', { fromVersion: result.fromVersion, toVersion: result.toVersion });
+    }
+    return c.json({ result });
+  } catch (error) {
+    logError(c, 'Error running migrations', error);
+    return c.json({ error: 'Erro ao executar migrações' }, 500);
+  }
+});
+
+// ============================================
+// BACKUP AND RESTORE (Coordenadores only)
+// ============================================
+
+// Complete archive of the namespace, downloaded as a JSON file
+app.get('/make-server-2a0842b8/backup', async (c) => {
+  try {
+    const archive = await createKvBackup(c.get('profile'));
+    const fileName = `backup-adaptacoes-${archive.createdAt.slice(0, 10)}.json`;
+    c.header('Content-Disposition', `attachment; filename="${fileName}"`);
+    logInfo(c, 'Backup created', { counts: archive.counts });
+    return c.json(archive);
+  } catch (error) {
+    logError(c, 'Error creating backup', error);
+    return c.json({ error: 'Erro ao gerar cópia de segurança' }, 500);
+  }
+});
+
+// Restores an archive, merging it into the stored records or replacing them.
+// The whole archive is validated first; with `dryRun` only the changes are counted.
+app.post('/make-server-2a0842b8/backup/restore', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    const mode = body?.mode;
+    if (mode !== 'merge' && mode !== 'replace') {
+      return invalidPayload(c, [{ field: 'mode', message: 'Valor inválido' }]);
+    }
+    // An archive is restored onto records at the latest schema only; an empty
+    // namespace, as in a disaster recovery, has nothing to migrate
+    if (await applyEmptyMigrations(body.dryRun === true)) {
+      return c.json({ error: 'Aplique as migrações pendentes antes de restaurar uma cópia' }, 409);
+    }
+
+    const { result, errors } = await restoreKvBackup(body.archive, {
+      mode,
+      dryRun: body.dryRun === true,
+      actor: c.get('profile'),
+    });
+    if (!result) {
+      return invalidPayload(c, errors);
+    }
+    if (!result.dryRun) {
+      logInfo(c, 'Backup restored', { mode, createdAt: result.createdAt, collections: result.collections });
+    }
+    return c.json({ result });
+  } catch (error) {
+    logError(c, 'Error restoring backup', error);
+    return c.json({ error: 'Erro ao restaurar cópia de segurança' }, 500);
+  }
+});
+
+// ============================================
+// API DOCUMENTATION (public)
+// ============================================
+
+// OpenAPI 3 description of every route; lib/apiClient.ts is generated from it
+app.get('/make-server-2a0842b8/openapi.json', (c) => {
+  try {
+    return c.json(buildOpenApiDocument());
+  } catch (error) {
+    logError(c, 'Error building OpenAPI document', error);
+    return c.json({ error: 'Erro ao gerar a especificação da API' }, 500);
+  }
+});
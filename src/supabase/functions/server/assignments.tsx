@@ -0,0 +1,38 @@
+// Class assignments, keyed `assignment:<teacherId>:<id>` so one teacher's
+// classes are a single prefix scan. Teachers only reach the students of their
+// assigned classes; coordinators are not scoped.
+import type { Context, MiddlewareHandler } from 'npm:hono';
+import type { Assignment } from '../../../types/index.ts';
+import { isAssignedStudent } from '../../../lib/assignments.ts';
+import type { AppEnv } from './auth.tsx';
+import { repositories } from './repositories.tsx';
+import * as kv from './kv.tsx';
+
+export async function listAssignments(teacherId?: string): Promise<Assignment[]> {
+  const assignments = await kv.getByPrefix<Assignment>(teacherId ? `assignment:${teacherId}:` : 'assignment:');
+  return assignments || [];
+}
+
+// Assignments limiting what the caller sees, or null when nothing is limited
+export async function loadStudentScope(c: Context<AppEnv>): Promise<Assignment[] | null> {
+  const profile = c.get('profile');
+  if (profile.role === 'coordenador') return null;
+  return await listAssignments(profile.id);
+}
+
+export async function canAccessStudent(c: Context<AppEnv>, student: any) {
+  const scope = await loadStudentScope(c);
+  return scope === null || isAssignedStudent(student, scope);
+}
+
+// Answers 404 for students outside the caller's classes, so their existence is
+// not disclosed either
+export function requireStudentAccess(param = 'studentId'): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const student = await repositories().students.get(c.req.param(param));
+    if (student && !(await canAccessStudent(c, student))) {
+      return c.json({ error: 'Estudante não encontrado' }, 404);
+    }
+    await next();
+  };
+}
@@ -0,0 +1,39 @@
+// Append-only audit trail. Entries are keyed by timestamp so a prefix scan
+// returns them in chronological order; no route updates or deletes them.
+// Audited changes are also the source of the outgoing webhook events.
+import type { Context } from 'npm:hono';
+import type { AuditAction, AuditEntityType, AuditEntry } from '../../../types/index.ts';
+import { createAuditEntry } from '../../../lib/audit.ts';
+import { webhookEventFor, webhookPayload } from '../../../lib/webhooks.ts';
+import type { AppEnv } from './auth.tsx';
+import * as kv from './kv.tsx';
+import { emitWebhookEvent } from './webhooks.tsx';
+
+export function auditKey(entry: AuditEntry) {
+  return `audit:${entry.timestamp}:${entry.id}`;
+}
+
+export async function recordAudit(
+  c: Context<AppEnv>,
+  action: AuditAction,
+  entityType: AuditEntityType,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+) {
+  const profile = c.get('profile');
+  const actor = { id: profile.id, name: profile.name };
+  const entry = createAuditEntry({
+    id: crypto.randomUUID(),
+    actor,
+    action,
+    entityType,
+    before,
+    after,
+  });
+  await kv.set(auditKey(entry), entry);
+
+  const event = webhookEventFor(entityType, action);
+  if (event) {
+    await emitWebhookEvent(event, webhookPayload(entityType, (after ?? before)!), actor);
+  }
+}
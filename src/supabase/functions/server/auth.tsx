@@ -0,0 +1,78 @@
+// Authentication and authorization middleware for the make-server routes.
+// Routes never talk to Supabase Auth directly: `requireAuth` resolves the
+// caller once and the other guards read the profile it attaches to the context.
+import type { Context, MiddlewareHandler } from 'npm:hono';
+import type { Report, User, UserRole } from '../../../types/index.ts';
+import * as kv from './kv.tsx';
+
+export type AppEnv = {
+  Variables: {
+    requestId: string;
+    userId: string;
+    profile: User;
+    // Set by `requireOwnership`; reports are the only records guarded by author
+    resource: Report;
+  };
+};
+
+// Resolves the user id behind an access token, or null when the token is invalid.
+export type TokenVerifier = (accessToken: string) => Promise<string | null>;
+
+// Loads the record a route acts upon, or null when it does not exist.
+export type ResourceLoader = (c: Context<AppEnv>) => Promise<Report | null>;
+
+export function createRequireAuth(verifyToken: TokenVerifier): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1];
+    const userId = accessToken ? await verifyToken(accessToken) : null;
+    if (!userId) {
+      return c.json({ error: 'Não autorizado' }, 401);
+    }
+
+    const profile = await kv.get<User>(`user:${userId}`);
+    if (!profile) {
+      return c.json({ error: 'Perfil não encontrado' }, 403);
+    }
+    // Sessions issued before the account was deactivated stop working too
+    if (profile.deactivatedAt) {
+      return c.json({ error: 'Conta desativada. Procure a coordenação.' }, 403);
+    }
+
+    c.set('userId', userId);
+    c.set('profile', profile);
+    await next();
+  };
+}
+
+export function requireRole(...roles: UserRole[]): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const profile = c.get('profile');
+    if (!profile || !roles.includes(profile.role)) {
+      return c.json({ error: 'Acesso negado' }, 403);
+    }
+    await next();
+  };
+}
+
+// Only lets the author (`ownerField` of the loaded record) through. The record is
+// attached as `resource` so the handler does not need to read it again.
+export function requireOwnership(
+  load: ResourceLoader,
+  {
+    ownerField = 'teacherId',
+    notFound = 'Registro não encontrado',
+    forbidden = 'Acesso negado',
+  }: { ownerField?: keyof Report; notFound?: string; forbidden?: string } = {}
+): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const resource = await load(c);
+    if (!resource) {
+      return c.json({ error: notFound }, 404);
+    }
+    if (resource[ownerField] !== c.get('userId')) {
+      return c.json({ error: forbidden }, 403);
+    }
+    c.set('resource', resource);
+    await next();
+  };
+}
@@ -0,0 +1,11 @@
+// Work that must not hold up the request that caused it (webhook deliveries,
+// outgoing email). Supabase's runtime keeps the worker alive for promises
+// handed to EdgeRuntime.waitUntil; elsewhere the task simply runs detached.
+import { logTaskError } from './logging.tsx';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+export function inBackground(task: Promise<unknown>, label: string) {
+  const guarded = task.catch((error) => logTaskError(`Error ${label}`, error));
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(guarded);
+}
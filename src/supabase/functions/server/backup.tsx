@@ -0,0 +1,41 @@
+// Backup and restore of the KV namespace (lib/backup.ts). Students,
+// adaptations, reports, revisions and audit entries are written the way a
+// schema migration writes them, so the repositories keep their indexes; class
+// assignments are plain KV records. Profiles are backed up but never restored:
+// each belongs to a Supabase Auth account, which the archive cannot create or
+// remove. Invitations, webhooks, the notification outbox and reminder markers
+// stay out of the archive.
+import { createBackup, restoreBackup, type BackupTarget, type RestoreMode } from '../../../lib/backup.ts';
+import type { Assignment, User } from '../../../types/index.ts';
+import { getSchemaVersion, kvMigrationTarget, loadKvRecords } from './migrations.tsx';
+import * as kv from './kv.tsx';
+
+const assignmentKey = (assignment: Assignment) => `assignment:${assignment.teacherId}:${assignment.id}`;
+
+const kvTarget: BackupTarget = {
+  keepsUsers: true,
+  async load() {
+    const [records, assignments] = await Promise.all([loadKvRecords(), kv.getByPrefix<Assignment>('assignment:')]);
+    return { ...records, assignments: assignments || [] };
+  },
+  async write(data, changes) {
+    const { assignments } = changes;
+    // Reminder markers are not part of the archive and stay as they are
+    const untouched = { saved: [], removed: [] };
+    await kvMigrationTarget.write({ ...data, reviewReminders: [] }, { ...changes, reviewReminders: untouched });
+    if (assignments.removed.length > 0) await kv.mdel(assignments.removed.map(assignmentKey));
+    if (assignments.saved.length > 0) await kv.mset(assignments.saved.map(assignmentKey), assignments.saved);
+  },
+};
+
+export async function createKvBackup(profile: User) {
+  return createBackup(await kvTarget.load(), {
+    schemaVersion: await getSchemaVersion(),
+    source: 'server',
+    createdBy: { id: profile.id, name: profile.name },
+  });
+}
+
+export function restoreKvBackup(input: unknown, options: { mode: RestoreMode; dryRun: boolean; actor: User }) {
+  return restoreBackup(kvTarget, input, { ...options, generateId: () => crypto.randomUUID() });
+}
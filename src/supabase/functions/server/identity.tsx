@@ -0,0 +1,128 @@
+// Accounts and access tokens. Deployed, this is Supabase Auth; the local runner
+// uses createLocalIdentity, which keeps accounts in memory and issues fake
+// tokens. Only the calls the routes make are part of the interface, with the
+// same shapes as supabase-js so the client itself satisfies it.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  user_metadata?: Record<string, unknown>;
+}
+
+export type AuthResult<T> = { data: T; error: null } | { data: Partial<T>; error: { message: string } };
+
+export interface NewAccount {
+  email: string;
+  password: string;
+  user_metadata?: Record<string, unknown>;
+  email_confirm?: boolean;
+}
+
+export interface AccountChanges {
+  email?: string;
+  password?: string;
+  user_metadata?: Record<string, unknown>;
+  // Supabase duration ('876000h'), or 'none' to lift the ban
+  ban_duration?: string;
+}
+
+export interface IdentityProvider {
+  getUser(accessToken: string): Promise<AuthResult<{ user: AuthUser | null }>>;
+  admin: {
+    createUser(account: NewAccount): Promise<AuthResult<{ user: AuthUser }>>;
+    updateUserById(id: string, changes: AccountChanges): Promise<AuthResult<{ user: AuthUser }>>;
+  };
+}
+
+let provider: IdentityProvider | null = null;
+
+export function setIdentityProvider(next: IdentityProvider) {
+  provider = next;
+}
+
+export function identity(): IdentityProvider {
+  if (!provider) {
+    throw new Error('No identity provider configured: call setIdentityProvider before serving requests');
+  }
+  return provider;
+}
+
+export function createSupabaseIdentity(url: string, serviceRoleKey: string): IdentityProvider {
+  return createClient(url, serviceRoleKey).auth;
+}
+
+// Fake tokens are `local:<userId>`; see createLocalIdentity
+export const LOCAL_TOKEN_PREFIX = 'local:';
+
+export function localToken(userId: string) {
+  return `${LOCAL_TOKEN_PREFIX}${userId}`;
+}
+
+// Stored as is, password included: meant for development data only
+export interface LocalAccount {
+  id: string;
+  email: string;
+  password: string;
+  user_metadata: Record<string, unknown>;
+  banned?: boolean;
+}
+
+// Accounts in memory, optionally starting from `accounts`; `onChange` receives
+// all of them after each change, for callers that persist them. The token of an
+// existing, unbanned account is `local:<id>`, so tests and local tools can act
+// as any user without signing in.
+export function createLocalIdentity(
+  accounts: LocalAccount[] = [],
+  onChange?: (accounts: LocalAccount[]) => void
+): IdentityProvider & { signIn(email: string, password: string): string | null } {
+  const byId = new Map<string, LocalAccount>(accounts.map((a) => [a.id, { ...a }]));
+  const changed = () => onChange?.([...byId.values()]);
+  const failure = (message: string) => ({ data: {}, error: { message } });
+  const findByEmail = (email: string) => [...byId.values()].find((a) => a.email === email.trim().toLowerCase());
+  const toUser = (account: LocalAccount): AuthUser => ({
+    id: account.id,
+    email: account.email,
+    user_metadata: account.user_metadata,
+  });
+
+  return {
+    async getUser(accessToken) {
+      const account = accessToken.startsWith(LOCAL_TOKEN_PREFIX)
+        ? byId.get(accessToken.slice(LOCAL_TOKEN_PREFIX.length))
+        : undefined;
+      if (!account || account.banned) {
+        return failure('Invalid token');
+      }
+      return { data: { user: toUser(account) }, error: null };
+    },
+    admin: {
+      async createUser({ email, password, user_metadata = {} }) {
+        if (findByEmail(email)) {
+          return failure('A user with this email address has already been registered');
+        }
+        const account = { id: crypto.randomUUID(), email: email.trim().toLowerCase(), password, user_metadata };
+        byId.set(account.id, account);
+        changed();
+        return { data: { user: toUser(account) }, error: null };
+      },
+      async updateUserById(id, changes) {
+        const account = byId.get(id);
+        if (!account) {
+          return failure('User not found');
+        }
+        if (changes.email) account.email = changes.email.trim().toLowerCase();
+        if (changes.password) account.password = changes.password;
+        if (changes.user_metadata) account.user_metadata = { ...account.user_metadata, ...changes.user_metadata };
+        if (changes.ban_duration) account.banned = changes.ban_duration !== 'none';
+        changed();
+        return { data: { user: toUser(account) }, error: null };
+      },
+    },
+    // Token for the account with these credentials, or null
+    signIn(email, password) {
+      const account = findByEmail(email);
+      return account && !account.banned && account.password === password ? localToken(account.id) : null;
+    },
+  };
+}
@@ -0,0 +1,74 @@
+// Key-value store used by every server module. Deployed, it is the Supabase
+// table behind kv_store.tsx (autogenerated, left untouched); the local runner
+// swaps in an in-memory store with setKvStore before serving requests.
+// Values come back as they were stored: readers name the type they expect.
+import * as supabaseKv from './kv_store.tsx';
+
+export interface KvStore {
+  set(key: string, value: unknown): Promise<void>;
+  get(key: string): Promise<unknown>;
+  del(key: string): Promise<void>;
+  mset(keys: string[], values: unknown[]): Promise<void>;
+  mget(keys: string[]): Promise<unknown[]>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<unknown[]>;
+}
+
+let store: KvStore = supabaseKv;
+
+export function setKvStore(next: KvStore) {
+  store = next;
+}
+
+export const set = (key: string, value: unknown) => store.set(key, value);
+export const get = <T,>(key: string) => store.get(key) as Promise<T | undefined>;
+export const del = (key: string) => store.del(key);
+export const mset = (keys: string[], values: unknown[]) => store.mset(keys, values);
+export const mget = <T,>(keys: string[]) => store.mget(keys) as Promise<T[]>;
+export const mdel = (keys: string[]) => store.mdel(keys);
+export const getByPrefix = <T,>(prefix: string) => store.getByPrefix(prefix) as Promise<T[]>;
+
+// Values go through JSON like they would through the JSONB column, so callers
+// never share objects with the store and `undefined` fields disappear.
+function copy(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+// In-memory store, optionally starting from `entries`. `onChange` receives
+// every entry after each write, for callers that persist them (e.g. to a file).
+export function createMemoryKv(
+  entries: Record<string, unknown> = {},
+  onChange?: (entries: Record<string, unknown>) => void
+): KvStore {
+  const data = new Map<string, unknown>(Object.entries(entries).map(([key, value]) => [key, copy(value)]));
+  const changed = () => onChange?.(Object.fromEntries(data));
+
+  return {
+    async set(key, value) {
+      data.set(key, copy(value));
+      changed();
+    },
+    async get(key) {
+      return copy(data.get(key));
+    },
+    async del(key) {
+      data.delete(key);
+      changed();
+    },
+    async mset(keys, values) {
+      keys.forEach((key, i) => data.set(key, copy(values[i])));
+      changed();
+    },
+    // Like the table: missing keys are left out, not returned as undefined
+    async mget(keys) {
+      return keys.filter((key) => data.has(key)).map((key) => copy(data.get(key)));
+    },
+    async mdel(keys) {
+      keys.forEach((key) => data.delete(key));
+      changed();
+    },
+    async getByPrefix(prefix) {
+      return [...data].filter(([key]) => key.startsWith(prefix)).map(([, value]) => copy(value));
+    },
+  };
+}
@@ -0,0 +1,69 @@
+// LGPD requests about one student (lib/lgpd.ts): everything the namespace
+// holds about them, and its anonymization. Outbox emails and webhook payloads
+// have no student field, so emails are matched by the student's full name or
+// registration number and payloads by the student id.
+import {
+  anonymizeStudentRecords,
+  identifyingTerms,
+  mentions,
+  type StudentRecords,
+} from '../../../lib/lgpd.ts';
+import type { AuditEntry, Student, User, WebhookDelivery } from '../../../types/index.ts';
+import { auditKey } from './audit.tsx';
+import { listNotifications } from './notifications.tsx';
+import { repositories } from './repositories.tsx';
+import { deleteRevisions, listRevisions } from './revisions.tsx';
+import { deliveryKey } from './webhooks.tsx';
+import * as kv from './kv.tsx';
+
+export async function loadStudentRecords(student: Student): Promise<StudentRecords> {
+  const [adaptations, reports, audit, users, notifications, deliveries] = await Promise.all([
+    repositories().adaptations.listByStudent(student.id),
+    repositories().reports.listByStudent(student.id),
+    kv.getByPrefix<AuditEntry>('audit:'),
+    kv.getByPrefix<User>('user:'),
+    listNotifications(),
+    kv.getByPrefix<WebhookDelivery>('webhook-delivery:'),
+  ]);
+  const revisions = await Promise.all([
+    ...adaptations.map((a) => listRevisions('adaptation', a.id)),
+    ...reports.map((r) => listRevisions('report', r.id)),
+  ]);
+  const terms = identifyingTerms(student);
+
+  return {
+    student,
+    adaptations,
+    reports,
+    revisions: revisions.flat(),
+    audit: (audit || []).filter((e) => e.studentId === student.id),
+    guardians: (users || []).filter((u) => u.role === 'responsavel' && u.studentIds?.includes(student.id)),
+    notifications: notifications.filter((n) => mentions(`${n.subject}\n${n.text}`, terms)),
+    webhookDeliveries: (deliveries || []).filter((d) => d.body.includes(student.id)),
+  };
+}
+
+// Scrubs the student and every record about them in place. Revisions are
+// deleted, since each one keeps the text as it stood before.
+export async function anonymizeStudent(student: Student, anonymizedBy: string): Promise<Student> {
+  const records = await loadStudentRecords(student);
+  const anonymized = anonymizeStudentRecords(records, { anonymizedAt: new Date().toISOString(), anonymizedBy });
+
+  await repositories().students.save(anonymized.student);
+  await repositories().adaptations.saveMany(anonymized.adaptations);
+  await repositories().reports.saveMany(anonymized.reports);
+  for (const adaptation of records.adaptations) {
+    await deleteRevisions('adaptation', adaptation.id);
+  }
+  for (const report of records.reports) {
+    await deleteRevisions('report', report.id);
+  }
+
+  const { audit, notifications, webhookDeliveries, guardians } = anonymized;
+  if (audit.length > 0) await kv.mset(audit.map(auditKey), audit);
+  if (notifications.length > 0) await kv.mset(notifications.map((n) => `notification:${n.id}`), notifications);
+  if (webhookDeliveries.length > 0) await kv.mset(webhookDeliveries.map(deliveryKey), webhookDeliveries);
+  if (guardians.length > 0) await kv.mset(guardians.map((g) => `user:${g.id}`), guardians);
+
+  return anonymized.student;
+}
@@ -0,0 +1,72 @@
+// Local server: the routes of app.tsx on an in-memory KV store and local
+// accounts with fake tokens (identity.tsx), to develop and integration-test the
+// backend without Supabase. src/scripts/local-server.ts serves it over HTTP;
+// tests can skip the port and call `createLocalServer().fetch(request)`.
+import { Hono } from 'npm:hono';
+import { app } from './app.tsx';
+import { createMemoryKv, setKvStore } from './kv.tsx';
+import { createLocalIdentity, setIdentityProvider, type LocalAccount } from './identity.tsx';
+import { createKvRepositories, setRepositories } from './repositories.tsx';
+import { allowInternalWebhookHosts } from './webhooks.tsx';
+import type { Repositories } from '../../../lib/repositories.ts';
+
+export interface LocalData {
+  kv: Record<string, unknown>;
+  accounts: LocalAccount[];
+}
+
+// Same credentials as the browser-only mode and scripts/create-test-users.ts
+export const SEED_USERS = [
+  { id: 'local-coordenador', email: 'coordenador@escola.com', password: 'coord123', name: 'Maria Silva', role: 'coordenador' },
+  { id: 'local-professor', email: 'professor@escola.com', password: 'prof123', name: 'João Santos', role: 'professor' },
+];
+
+export function seedData(): LocalData {
+  return {
+    kv: Object.fromEntries(
+      SEED_USERS.map(({ id, email, name, role }) => [`user:${id}`, { id, email, name, role }])
+    ),
+    accounts: SEED_USERS.map(({ id, email, password, name, role }) => ({
+      id,
+      email,
+      password,
+      user_metadata: { name, role },
+    })),
+  };
+}
+
+// Point the routes at local data and return a server that also answers
+// POST /local/sign-in {email, password} with a token. Students, adaptations and
+// reports stay in the KV data unless other `repositories` are given (in-memory
+// or SQLite). The stores and the identity provider are process-wide, so only
+// one local server runs at a time.
+export function createLocalServer(
+  data: LocalData = seedData(),
+  onChange?: (data: LocalData) => void,
+  repositories: Repositories = createKvRepositories()
+) {
+  const current = { ...data };
+  setKvStore(createMemoryKv(data.kv, (kv) => {
+    current.kv = kv;
+    onChange?.(current);
+  }));
+  const identity = createLocalIdentity(data.accounts, (accounts) => {
+    current.accounts = accounts;
+    onChange?.(current);
+  });
+  setIdentityProvider(identity);
+  setRepositories(repositories);
+  allowInternalWebhookHosts(true);
+
+  const server = new Hono();
+  server.post('/local/sign-in', async (c) => {
+    const { email, password } = await c.req.json().catch(() => ({}));
+    const accessToken = typeof email === 'string' && typeof password === 'string' ? identity.signIn(email, password) : null;
+    if (!accessToken) {
+      return c.json({ error: 'E-mail ou senha inválidos' }, 401);
+    }
+    return c.json({ access_token: accessToken });
+  });
+  server.route('/', app);
+  return server;
+}
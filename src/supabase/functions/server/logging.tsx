@@ -0,0 +1,79 @@
+// Structured logs: one JSON object per line, so a log drain can filter by
+// field. Each request gets an id, returned as `X-Request-Id` and echoed in
+// error bodies, which ties a support report to every line the request wrote.
+import type { Context, MiddlewareHandler } from 'npm:hono';
+import { routePath } from 'npm:hono/route';
+import type { AppEnv } from './auth.tsx';
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export function log(level: LogLevel, message: string, fields: Record<string, unknown> = {}) {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, message, ...fields });
+  if (level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+function errorFields(error: unknown) {
+  return error instanceof Error
+    ? { error: error.message, stack: error.stack }
+    : { error: String(error) };
+}
+
+// Who made the request and which route served it; the route is the pattern
+// (`/students/:id`) so lines group by endpoint
+function requestFields(c: Context<AppEnv>) {
+  return {
+    requestId: c.get('requestId'),
+    userId: c.get('userId'),
+    method: c.req.method,
+    route: routePath(c),
+  };
+}
+
+export function logInfo(c: Context<AppEnv>, message: string, fields: Record<string, unknown> = {}) {
+  log('info', message, { ...requestFields(c), ...fields });
+}
+
+export function logError(c: Context<AppEnv>, message: string, error: unknown) {
+  log('error', message, { ...requestFields(c), ...errorFields(error) });
+}
+
+// For work outside a request, such as deliveries left running in the background
+export function logTaskError(message: string, error: unknown) {
+  log('error', message, errorFields(error));
+}
+
+function outcome(status: number) {
+  if (status >= 500) return 'error';
+  if (status >= 400) return 'rejected';
+  return 'ok';
+}
+
+// Assigns the request id and writes one line per request once it is answered
+export const requestLogger: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const requestId = crypto.randomUUID();
+  const start = Date.now();
+  c.set('requestId', requestId);
+
+  await next();
+
+  c.header('X-Request-Id', requestId);
+  const status = c.res.status;
+  if (status >= 400 && c.res.headers.get('Content-Type')?.startsWith('application/json')) {
+    const body = await c.res.clone().json().catch(() => null);
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      c.res = new Response(JSON.stringify({ ...body, requestId }), c.res);
+    }
+  }
+
+  log(status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info', 'request', {
+    ...requestFields(c),
+    path: c.req.path,
+    status,
+    outcome: outcome(status),
+    durationMs: Date.now() - start,
+  });
+};
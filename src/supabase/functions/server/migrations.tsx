@@ -0,0 +1,110 @@
+// Schema migrations of the KV namespace (lib/migrations.ts). The applied
+// version is kept under `schema-version`; a namespace without it is at 0.
+// Students, adaptations and reports go through the repositories so their
+// indexes follow the rewritten records. Reminder markers are found through
+// their adaptations: older markers hold no more than `sentAt`.
+import { reviewDateOf } from '../../../lib/adaptationReview.ts';
+import {
+  LATEST_SCHEMA_VERSION,
+  pendingMigrations,
+  runMigrations,
+  type MigrationData,
+  type MigrationStatus,
+  type MigrationTarget,
+} from '../../../lib/migrations.ts';
+import type { Adaptation, AuditEntry, Revision, ReviewReminder, User } from '../../../types/index.ts';
+import { repositories } from './repositories.tsx';
+import { revisionKey } from './revisions.tsx';
+import { auditKey } from './audit.tsx';
+import { reviewReminderKey } from './notifications.tsx';
+import * as kv from './kv.tsx';
+
+const VERSION_KEY = 'schema-version';
+
+const userKey = (user: User) => `user:${user.id}`;
+
+// The marker of each adaptation's current review date, where one was sent
+async function loadReviewReminders(adaptations: Adaptation[]): Promise<ReviewReminder[]> {
+  const reminders = await Promise.all(adaptations.map(async (adaptation) => {
+    const reminder = { adaptationId: adaptation.id, reviewDate: reviewDateOf(adaptation) };
+    const marker = await kv.get<Pick<ReviewReminder, 'sentAt'>>(reviewReminderKey(reminder));
+    return marker ? { ...reminder, sentAt: marker.sentAt } : null;
+  }));
+  return reminders.filter((r): r is ReviewReminder => r !== null);
+}
+
+export async function getSchemaVersion(): Promise<number> {
+  return (await kv.get<{ version: number }>(VERSION_KEY))?.version ?? 0;
+}
+
+// Every record a step may rewrite, except the reminder markers
+export async function loadKvRecords(): Promise<Omit<MigrationData, 'reviewReminders'>> {
+  const [students, adaptations, reports, revisions, audit, users] = await Promise.all([
+    repositories().students.list(),
+    repositories().adaptations.list(),
+    repositories().reports.list(),
+    kv.getByPrefix<Revision>('revision:'),
+    kv.getByPrefix<AuditEntry>('audit:'),
+    kv.getByPrefix<User>('user:'),
+  ]);
+  return { students, adaptations, reports, revisions: revisions || [], audit: audit || [], users: users || [] };
+}
+
+export const kvMigrationTarget: MigrationTarget = {
+  getVersion: getSchemaVersion,
+  async setVersion(version) {
+    await kv.set(VERSION_KEY, { version, migratedAt: new Date().toISOString() });
+  },
+  async load() {
+    const records = await loadKvRecords();
+    return { ...records, reviewReminders: await loadReviewReminders(records.adaptations) };
+  },
+  // Removals first, so a record moving to a new id never has its index
+  // entries dropped by the removal of its old copy
+  async write(_data, changes) {
+    const { students, adaptations, reports, revisions, audit, users, reviewReminders } = changes;
+    await repositories().adaptations.removeMany(adaptations.removed);
+    await repositories().reports.removeMany(reports.removed);
+    for (const student of students.removed) {
+      await repositories().students.remove(student.id);
+    }
+    if (revisions.removed.length > 0) await kv.mdel(revisions.removed.map(revisionKey));
+    if (audit.removed.length > 0) await kv.mdel(audit.removed.map(auditKey));
+    if (users.removed.length > 0) await kv.mdel(users.removed.map(userKey));
+    if (reviewReminders.removed.length > 0) await kv.mdel(reviewReminders.removed.map(reviewReminderKey));
+
+    await repositories().students.saveMany(students.saved);
+    await repositories().adaptations.saveMany(adaptations.saved);
+    await repositories().reports.saveMany(reports.saved);
+    if (revisions.saved.length > 0) await kv.mset(revisions.saved.map(revisionKey), revisions.saved);
+    if (audit.saved.length > 0) await kv.mset(audit.saved.map(auditKey), audit.saved);
+    if (users.saved.length > 0) await kv.mset(users.saved.map(userKey), users.saved);
+    if (reviewReminders.saved.length > 0) {
+      await kv.mset(reviewReminders.saved.map(reviewReminderKey), reviewReminders.saved);
+    }
+  },
+};
+
+export async function migrationStatus(): Promise<MigrationStatus> {
+  const version = await getSchemaVersion();
+  return {
+    version,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    pending: pendingMigrations(version).map(({ version, description }) => ({ version, description })),
+  };
+}
+
+export function runKvMigrations(dryRun: boolean) {
+  return runMigrations(kvMigrationTarget, { dryRun, generateId: () => crypto.randomUUID() });
+}
+
+// Pending steps that would not change a record, as on a new or wiped
+// namespace, only need the version recorded; that is done here unless
+// `dryRun`. Resolves to whether steps that rewrite records remain.
+export async function applyEmptyMigrations(dryRun: boolean): Promise<boolean> {
+  if ((await getSchemaVersion()) === LATEST_SCHEMA_VERSION) return false;
+  const { steps } = await runKvMigrations(true);
+  if (steps.some((step) => step.saved + step.removed > 0)) return true;
+  if (!dryRun) await kvMigrationTarget.setVersion(LATEST_SCHEMA_VERSION);
+  return false;
+}
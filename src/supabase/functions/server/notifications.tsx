@@ -0,0 +1,146 @@
+// Notification outbox. Messages are rendered and stored as
+// `notification:<id>` first, then sent in the background through the
+// transport configured for the deployment (transports.tsx). Failed sends stay
+// pending for the next flush, up to MAX_SEND_ATTEMPTS; delivery is at least
+// once, so two overlapping flushes may send a message twice.
+import type {
+  Assignment,
+  Notification,
+  NotificationTemplate,
+  PendingReview,
+  ReviewReminder,
+  Student,
+  User,
+} from '../../../types/index.ts';
+import { isAssignedStudent } from '../../../lib/assignments.ts';
+import { renderNotification, type NotificationData } from '../../../lib/notificationTemplates.ts';
+import { inBackground } from './background.tsx';
+import { logTaskError } from './logging.tsx';
+import { transportFromEnv } from './transports.tsx';
+import { repositories } from './repositories.tsx';
+import * as kv from './kv.tsx';
+
+const MAX_SEND_ATTEMPTS = 5;
+
+// Sent and failed messages kept for the outbox view; pending ones are never pruned
+const MAX_LOGGED_NOTIFICATIONS = 500;
+
+export async function listNotifications(): Promise<Notification[]> {
+  const notifications: Notification[] = (await kv.getByPrefix<Notification>('notification:')) || [];
+  return notifications.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function canReceive(user: User) {
+  return Boolean(user.email) && !user.deactivatedAt;
+}
+
+// Teachers with an assignment covering the student's class
+async function teachersOf(student: Student): Promise<User[]> {
+  const [users, assignments] = await Promise.all([
+    kv.getByPrefix<User>('user:'),
+    kv.getByPrefix<Assignment>('assignment:'),
+  ]);
+  const teacherIds = new Set(
+    (assignments || []).filter((a) => isAssignedStudent(student, [a])).map((a) => a.teacherId)
+  );
+  return (users || []).filter((u) => u.role === 'professor' && teacherIds.has(u.id) && canReceive(u));
+}
+
+async function coordinators(): Promise<User[]> {
+  const users = await kv.getByPrefix<User>('user:');
+  return (users || []).filter((u) => u.role === 'coordenador' && canReceive(u));
+}
+
+async function queueNotifications(
+  template: NotificationTemplate,
+  recipients: User[],
+  data: Omit<NotificationData, 'recipientName'>
+) {
+  if (recipients.length === 0) return;
+
+  const appUrl = Deno.env.get('APP_URL') || undefined;
+  const createdAt = new Date().toISOString();
+  const notifications: Notification[] = recipients.map((user) => ({
+    id: crypto.randomUUID(),
+    template,
+    to: { id: user.id, name: user.name, email: user.email },
+    ...renderNotification(template, { ...data, appUrl, recipientName: user.name }),
+    status: 'pending',
+    attempts: 0,
+    createdAt,
+  }));
+
+  await kv.mset(notifications.map((n) => `notification:${n.id}`), notifications);
+  inBackground(flushOutbox(), 'sending notifications');
+}
+
+// Send every pending message. Returns how many were sent and how many failed.
+export async function flushOutbox() {
+  const all = await listNotifications();
+  const pending = all.filter((n) => n.status === 'pending');
+  const result = { sent: 0, failed: 0 };
+  if (pending.length === 0) return result;
+
+  const transport = transportFromEnv();
+  for (const notification of pending) {
+    const attempts = notification.attempts + 1;
+    let updated: Notification;
+    try {
+      await transport.send(notification);
+      updated = { ...notification, attempts, status: 'sent', sentAt: new Date().toISOString(), transport: transport.name, error: undefined };
+      result.sent++;
+    } catch (error) {
+      updated = {
+        ...notification,
+        attempts,
+        status: attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'pending',
+        transport: transport.name,
+        error: String(error),
+      };
+      result.failed++;
+    }
+    await kv.set(`notification:${notification.id}`, updated);
+  }
+
+  const finished = all.filter((n) => n.status !== 'pending');
+  const excess = finished.slice(Math.max(0, MAX_LOGGED_NOTIFICATIONS - pending.length));
+  if (excess.length > 0) {
+    await kv.mdel(excess.map((n) => `notification:${n.id}`));
+  }
+  return result;
+}
+
+// Tell the teachers of the student's classes about a new or changed adaptation.
+// Never fails the request that saved the adaptation.
+export async function notifyAdaptation(template: 'adaptation.created' | 'adaptation.updated', adaptation: any) {
+  try {
+    const student = await repositories().students.get(adaptation.studentId);
+    if (!student || student.archivedAt) return;
+    await queueNotifications(template, await teachersOf(student), { student, adaptation });
+  } catch (error) {
+    logTaskError('Error queueing adaptation notifications', error);
+  }
+}
+
+export function reviewReminderKey(reminder: Pick<ReviewReminder, 'adaptationId' | 'reviewDate'>) {
+  return `review-reminder:${reminder.adaptationId}:${reminder.reviewDate}`;
+}
+
+// Review of an adaptation approaching or overdue: remind the coordination
+export async function notifyReviewDue(review: PendingReview, student: Student) {
+  await queueNotifications('adaptation.review', await coordinators(), {
+    student,
+    adaptation: { ...review.adaptation, reviewDate: review.reviewDate },
+    reviewOverdue: review.status === 'overdue',
+  });
+}
+
+// A negative report asks for the coordination's attention
+export async function notifyReportAttention(report: any, student: Student) {
+  if (report.result !== 'negativo') return;
+  try {
+    await queueNotifications('report.attention', await coordinators(), { student, report });
+  } catch (error) {
+    logTaskError('Error queueing report notifications', error);
+  }
+}
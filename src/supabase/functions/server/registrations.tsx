@@ -0,0 +1,62 @@
+// Registration number index of the KV student repository.
+// `student-by-registration:<number>` points at the id of the student holding
+// that number (archived students keep theirs until purged). Entries are only
+// trusted after checking the student they point to.
+import type { Student } from '../../../types/index.ts';
+import { registrationKey } from '../../../lib/studentImport.ts';
+import * as kv from './kv.tsx';
+
+const INDEX_PREFIX = 'student-by-registration:';
+const INDEX_READY_KEY = 'student-by-registration-ready';
+
+function indexKey(registrationNumber: string) {
+  return `${INDEX_PREFIX}${registrationKey(registrationNumber)}`;
+}
+
+// Students created before the index existed are indexed on first use
+async function ensureIndex() {
+  if (await kv.get(INDEX_READY_KEY)) return;
+
+  const students = await kv.getByPrefix<Student>('student:');
+  const seen = new Set<string>();
+  const keys: string[] = [];
+  const ids: string[] = [];
+  for (const student of students || []) {
+    const key = indexKey(student.registrationNumber);
+    // on pre-existing duplicates the first student found keeps the number
+    if (!registrationKey(student.registrationNumber) || seen.has(key)) continue;
+    seen.add(key);
+    keys.push(key);
+    ids.push(student.id);
+  }
+  if (keys.length > 0) {
+    await kv.mset(keys, ids);
+  }
+  await kv.set(INDEX_READY_KEY, true);
+}
+
+// Student holding `registrationNumber`
+export async function findStudentByRegistration(registrationNumber: string) {
+  await ensureIndex();
+  const studentId = await kv.get<string>(indexKey(registrationNumber));
+  if (!studentId) return null;
+
+  const student = await kv.get<Student>(`student:${studentId}`);
+  if (!student || registrationKey(student.registrationNumber) !== registrationKey(registrationNumber)) {
+    return null;
+  }
+  return student;
+}
+
+export async function indexRegistrations(students: { id: string; registrationNumber: string }[]) {
+  if (students.length === 0) return;
+  await kv.mset(students.map((s) => indexKey(s.registrationNumber)), students.map((s) => s.id));
+}
+
+// Only removes the entry if it still points at this student
+export async function unindexRegistration(student: { id: string; registrationNumber: string }) {
+  const key = indexKey(student.registrationNumber);
+  if ((await kv.get(key)) === student.id) {
+    await kv.del(key);
+  }
+}
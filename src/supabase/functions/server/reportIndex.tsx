@@ -0,0 +1,49 @@
+// Author index of the KV report repository.
+// `report-by-teacher:<teacherId>:<reportId>` holds the key of the report, so
+// one teacher's reports are loaded without scanning every `report:` entry.
+// Entries are only trusted after loading the report itself.
+import type { Report } from '../../../types/index.ts';
+import * as kv from './kv.tsx';
+
+const INDEX_PREFIX = 'report-by-teacher:';
+const INDEX_READY_KEY = 'report-by-teacher-ready';
+
+function indexKey(report: { id: string; teacherId: string }) {
+  return `${INDEX_PREFIX}${report.teacherId}:${report.id}`;
+}
+
+function reportKey(report: { id: string; studentId: string }) {
+  return `report:${report.studentId}:${report.id}`;
+}
+
+// Reports written before the index existed are indexed on first use
+async function ensureIndex() {
+  if (await kv.get(INDEX_READY_KEY)) return;
+
+  const reports = (await kv.getByPrefix<Report>('report:')).filter((r) => r.teacherId);
+  if (reports.length > 0) {
+    await kv.mset(reports.map(indexKey), reports.map(reportKey));
+  }
+  await kv.set(INDEX_READY_KEY, true);
+}
+
+// Every stored report written by `teacherId`, archived ones included
+export async function listReportsByTeacher(teacherId: string) {
+  await ensureIndex();
+  const keys = await kv.getByPrefix<string>(`${INDEX_PREFIX}${teacherId}:`);
+  if (keys.length === 0) return [];
+
+  const reports = await kv.mget<Report>(keys);
+  return reports.filter((r) => r && r.teacherId === teacherId);
+}
+
+export async function indexReports(reports: { id: string; studentId: string; teacherId: string }[]) {
+  const authored = reports.filter((r) => r.teacherId);
+  if (authored.length === 0) return;
+  await kv.mset(authored.map(indexKey), authored.map(reportKey));
+}
+
+export async function unindexReports(reports: { id: string; teacherId: string }[]) {
+  if (reports.length === 0) return;
+  await kv.mdel(reports.map(indexKey));
+}
@@ -0,0 +1,107 @@
+// Students, adaptations and reports for the routes (lib/repositories.ts).
+// Deployed they live in the KV store under `student:<id>`,
+// `adaptation:<studentId>:<id>` and `report:<studentId>:<id>`, with the
+// registration and author indexes kept alongside; the local server may swap in
+// the in-memory or SQLite repositories with setRepositories.
+import type { Adaptation, Report, Student } from '../../../types/index.ts';
+import type { Repositories, StudentRecordRepository } from '../../../lib/repositories.ts';
+import { registrationKey } from '../../../lib/studentImport.ts';
+import { findStudentByRegistration, indexRegistrations, unindexRegistration } from './registrations.tsx';
+import { indexReports, listReportsByTeacher, unindexReports } from './reportIndex.tsx';
+import * as kv from './kv.tsx';
+
+function createKvRecords<T extends { id: string; studentId: string }>(
+  prefix: string,
+  hooks: { saved?: (records: T[]) => Promise<void>; removed?: (records: T[]) => Promise<void> } = {}
+): StudentRecordRepository<T> {
+  const key = (record: { studentId: string; id: string }) => `${prefix}:${record.studentId}:${record.id}`;
+
+  return {
+    async list() {
+      return (await kv.getByPrefix<T>(`${prefix}:`)) || [];
+    },
+    async listByStudent(studentId) {
+      return (await kv.getByPrefix<T>(`${prefix}:${studentId}:`)) || [];
+    },
+    async get(studentId, id) {
+      return (await kv.get<T>(key({ studentId, id }))) ?? null;
+    },
+    async save(record) {
+      await kv.set(key(record), record);
+      await hooks.saved?.([record]);
+    },
+    async saveMany(records) {
+      if (records.length === 0) return;
+      await kv.mset(records.map(key), records);
+      await hooks.saved?.(records);
+    },
+    async removeMany(records) {
+      if (records.length === 0) return;
+      await kv.mdel(records.map(key));
+      await hooks.removed?.(records);
+    },
+  };
+}
+
+// Index new students, and students whose registration number changed
+async function reindexRegistrations(students: Student[]) {
+  const before = new Map<string, Student>(
+    (await kv.mget<Student>(students.map((s) => `student:${s.id}`))).map((s: Student) => [s.id, s])
+  );
+  const changed = students.filter((student) => {
+    const previous = before.get(student.id);
+    return !previous || registrationKey(previous.registrationNumber) !== registrationKey(student.registrationNumber);
+  });
+  for (const student of changed) {
+    const previous = before.get(student.id);
+    if (previous) await unindexRegistration(previous);
+  }
+  await indexRegistrations(changed);
+}
+
+export function createKvRepositories(): Repositories {
+  return {
+    students: {
+      async list() {
+        return (await kv.getByPrefix<Student>('student:')) || [];
+      },
+      async getMany(ids) {
+        return ids.length > 0 ? (await kv.mget<Student>(ids.map((id) => `student:${id}`))).filter(Boolean) : [];
+      },
+      async get(id) {
+        return (await kv.get<Student>(`student:${id}`)) ?? null;
+      },
+      findByRegistration: findStudentByRegistration,
+      async save(student) {
+        await reindexRegistrations([student]);
+        await kv.set(`student:${student.id}`, student);
+      },
+      async saveMany(students) {
+        if (students.length === 0) return;
+        await reindexRegistrations(students);
+        await kv.mset(students.map((s) => `student:${s.id}`), students);
+      },
+      async remove(id) {
+        const student = await kv.get<Student>(`student:${id}`);
+        if (!student) return;
+        await kv.del(`student:${id}`);
+        await unindexRegistration(student);
+      },
+    },
+    adaptations: createKvRecords<Adaptation>('adaptation'),
+    reports: {
+      ...createKvRecords<Report>('report', { saved: indexReports, removed: unindexReports }),
+      listByTeacher: listReportsByTeacher,
+    },
+  };
+}
+
+let current: Repositories = createKvRepositories();
+
+export function setRepositories(next: Repositories) {
+  current = next;
+}
+
+export function repositories(): Repositories {
+  return current;
+}
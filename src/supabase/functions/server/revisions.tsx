@@ -0,0 +1,45 @@
+// Numbered revisions of adaptations and reports. Keys are zero-padded so a
+// prefix scan of one record returns its revisions in order.
+import type { Context } from 'npm:hono';
+import type { Adaptation, Report, Revision, RevisionEntityType } from '../../../types/index.ts';
+import { nextRevisions, sortRevisions } from '../../../lib/revisions.ts';
+import type { AppEnv } from './auth.tsx';
+import * as kv from './kv.tsx';
+
+export function revisionKey(revision: Revision) {
+  return `revision:${revision.entityType}:${revision.entityId}:${String(revision.revision).padStart(6, '0')}`;
+}
+
+export async function listRevisions(entityType: RevisionEntityType, entityId: string): Promise<Revision[]> {
+  const revisions = await kv.getByPrefix<Revision>(`revision:${entityType}:${entityId}:`);
+  return sortRevisions(revisions || []);
+}
+
+export async function recordRevision(
+  c: Context<AppEnv>,
+  entityType: RevisionEntityType,
+  before: Adaptation | Report | null,
+  after: Adaptation | Report,
+  restoredFrom?: number
+) {
+  const profile = c.get('profile');
+  const history = await listRevisions(entityType, after.id);
+  const revisions = nextRevisions(history, {
+    id: crypto.randomUUID(),
+    entityType,
+    record: after,
+    author: { id: profile.id, name: profile.name },
+    restoredFrom,
+    before,
+    generateId: () => crypto.randomUUID(),
+  });
+  await kv.mset(revisions.map(revisionKey), revisions);
+}
+
+// Called when the record itself is permanently removed
+export async function deleteRevisions(entityType: RevisionEntityType, entityId: string) {
+  const revisions = await listRevisions(entityType, entityId);
+  if (revisions.length > 0) {
+    await kv.mdel(revisions.map(revisionKey));
+  }
+}
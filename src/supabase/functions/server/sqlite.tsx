@@ -0,0 +1,142 @@
+// Students, adaptations and reports in a SQLite file, for local servers that
+// should keep their data without a Supabase project. Each record is stored
+// whole as JSON next to the columns the repositories look it up by.
+import { Database } from 'jsr:@db/sqlite@0.12';
+import type { Adaptation, Report, Student } from '../../../types/index.ts';
+import type { Repositories, StudentRecordRepository } from '../../../lib/repositories.ts';
+import { registrationKey } from '../../../lib/studentImport.ts';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS students (
+    id TEXT PRIMARY KEY,
+    registration_key TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS students_registration ON students (registration_key);
+
+  CREATE TABLE IF NOT EXISTS adaptations (
+    student_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (student_id, id)
+  );
+
+  CREATE TABLE IF NOT EXISTS reports (
+    student_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    teacher_id TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (student_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS reports_teacher ON reports (teacher_id);
+`;
+
+function parseRows<T>(rows: { data: string }[]): T[] {
+  return rows.map((row) => JSON.parse(row.data));
+}
+
+function parseRow<T>(row: { data: string } | undefined): T | null {
+  return row ? JSON.parse(row.data) : null;
+}
+
+function createSqliteRecords<T extends { id: string; studentId: string }>(
+  db: Database,
+  table: 'adaptations' | 'reports',
+  // Extra column values for each record, in the order of `columns`
+  extra: { columns: string[]; values: (record: T) => unknown[] } = { columns: [], values: () => [] }
+): StudentRecordRepository<T> {
+  const columns = ['student_id', 'id', ...extra.columns, 'data'];
+  const upsert = db.prepare(
+    `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+     ON CONFLICT (student_id, id) DO UPDATE SET ${columns.slice(2).map((c) => `${c} = excluded.${c}`).join(', ')}`
+  );
+  const remove = db.prepare(`DELETE FROM ${table} WHERE student_id = ? AND id = ?`);
+  const saveAll = db.transaction((records: T[]) => {
+    for (const record of records) {
+      upsert.run(record.studentId, record.id, ...extra.values(record), JSON.stringify(record));
+    }
+  });
+  const removeAll = db.transaction((records: T[]) => {
+    for (const record of records) {
+      remove.run(record.studentId, record.id);
+    }
+  });
+
+  return {
+    async list() {
+      return parseRows(db.prepare(`SELECT data FROM ${table}`).all());
+    },
+    async listByStudent(studentId) {
+      return parseRows(db.prepare(`SELECT data FROM ${table} WHERE student_id = ?`).all(studentId));
+    },
+    async get(studentId, id) {
+      return parseRow(db.prepare(`SELECT data FROM ${table} WHERE student_id = ? AND id = ?`).get(studentId, id));
+    },
+    async save(record) {
+      saveAll([record]);
+    },
+    async saveMany(records) {
+      saveAll(records);
+    },
+    async removeMany(records) {
+      removeAll(records);
+    },
+  };
+}
+
+export function createSqliteRepositories(path: string): Repositories {
+  const db = new Database(path);
+  db.exec(SCHEMA);
+
+  const upsertStudent = db.prepare(
+    `INSERT INTO students (id, registration_key, data) VALUES (?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET registration_key = excluded.registration_key, data = excluded.data`
+  );
+  const saveStudents = db.transaction((students: Student[]) => {
+    for (const student of students) {
+      upsertStudent.run(student.id, registrationKey(student.registrationNumber), JSON.stringify(student));
+    }
+  });
+
+  return {
+    students: {
+      async list() {
+        return parseRows(db.prepare('SELECT data FROM students').all());
+      },
+      async getMany(ids) {
+        if (ids.length === 0) return [];
+        const placeholders = ids.map(() => '?').join(', ');
+        return parseRows(db.prepare(`SELECT data FROM students WHERE id IN (${placeholders})`).all(...ids));
+      },
+      async get(id) {
+        return parseRow(db.prepare('SELECT data FROM students WHERE id = ?').get(id));
+      },
+      // Like the KV index, the first student to take a number keeps it
+      async findByRegistration(registrationNumber) {
+        return parseRow(
+          db.prepare('SELECT data FROM students WHERE registration_key = ? ORDER BY rowid LIMIT 1')
+            .get(registrationKey(registrationNumber))
+        );
+      },
+      async save(student) {
+        saveStudents([student]);
+      },
+      async saveMany(students) {
+        saveStudents(students);
+      },
+      async remove(id) {
+        db.prepare('DELETE FROM students WHERE id = ?').run(id);
+      },
+    },
+    adaptations: createSqliteRecords<Adaptation>(db, 'adaptations'),
+    reports: {
+      ...createSqliteRecords<Report>(db, 'reports', {
+        columns: ['teacher_id'],
+        values: (report) => [report.teacherId ?? null],
+      }),
+      async listByTeacher(teacherId) {
+        return parseRows(db.prepare('SELECT data FROM reports WHERE teacher_id = ?').all(teacherId));
+      },
+    },
+  };
+}
@@ -0,0 +1,121 @@
+// Email transports for the notification outbox, picked with
+// NOTIFICATION_TRANSPORT:
+// - `smtp`: a real mail server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS,
+//   SMTP_FROM). Supabase blocks outbound ports 25 and 587, so hosted
+//   deployments need an implicit-TLS port such as 465 (the default).
+// - `file`: one .eml file per message in NOTIFICATION_DIR, for local development
+// - `console` (default): logs the message, for local development
+import nodemailer from 'npm:nodemailer@6';
+
+export interface EmailMessage {
+  to: { name: string; email: string };
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface NotificationTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export function createConsoleTransport(): NotificationTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[email] Para: ${message.to.name} <${message.to.email}>\n[email] Assunto: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+// Quote a header value that may carry non-ASCII characters (RFC 2047)
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}?=`;
+}
+
+export function createFileTransport(dir: string): NotificationTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await Deno.mkdir(dir, { recursive: true });
+      const boundary = `b-${crypto.randomUUID()}`;
+      const eml = [
+        `To: ${encodeHeader(message.to.name)} <${message.to.email}>`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        message.html,
+        `--${boundary}--`,
+        '',
+      ].join('\r\n');
+      const file = `${dir}/${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+      await Deno.writeTextFile(file, eml);
+    },
+  };
+}
+
+export function createSmtpTransport(config: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}): NotificationTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from: config.from,
+        to: { name: message.to.name, address: message.to.email },
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    },
+  };
+}
+
+// Transport configured for this deployment
+export function transportFromEnv(): NotificationTransport {
+  const kind = Deno.env.get('NOTIFICATION_TRANSPORT') || 'console';
+
+  if (kind === 'smtp') {
+    const host = Deno.env.get('SMTP_HOST');
+    const from = Deno.env.get('SMTP_FROM');
+    if (!host || !from) {
+      throw new Error('NOTIFICATION_TRANSPORT=smtp requires SMTP_HOST and SMTP_FROM');
+    }
+    const port = Number(Deno.env.get('SMTP_PORT') || 465);
+    return createSmtpTransport({
+      host,
+      port,
+      secure: (Deno.env.get('SMTP_SECURE') ?? String(port === 465)) === 'true',
+      user: Deno.env.get('SMTP_USER'),
+      pass: Deno.env.get('SMTP_PASS'),
+      from,
+    });
+  }
+
+  if (kind === 'file') {
+    return createFileTransport(Deno.env.get('NOTIFICATION_DIR') || './outbox');
+  }
+
+  return createConsoleTransport();
+}
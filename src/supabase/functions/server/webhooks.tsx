@@ -0,0 +1,176 @@
+// Outgoing webhooks. `webhook:<id>` holds a subscription and
+// `webhook-delivery:<webhookId>:<deliveryId>` its delivery log. Events come from
+// recordAudit: every matching subscription gets a delivery that is tried right
+// away and, when it fails, again with exponential backoff whenever due
+// deliveries are processed (on later events or POST /webhooks/process).
+import type { Webhook, WebhookDelivery, WebhookEventType } from '../../../types/index.ts';
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  isInternalWebhookUrl,
+  MAX_DELIVERY_ATTEMPTS,
+  retryDelaySeconds,
+  SIGNATURE_HEADER,
+  signPayload,
+  TIMESTAMP_HEADER,
+} from '../../../lib/webhooks.ts';
+import type { FieldError } from '../../../lib/validation.ts';
+import { inBackground } from './background.tsx';
+import * as kv from './kv.tsx';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Finished deliveries kept per webhook; pending ones are never pruned
+const MAX_LOGGED_DELIVERIES = 100;
+
+// Deployed, payloads must not reach the function's own network. The local
+// runner (and `WEBHOOK_ALLOW_INTERNAL_HOSTS=true` under `supabase functions
+// serve`) delivers to a receiver on the same machine.
+let allowInternalHosts = false;
+
+export function allowInternalWebhookHosts(allow: boolean) {
+  allowInternalHosts = allow;
+}
+
+export function checkWebhookUrl(url: string): FieldError[] {
+  return !allowInternalHosts && isInternalWebhookUrl(url)
+    ? [{ field: 'url', message: 'Endereços internos não são permitidos' }]
+    : [];
+}
+
+export function deliveryKey(delivery: Pick<WebhookDelivery, 'webhookId' | 'id'>) {
+  return `webhook-delivery:${delivery.webhookId}:${delivery.id}`;
+}
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  return (await kv.getByPrefix<Webhook>('webhook:')) || [];
+}
+
+export async function listDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+  const deliveries: WebhookDelivery[] = (await kv.getByPrefix<WebhookDelivery>(`webhook-delivery:${webhookId}:`)) || [];
+  return deliveries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteDeliveries(webhookId: string) {
+  const deliveries = await listDeliveries(webhookId);
+  if (deliveries.length > 0) {
+    await kv.mdel(deliveries.map(deliveryKey));
+  }
+}
+
+// One POST to the subscriber. The outcome, and the next attempt if any, is
+// stored on the delivery.
+export async function attemptDelivery(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    // Subscriptions saved before the address check, or while it was off
+    if (checkWebhookUrl(webhook.url).length > 0) {
+      throw new Error('Endereço interno não permitido');
+    }
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [EVENT_HEADER]: delivery.event,
+        [DELIVERY_HEADER]: delivery.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: await signPayload(webhook.secret, timestamp, delivery.body),
+      },
+      body: delivery.body,
+      // A redirect could point anywhere, internal addresses included
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+    await response.body?.cancel();
+  } catch (err) {
+    error = String(err);
+  }
+
+  const now = new Date();
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    lastAttemptAt: now.toISOString(),
+    responseStatus,
+    error,
+    status: !error ? 'success' : attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending',
+    nextAttemptAt: !error || attempts >= MAX_DELIVERY_ATTEMPTS
+      ? undefined
+      : new Date(now.getTime() + retryDelaySeconds(attempts) * 1000).toISOString(),
+  };
+  await kv.set(deliveryKey(updated), updated);
+  return updated;
+}
+
+function createDelivery(webhookId: string, event: WebhookDelivery['event'], data: unknown, actor?: { id: string; name: string }) {
+  const id = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+  const delivery: WebhookDelivery = {
+    id,
+    webhookId,
+    event,
+    body: JSON.stringify({ id, event, occurredAt: createdAt, actor, data }),
+    status: 'pending',
+    attempts: 0,
+    createdAt,
+  };
+  return delivery;
+}
+
+// Drop the oldest finished deliveries beyond MAX_LOGGED_DELIVERIES
+async function pruneDeliveries(webhookId: string) {
+  const finished = (await listDeliveries(webhookId)).filter((d) => d.status !== 'pending');
+  const excess = finished.slice(MAX_LOGGED_DELIVERIES);
+  if (excess.length > 0) {
+    await kv.mdel(excess.map(deliveryKey));
+  }
+}
+
+// Retry every pending delivery whose backoff has elapsed. Returns how many were tried.
+export async function processDueDeliveries(): Promise<number> {
+  const now = new Date().toISOString();
+  const due: WebhookDelivery[] = ((await kv.getByPrefix<WebhookDelivery>('webhook-delivery:')) || []).filter(
+    (d) => d.status === 'pending' && d.attempts > 0 && (!d.nextAttemptAt || d.nextAttemptAt <= now)
+  );
+  if (due.length === 0) return 0;
+
+  const webhooks = new Map((await listWebhooks()).map((w) => [w.id, w]));
+  let tried = 0;
+  for (const delivery of due) {
+    const webhook = webhooks.get(delivery.webhookId);
+    if (!webhook?.active) continue;
+    await attemptDelivery(webhook, delivery);
+    tried++;
+  }
+  return tried;
+}
+
+// Queue the event for every active subscription and send it in the background
+export async function emitWebhookEvent(event: WebhookEventType, data: unknown, actor: { id: string; name: string }) {
+  const webhooks = (await listWebhooks()).filter((w) => w.active && w.events.includes(event));
+  if (webhooks.length === 0) return;
+
+  const deliveries = webhooks.map((w) => createDelivery(w.id, event, data, actor));
+  await kv.mset(deliveries.map(deliveryKey), deliveries);
+
+  inBackground((async () => {
+    await Promise.all(deliveries.map((d, i) => attemptDelivery(webhooks[i], d)));
+    await processDueDeliveries();
+    await Promise.all(webhooks.map((w) => pruneDeliveries(w.id)));
+  })(), 'delivering webhooks');
+}
+
+// `ping` with no data, sent immediately so the coordinator sees the outcome
+export async function sendTestEvent(webhook: Webhook, actor: { id: string; name: string }) {
+  const delivery = createDelivery(webhook.id, 'ping', null, actor);
+  await kv.set(deliveryKey(delivery), delivery);
+  return await attemptDelivery(webhook, delivery);
+}
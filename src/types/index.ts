@@ -1,10 +1,15 @@
-export type UserRole = 'coordenador' | 'professor';
+export type UserRole = 'coordenador' | 'professor' | 'responsavel';
 
 export interface User {
   id: string;
   email: string;
   name: string;
   role: UserRole;
+  deactivatedAt?: string;
+  deactivatedBy?: string;
+  passwordResetAt?: string;
+  // Guardians (responsáveis) only: the students they can follow
+  studentIds?: string[];
 }
 
 export interface Student {
@@ -20,6 +25,12 @@ export interface Student {
   createdBy: string;
   updatedAt?: string;
   updatedBy?: string;
+  archivedAt?: string;
+  archivedBy?: string;
+  // Personal data scrubbed on an LGPD erasure request (lib/lgpd.ts)
+  anonymizedAt?: string;
+  anonymizedBy?: string;
+  version?: number;
 }
 
 export interface Adaptation {
@@ -28,9 +39,37 @@ export interface Adaptation {
   description: string;
   justification: string;
   date: string;
+  // Calendar dates (yyyy-mm-dd). Records saved before reviews existed have no
+  // reviewDate and are due six months after `date`.
+  reviewDate?: string;
+  endDate?: string;
   createdAt: string;
   createdBy: string;
   updatedAt?: string;
+  archivedAt?: string;
+  version?: number;
+}
+
+export type AdaptationStatus = 'ended' | 'overdue' | 'due' | 'ok';
+
+// Review reminder already sent for an adaptation's review date, kept so the
+// coordination is reminded once per date
+export interface ReviewReminder {
+  adaptationId: string;
+  reviewDate: string;
+  sentAt: string;
+}
+
+// Adaptation listed in "Revisões pendentes"
+export interface PendingReview {
+  adaptation: Adaptation;
+  studentName: string;
+  course: string;
+  class: string;
+  status: AdaptationStatus;
+  reviewDate: string;
+  // Negative when the review is overdue
+  daysUntilReview: number;
 }
 
 export type ReportResult = 'positivo' | 'neutro' | 'negativo';
@@ -46,6 +85,121 @@ export interface Report {
   description: string;
   createdAt: string;
   updatedAt?: string;
+  archivedAt?: string;
+  // Marked by a coordinator; only shared reports reach the guardians
+  shared?: boolean;
+  sharedAt?: string;
+  sharedBy?: string;
+  version?: number;
+}
+
+// Class a teacher is assigned to for one subject. Teachers only see the
+// students of the classes assigned to them.
+export interface Assignment {
+  id: string;
+  teacherId: string;
+  teacherName: string;
+  course: string;
+  class: string;
+  subject: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+// Single-use code a coordinator sends so someone can create an account with
+// the given email and role
+export interface Invitation {
+  code: string;
+  email: string;
+  role: UserRole;
+  createdAt: string;
+  createdBy: string;
+  createdByName: string;
+  expiresAt: string;
+  usedAt?: string;
+  usedBy?: string;
+}
+
+export type InvitationStatus = 'pending' | 'used' | 'expired';
+
+export type WebhookEventType =
+  | 'student.created'
+  | 'student.updated'
+  | 'student.archived'
+  | 'student.restored'
+  | 'student.deleted'
+  | 'student.anonymized'
+  | 'adaptation.created'
+  | 'adaptation.updated'
+  | 'adaptation.deleted'
+  | 'report.created'
+  | 'report.updated'
+  | 'report.deleted';
+
+// Subscription of an external system to some events. Payloads are signed with
+// `secret` (HMAC-SHA256).
+export interface Webhook {
+  id: string;
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+  active: boolean;
+  secret: string;
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+}
+
+export type WebhookInput = Pick<Webhook, 'url' | 'description' | 'events' | 'active'>;
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+// One event sent (or still to be sent) to one webhook. `ping` is the test event.
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType | 'ping';
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  error?: string;
+}
+
+export type NotificationTemplate = 'adaptation.created' | 'adaptation.updated' | 'adaptation.review' | 'report.attention';
+
+export type NotificationStatus = 'pending' | 'sent' | 'failed';
+
+// Email waiting in (or already sent from) the outbox. Subject and bodies are
+// rendered when queued, so a later change to the record does not alter them.
+export interface Notification {
+  id: string;
+  template: NotificationTemplate;
+  to: { id: string; name: string; email: string };
+  subject: string;
+  text: string;
+  html: string;
+  status: NotificationStatus;
+  attempts: number;
+  createdAt: string;
+  sentAt?: string;
+  transport?: string;
+  error?: string;
+}
+
+// What a guardian sees of one linked student
+export interface GuardianStudentView {
+  student: Student;
+  adaptations: Adaptation[];
+  reports: Report[];
+}
+
+// Report listed across students in "Meus Relatos"
+export interface TeacherReport extends Report {
+  studentName: string;
 }
 
 export interface StudentReport {
@@ -53,3 +207,99 @@ export interface StudentReport {
   adaptations: Adaptation[];
   reports: Report[];
 }
+
+// Fields a client may send when creating or updating records. Everything else
+// (ids, authorship, timestamps) is assigned by the backend.
+export type StudentInput = Pick<
+  Student,
+  'name' | 'course' | 'class' | 'birthDate' | 'registrationNumber' | 'guardianName' | 'guardianContact'
+>;
+
+export type UserInput = Pick<User, 'name' | 'role'>;
+
+export type InvitationInput = Pick<Invitation, 'email' | 'role'>;
+
+export type AssignmentInput = Pick<Assignment, 'teacherId' | 'course' | 'class' | 'subject'>;
+
+// Payload of the invitation signup; the password is checked separately
+export interface InvitationRedemption {
+  code: string;
+  email: string;
+  name: string;
+}
+
+export type AdaptationInput = Pick<Adaptation, 'studentId' | 'description' | 'justification' | 'date' | 'reviewDate' | 'endDate'>;
+
+export type ReportInput = Pick<Report, 'studentId' | 'subject' | 'result' | 'description' | 'date'>;
+
+// Student row returned by the paginated listing
+export interface StudentListItem extends Student {
+  adaptationCount: number;
+}
+
+// Student in the recycle bin, with what will come back on restore
+export interface ArchivedStudent extends Student {
+  adaptationCount: number;
+  reportCount: number;
+}
+
+export interface StudentPage {
+  students: StudentListItem[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'archive' | 'restore' | 'export' | 'anonymize';
+
+export type AuditEntityType = 'student' | 'adaptation' | 'report' | 'user' | 'assignment';
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actorId: string;
+  actorName: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string;
+  studentId: string;
+  changes: Record<string, FieldChange>;
+}
+
+export type RevisionEntityType = 'adaptation' | 'report';
+
+// Numbered snapshot of an adaptation or report as it stood after one write
+export interface Revision {
+  id: string;
+  entityType: RevisionEntityType;
+  entityId: string;
+  studentId: string;
+  revision: number;
+  createdAt: string;
+  authorId: string;
+  authorName: string;
+  restoredFrom?: number;
+  snapshot: Record<string, unknown>;
+}
+
+// Aggregated indicators for the coordinator dashboard (GET /stats)
+export interface Stats {
+  totals: {
+    students: number;
+    studentsWithAdaptations: number;
+    adaptations: number;
+    reports: number;
+  };
+  reportsByResult: { result: ReportResult; count: number }[];
+  reportsBySubject: { subject: string; count: number }[];
+  byClass: { class: string; students: number; studentsWithAdaptations: number; reports: number }[];
+  byMonth: { month: string; adaptations: number; reports: number }[];
+  // Values available for the course and class filters
+  courses: string[];
+  classes: string[];
+}